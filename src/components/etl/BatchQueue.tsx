@@ -0,0 +1,166 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { BatchItem, BatchItemStatus } from '@/lib/etl/types';
+import { summarizeBatch } from '@/lib/etl/batch';
+import { cn } from '@/lib/utils';
+import { CheckCircle, AlertCircle, AlertTriangle, Clock, Loader2, XCircle } from 'lucide-react';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  activeItemId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Antre',
+  processing: 'Diproses',
+  processed: 'Berhasil',
+  failed: 'Gagal',
+  cancelled: 'Dibatalkan',
+};
+
+const formatShortNumber = (num: number): string => {
+  if (Math.abs(num) >= 1e12) return `${(num / 1e12).toFixed(1)}T`;
+  if (Math.abs(num) >= 1e9) return `${(num / 1e9).toFixed(1)}B`;
+  if (Math.abs(num) >= 1e6) return `${(num / 1e6).toFixed(1)}M`;
+  return num.toLocaleString('id-ID');
+};
+
+function StatusBadge({ item }: { item: BatchItem }) {
+  const warningCount = item.etlResult?.warnings.length ?? 0;
+
+  switch (item.status) {
+    case 'processing':
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          {STATUS_LABELS.processing}
+        </Badge>
+      );
+    case 'processed':
+      return warningCount > 0 ? (
+        <Badge variant="outline" className="gap-1 text-amber-600 border-amber-300">
+          <AlertTriangle className="w-3 h-3" />
+          {warningCount} peringatan
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="gap-1 text-green-600 border-green-300">
+          <CheckCircle className="w-3 h-3" />
+          {STATUS_LABELS.processed}
+        </Badge>
+      );
+    case 'failed':
+      return (
+        <Badge variant="destructive" className="gap-1" title={item.error ?? undefined}>
+          <AlertCircle className="w-3 h-3" />
+          {STATUS_LABELS.failed}
+        </Badge>
+      );
+    case 'cancelled':
+      return (
+        <Badge variant="outline" className="gap-1 text-muted-foreground">
+          <XCircle className="w-3 h-3" />
+          {STATUS_LABELS.cancelled}
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="outline" className="gap-1 text-muted-foreground">
+          <Clock className="w-3 h-3" />
+          {STATUS_LABELS.queued}
+        </Badge>
+      );
+  }
+}
+
+/**
+ * Per-file status list with the MKBD result of every workbook side by side
+ */
+export function BatchQueue({ items, activeItemId, onSelect }: BatchQueueProps) {
+  const summary = summarizeBatch(items);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 text-sm text-muted-foreground flex-wrap">
+        <span>{summary.total} file</span>
+        <span>•</span>
+        <span className="text-green-600">{summary.processed} berhasil</span>
+        <span>•</span>
+        <span className="text-amber-600">{summary.withWarnings} dengan peringatan</span>
+        <span>•</span>
+        <span className="text-destructive">{summary.failed} gagal</span>
+        {summary.queued > 0 && (
+          <>
+            <span>•</span>
+            <span>{summary.queued} antre</span>
+          </>
+        )}
+        {summary.cancelled > 0 && (
+          <>
+            <span>•</span>
+            <span>{summary.cancelled} dibatalkan</span>
+          </>
+        )}
+      </div>
+
+      <div className="rounded-lg border max-h-[360px] overflow-auto">
+        <Table>
+          <TableHeader className="sticky top-0 bg-muted/95">
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Tanggal Laporan</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Sheet</TableHead>
+              <TableHead className="text-right">Ranking Liabilities</TableHead>
+              <TableHead className="text-right">MKBD Disesuaikan</TableHead>
+              <TableHead className="text-right">Lebih/Kurang</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, idx) => {
+              const mkbd = item.mkbdResult;
+              const selectable = !!item.etlResult;
+
+              return (
+                <TableRow
+                  key={item.id}
+                  className={cn(
+                    selectable && 'cursor-pointer',
+                    item.id === activeItemId && 'bg-primary/5'
+                  )}
+                  onClick={() => selectable && onSelect(item.id)}
+                >
+                  <TableCell className="text-muted-foreground">{idx + 1}</TableCell>
+                  <TableCell className="font-mono text-xs max-w-[260px] truncate" title={item.error ?? item.file.name}>
+                    {item.file.name}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {item.etlResult?.reportHeader.reportDate ?? '-'}
+                  </TableCell>
+                  <TableCell><StatusBadge item={item} /></TableCell>
+                  <TableCell className="text-right">{item.etlResult?.sheets.length ?? '-'}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    {mkbd ? formatShortNumber(mkbd.totalRankingLiabilities) : '-'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    {mkbd ? formatShortNumber(mkbd.mkbdDisesuaikan) : '-'}
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      'text-right font-mono text-xs',
+                      mkbd && (mkbd.lebihKurangMKBD >= 0 ? 'text-green-600' : 'text-red-600')
+                    )}
+                  >
+                    {mkbd ? formatShortNumber(mkbd.lebihKurangMKBD) : '-'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
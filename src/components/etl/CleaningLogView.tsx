@@ -0,0 +1,170 @@
+import React, { useState, useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ProcessedSheet, CleaningRule } from '@/lib/etl/types';
+import { isMetadataField } from '@/lib/etl/provenance';
+import { RotateCcw } from 'lucide-react';
+
+interface CleaningLogViewProps {
+  sheet: ProcessedSheet;
+  onRestoreRows?: (ids: number[]) => void;
+}
+
+const RULE_LABELS: Record<CleaningRule, string> = {
+  'empty-row': 'Baris kosong',
+  'low-fill-row': 'Terisi < 10%',
+  'junk-keyword': 'Kata kunci catatan',
+  'empty-column': 'Kolom kosong',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return value.toLocaleString('id-ID', { maximumFractionDigits: 2 });
+  return String(value);
+};
+
+/**
+ * Rows and columns removed by cleaning, with the rule and original content of each
+ */
+export function CleaningLogView({ sheet, onRestoreRows }: CleaningLogViewProps) {
+  const { removedRows, removedColumns } = sheet.cleaningLog;
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [showEmptyRows, setShowEmptyRows] = useState(false);
+
+  // Blank rows carry no content, so they are hidden unless asked for
+  const visibleRows = useMemo(
+    () => removedRows.filter(r => showEmptyRows || r.rule !== 'empty-row'),
+    [removedRows, showEmptyRows]
+  );
+  const emptyRowCount = removedRows.length - removedRows.filter(r => r.rule !== 'empty-row').length;
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(i => i !== id)));
+  };
+
+  const handleRestore = () => {
+    onRestoreRows?.(selectedIds);
+    setSelectedIds([]);
+  };
+
+  const rowContent = (row: Record<string, unknown>) =>
+    Object.entries(row)
+      .filter(([key, value]) => !isMetadataField(key) && formatValue(value).trim() !== '')
+      .map(([key, value]) => `${key}: ${formatValue(value)}`)
+      .join(' | ');
+
+  return (
+    <div className="space-y-4">
+      {/* Removed rows */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">Baris dihapus</span>
+            <Badge variant="secondary">{removedRows.length}</Badge>
+            {emptyRowCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setShowEmptyRows(!showEmptyRows)}>
+                {showEmptyRows ? 'Sembunyikan' : 'Tampilkan'} {emptyRowCount} baris kosong
+              </Button>
+            )}
+          </div>
+          {onRestoreRows && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              disabled={selectedIds.length === 0}
+              onClick={handleRestore}
+            >
+              <RotateCcw className="w-4 h-4" />
+              Pulihkan {selectedIds.length > 0 ? `${selectedIds.length} baris` : 'baris terpilih'}
+            </Button>
+          )}
+        </div>
+
+        {visibleRows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Tidak ada baris berisi yang dihapus.</p>
+        ) : (
+          <ScrollArea className="h-[320px] rounded-lg border">
+            <div className="min-w-max">
+              <Table>
+                <TableHeader className="sticky top-0 bg-muted/95 z-10">
+                  <TableRow>
+                    {onRestoreRows && <TableHead className="w-10" />}
+                    <TableHead className="w-20">Baris Excel</TableHead>
+                    <TableHead>Aturan</TableHead>
+                    <TableHead>Alasan</TableHead>
+                    <TableHead>Isi asli</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((removed) => (
+                    <TableRow key={removed.id}>
+                      {onRestoreRows && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(removed.id)}
+                            onCheckedChange={(checked) => toggle(removed.id, checked === true)}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell className="font-mono text-xs">{removed.sourceRow ?? '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs">{RULE_LABELS[removed.rule]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">{removed.reason}</TableCell>
+                      <TableCell className="text-xs font-mono max-w-[480px] truncate" title={rowContent(removed.row)}>
+                        {rowContent(removed.row) || <span className="text-muted-foreground">(kosong)</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        )}
+      </div>
+
+      {/* Removed columns */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">Kolom dihapus</span>
+          <Badge variant="secondary">{removedColumns.length}</Badge>
+        </div>
+        {removedColumns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Tidak ada kolom yang dihapus.</p>
+        ) : (
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Kolom</TableHead>
+                  <TableHead>Header</TableHead>
+                  <TableHead>Alasan</TableHead>
+                  <TableHead>Nilai yang terbuang</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {removedColumns.map((column) => (
+                  <TableRow key={column.header}>
+                    <TableCell className="font-mono text-xs">{sheet.columnSources[column.header] ?? '-'}</TableCell>
+                    <TableCell className="font-mono text-xs">{column.header}</TableCell>
+                    <TableCell className="text-xs">{column.reason}</TableCell>
+                    <TableCell className="text-xs font-mono max-w-[400px] truncate">
+                      {column.values.length === 0
+                        ? <span className="text-muted-foreground">(kosong)</span>
+                        : column.values.map(v => `${v.sourceRow ?? '?'}: ${formatValue(v.value)}`).join(' | ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,397 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, Eraser, Plus, Trash2, Eye, Save, RotateCcw, Loader2, AlertCircle } from 'lucide-react';
+import {
+  CLEANING_RULE_SCOPES,
+  compareCleaningResults,
+  deleteCleaningRules,
+  loadCleaningRules,
+  saveCleaningRules,
+  selectCleaningRules,
+  validateCleaningRules,
+  CleaningPreview,
+} from '@/lib/etl/cleaningRules';
+import { extractInWorker } from '@/lib/etl/workerClient';
+import { getActiveProfiles } from '@/lib/etl/extractionProfiles';
+import { isMetadataField } from '@/lib/etl/provenance';
+import { CleaningRuleSet, ETLResult, KeywordMatchMode, KeywordRule, RemovedRow } from '@/lib/etl/types';
+import { toast } from 'sonner';
+
+interface CleaningRulesSettingsProps {
+  // Workbook the rules are previewed against
+  file: File | null;
+  currentResult: ETLResult | null;
+  onRulesSaved?: () => void;
+}
+
+const SCOPE_LABELS: Record<CleaningRuleSet['scope'], string> = {
+  DEFAULT: 'Semua formulir (default)',
+  VD51: 'VD5.1',
+  VD52: 'VD5.2',
+  VD59: 'VD5.9',
+  VD510: 'VD5.10',
+  UNKNOWN: 'Tidak dikenali',
+};
+
+const MODE_LABELS: Record<KeywordMatchMode, string> = {
+  substring: 'Bagian teks',
+  word: 'Kata utuh',
+  regex: 'Regex',
+};
+
+function KeywordRuleList({
+  title,
+  rules,
+  onChange,
+}: {
+  title: string;
+  rules: KeywordRule[];
+  onChange: (rules: KeywordRule[]) => void;
+}) {
+  const update = (idx: number, patch: Partial<KeywordRule>) => {
+    onChange(rules.map((rule, i) => (i === idx ? { ...rule, ...patch } : rule)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{title}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          onClick={() => onChange([...rules, { pattern: '', mode: 'word', enabled: true }])}
+        >
+          <Plus className="w-4 h-4" />
+          Tambah
+        </Button>
+      </div>
+      {rules.map((rule, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <Switch checked={rule.enabled} onCheckedChange={(enabled) => update(idx, { enabled })} />
+          <Input
+            value={rule.pattern}
+            onChange={(e) => update(idx, { pattern: e.target.value })}
+            className="h-8 text-sm font-mono"
+          />
+          <Select value={rule.mode} onValueChange={(mode) => update(idx, { mode: mode as KeywordMatchMode })}>
+            <SelectTrigger className="h-8 w-[140px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MODE_LABELS).map(([mode, label]) => (
+                <SelectItem key={mode} value={mode}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={() => onChange(rules.filter((_, i) => i !== idx))}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PercentInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (ratio: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          value={Math.round(value * 100)}
+          onChange={(e) => onChange(Number(e.target.value) / 100)}
+          className="h-8 text-sm"
+        />
+        <span className="text-sm text-muted-foreground">%</span>
+      </div>
+    </div>
+  );
+}
+
+const describeRow = (removed: RemovedRow) =>
+  Object.entries(removed.row)
+    .filter(([key, value]) => !isMetadataField(key) && value !== null && String(value).trim() !== '')
+    .map(([, value]) => String(value))
+    .join(' | ')
+    .slice(0, 120);
+
+export function CleaningRulesSettings({ file, currentResult, onRulesSaved }: CleaningRulesSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savedSets, setSavedSets] = useState<CleaningRuleSet[]>([]);
+  const [scope, setScope] = useState<CleaningRuleSet['scope']>('DEFAULT');
+  const [draft, setDraft] = useState<CleaningRuleSet>(() => selectCleaningRules([], 'UNKNOWN'));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<CleaningPreview[] | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const editScope = (sets: CleaningRuleSet[], nextScope: CleaningRuleSet['scope']) => {
+    // A scope without its own set starts from the rules it currently inherits
+    const base = nextScope === 'DEFAULT'
+      ? sets.find(s => s.scope === 'DEFAULT') ?? selectCleaningRules([], 'UNKNOWN')
+      : selectCleaningRules(sets, nextScope);
+    setScope(nextScope);
+    setDraft({ ...base, scope: nextScope });
+    setErrors([]);
+    setPreview(null);
+  };
+
+  const reload = async (nextScope = scope) => {
+    try {
+      const sets = await loadCleaningRules();
+      setSavedSets(sets);
+      editScope(sets, nextScope);
+    } catch (error) {
+      console.error('Failed to load cleaning rules:', error);
+      toast.error('Gagal memuat aturan pembersihan');
+    }
+  };
+
+  useEffect(() => {
+    reload('DEFAULT');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const update = (patch: Partial<CleaningRuleSet>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setPreview(null);
+  };
+
+  const validate = (): CleaningRuleSet | null => {
+    const { ruleSet, errors: validationErrors } = validateCleaningRules(draft);
+    setErrors(validationErrors);
+    return ruleSet;
+  };
+
+  const handlePreview = async () => {
+    const ruleSet = validate();
+    if (!ruleSet || !file || !currentResult) return;
+
+    setIsPreviewing(true);
+    try {
+      const proposed = await extractInWorker(file, {
+        profiles: getActiveProfiles(),
+        cleaningRules: [...savedSets.filter(s => s.scope !== ruleSet.scope), ruleSet],
+      });
+      setPreview(compareCleaningResults(currentResult, proposed));
+    } catch (error) {
+      toast.error(`Pratinjau gagal: ${(error as Error).message}`);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const ruleSet = validate();
+    if (!ruleSet) return;
+
+    try {
+      await saveCleaningRules(ruleSet);
+      await reload(ruleSet.scope);
+      toast.success(`Aturan ${SCOPE_LABELS[ruleSet.scope]} disimpan`);
+      onRulesSaved?.();
+    } catch (error) {
+      setErrors([(error as Error).message]);
+    }
+  };
+
+  const handleReset = async () => {
+    await deleteCleaningRules(scope);
+    await reload(scope);
+    toast.success('Aturan dikembalikan ke bawaan');
+    onRulesSaved?.();
+  };
+
+  const hasOwnSet = savedSets.some(s => s.scope === scope);
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <div className="flex items-center justify-between cursor-pointer">
+              <div className="flex items-center gap-2">
+                <Eraser className="w-5 h-5 text-primary" />
+                <CardTitle className="text-lg">Aturan Pembersihan</CardTitle>
+                <Badge variant="secondary" className="text-xs">
+                  {savedSets.length > 0 ? `${savedSets.length} kustom` : 'Bawaan'}
+                </Badge>
+              </div>
+              <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+            </div>
+          </CollapsibleTrigger>
+          <CardDescription>
+            Kata kunci baris sampah, batas keterisian baris/kolom dan perlindungan baris berisi angka,
+            per jenis formulir. Disimpan di browser ini.
+          </CardDescription>
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Label className="text-sm">Berlaku untuk</Label>
+              <Select value={scope} onValueChange={(value) => editScope(savedSets, value as CleaningRuleSet['scope'])}>
+                <SelectTrigger className="h-8 w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLEANING_RULE_SCOPES.map(s => (
+                    <SelectItem key={s} value={s}>{SCOPE_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Badge variant={hasOwnSet ? 'default' : 'outline'} className="text-xs">
+                {hasOwnSet ? 'Aturan sendiri' : 'Mewarisi aturan default'}
+              </Badge>
+            </div>
+
+            <div className="flex items-center gap-2 p-3 rounded-lg border">
+              <Switch
+                checked={draft.protectNumericRows}
+                onCheckedChange={(protectNumericRows) => update({ protectNumericRows })}
+              />
+              <span className="text-sm">Jangan pernah hapus baris yang berisi angka bukan nol</span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <PercentInput
+                label="Baris terisi minimal"
+                value={draft.minRowFillRatio}
+                onChange={(minRowFillRatio) => update({ minRowFillRatio })}
+              />
+              <div className="space-y-1">
+                <Label className="text-xs">...bila kolom lebih dari</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={draft.minRowFillColumns}
+                  onChange={(e) => update({ minRowFillColumns: Number(e.target.value) })}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <PercentInput
+                label="Kolom terisi minimal"
+                value={draft.minColumnFillRatio}
+                onChange={(minColumnFillRatio) => update({ minColumnFillRatio })}
+              />
+              <PercentInput
+                label="Kolom tanpa nama terisi minimal"
+                value={draft.minUnnamedColumnFillRatio}
+                onChange={(minUnnamedColumnFillRatio) => update({ minUnnamedColumnFillRatio })}
+              />
+            </div>
+
+            <KeywordRuleList
+              title="Kata kunci baris sampah"
+              rules={draft.junkKeywords}
+              onChange={(junkKeywords) => update({ junkKeywords })}
+            />
+            <KeywordRuleList
+              title="Kata kunci kop laporan"
+              rules={draft.headerKeywords}
+              onChange={(headerKeywords) => update({ headerKeywords })}
+            />
+
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="w-4 h-4" />
+                <AlertTitle>Aturan tidak valid</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc list-inside space-y-1 mt-1">
+                    {errors.map((error, idx) => (
+                      <li key={idx} className="text-xs font-mono">{error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {preview && (
+              <Alert>
+                <Eye className="w-4 h-4" />
+                <AlertTitle>Pratinjau terhadap {file?.name}</AlertTitle>
+                <AlertDescription>
+                  {preview.length === 0 ? (
+                    <p className="text-sm">Tidak ada perubahan dibanding hasil saat ini.</p>
+                  ) : (
+                    <div className="space-y-3 mt-2">
+                      {preview.map(sheet => (
+                        <div key={sheet.sheetName} className="space-y-1">
+                          <p className="text-sm font-medium">
+                            {sheet.sheetName}: {sheet.newlyRemoved.length} baris akan dihapus,{' '}
+                            {sheet.newlyKept.length} baris dipertahankan
+                            {sheet.newlyRemovedColumns.length > 0 && `, kolom dihapus: ${sheet.newlyRemovedColumns.join(', ')}`}
+                            {sheet.newlyKeptColumns.length > 0 && `, kolom dipertahankan: ${sheet.newlyKeptColumns.join(', ')}`}
+                          </p>
+                          <ul className="text-xs font-mono space-y-0.5 max-h-40 overflow-auto">
+                            {sheet.newlyRemoved.map(r => (
+                              <li key={`r${r.id}`} className="text-red-600">
+                                − {r.sourceRow ?? '?'}: {describeRow(r)} ({r.reason})
+                              </li>
+                            ))}
+                            {sheet.newlyKept.map(r => (
+                              <li key={`k${r.id}`} className="text-green-600">
+                                + {r.sourceRow ?? '?'}: {describeRow(r)}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex gap-2 flex-wrap">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={handlePreview}
+                disabled={!file || !currentResult || isPreviewing}
+                title={!file ? 'Unggah workbook untuk pratinjau' : undefined}
+              >
+                {isPreviewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                Pratinjau
+              </Button>
+              <Button className="gap-2" onClick={handleSave}>
+                <Save className="w-4 h-4" />
+                Terapkan & Simpan
+              </Button>
+              {hasOwnSet && (
+                <Button variant="ghost" className="gap-2" onClick={handleReset}>
+                  <RotateCcw className="w-4 h-4" />
+                  Kembalikan ke bawaan
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, GitMerge, X } from 'lucide-react';
+import { CodeMatch, CodeMatchDecision, CodeMatchMethod, ProcessedSheet } from '@/lib/etl/types';
+
+interface CodeMatchReviewProps {
+  sheet: ProcessedSheet;
+  onDecide: (match: CodeMatch, decision: CodeMatchDecision) => void;
+  disabled?: boolean;
+}
+
+const METHOD_LABELS: Record<CodeMatchMethod, string> = {
+  suffix: 'Akhiran kode',
+  derivative: 'Waran / HMETD',
+  series: 'Seri obligasi',
+  prefix: 'Kode + nama',
+  name: 'Kemiripan nama',
+};
+
+/**
+ * Stock codes of a sheet that were traced to an issuer without an exact master match;
+ * the reviewer accepts or rejects each, and the choice applies to later workbooks too
+ */
+export function CodeMatchReview({ sheet, onDecide, disabled }: CodeMatchReviewProps) {
+  const matches = sheet.metadata.enrichmentStats?.nonExactMatches ?? [];
+  if (matches.length === 0) return null;
+
+  const pending = matches.filter(m => !m.decision).length;
+
+  return (
+    <Alert>
+      <GitMerge className="w-4 h-4" />
+      <AlertTitle>
+        Pencocokan kode tidak persis "{sheet.sheetName}"
+        {pending > 0 && <Badge variant="outline" className="ml-2">{pending} belum ditinjau</Badge>}
+      </AlertTitle>
+      <AlertDescription>
+        <p className="text-sm mb-2">
+          Kode berikut tidak ada di master data dan dicocokkan ke emiten lewat aturan atau kemiripan nama.
+          Tolak pencocokan yang salah agar kode tersebut dihitung sebagai Non-Grup.
+        </p>
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kode di laporan</TableHead>
+                <TableHead>Emiten master</TableHead>
+                <TableHead>Metode</TableHead>
+                <TableHead className="w-16">Skor</TableHead>
+                <TableHead className="w-16">Baris</TableHead>
+                <TableHead className="w-40" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matches.map(match => (
+                <TableRow key={`${match.inputCode}|${match.matchedKode}`}>
+                  <TableCell className="font-mono text-xs">{match.inputCode}</TableCell>
+                  <TableCell className="text-xs">
+                    <span className="font-mono">{match.matchedKode}</span> {match.namaEmiten}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className="text-xs">{METHOD_LABELS[match.method]}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{match.score.toFixed(2)}</TableCell>
+                  <TableCell className="font-mono text-xs">{match.occurrences}</TableCell>
+                  <TableCell>
+                    {match.decision === 'accepted' ? (
+                      <Badge variant="outline" className="gap-1"><Check className="w-3 h-3" />Diterima</Badge>
+                    ) : (
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="outline" disabled={disabled} onClick={() => onDecide(match, 'accepted')}>
+                          Terima
+                        </Button>
+                        <Button size="sm" variant="ghost" disabled={disabled} onClick={() => onDecide(match, 'rejected')}>
+                          <X className="w-4 h-4" />
+                          Tolak
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
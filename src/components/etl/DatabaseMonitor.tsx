@@ -20,12 +20,14 @@ import {
   clearTable, 
   getTableStats
 } from '@/lib/etl/database';
-import { DatabaseRecord } from '@/lib/etl/types';
+import { DatabaseRecord, ColumnSchema } from '@/lib/etl/types';
 import { toast } from 'sonner';
 
 interface TableMeta {
   tableName: string;
   headers: string[];
+  columnSchema?: Record<string, ColumnSchema>;
+  originalHeaders?: Record<string, string[]>;
   recordCount: number;
   lastUpdated: string;
   createdAt: string;
@@ -122,9 +124,15 @@ export function DatabaseMonitor() {
     if (typeof value === 'number') {
       return value.toLocaleString('id-ID', { maximumFractionDigits: 2 });
     }
+    if (typeof value === 'object') return JSON.stringify(value);
     return String(value);
   };
 
+  // Records of one table may carry different optional fields, so use every key seen
+  const tableColumns = Array.from(
+    new Set(tableData.slice(0, 50).flatMap((row) => Object.keys(row)))
+  ).filter((k) => k !== '_id');
+
   if (tables.length === 0 && !isLoading) {
     return (
       <Card>
@@ -209,28 +217,35 @@ export function DatabaseMonitor() {
                     <Table>
                       <TableHeader className="sticky top-0 bg-muted/95 backdrop-blur-sm">
                         <TableRow>
-                          {Object.keys(tableData[0])
-                            .filter((k) => k !== '_id')
-                            .map((key) => (
-                              <TableHead key={key} className="whitespace-nowrap min-w-[100px]">
+                          {tableColumns.map((key) => {
+                            const schema = table.columnSchema?.[key];
+                            const original = table.originalHeaders?.[key];
+                            return (
+                              <TableHead
+                                key={key}
+                                className="whitespace-nowrap min-w-[100px]"
+                                title={[
+                                  original?.length && `Header asli: ${original.join(' > ')}`,
+                                  schema && `Tipe: ${schema.type} (${Math.round(schema.confidence * 100)}%)`,
+                                ].filter(Boolean).join('\n') || undefined}
+                              >
                                 {key}
                               </TableHead>
-                            ))}
+                            );
+                          })}
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {tableData.slice(0, 50).map((row, idx) => (
                           <TableRow key={idx}>
-                            {Object.entries(row)
-                              .filter(([k]) => k !== '_id')
-                              .map(([key, value], colIdx) => (
-                                <TableCell
-                                  key={colIdx}
-                                  className="whitespace-nowrap max-w-[200px] truncate"
-                                >
-                                  {formatCellValue(value)}
-                                </TableCell>
-                              ))}
+                            {tableColumns.map((key, colIdx) => (
+                              <TableCell
+                                key={colIdx}
+                                className="whitespace-nowrap max-w-[200px] truncate"
+                              >
+                                {formatCellValue(row[key])}
+                              </TableCell>
+                            ))}
                           </TableRow>
                         ))}
                       </TableBody>
@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertTriangle, Download, Landmark, Plus, Search, Trash2, Upload } from 'lucide-react';
+import {
+  lookupEmitenAnyPeriod,
+  readDebtIssuerMappings,
+  downloadDebtIssuerMappings,
+  loadDebtIssuerMappings,
+  saveDebtIssuerMappings,
+} from '@/lib/etl/masterData';
+import { DebtIssuerMapping } from '@/lib/etl/types';
+import { toast } from 'sonner';
+
+interface DebtIssuerMappingManagerProps {
+  // Changes whenever another master version is loaded, so issuer names are looked up again
+  masterDataVersion: number;
+  // The mapping was changed and stored
+  onSaved?: () => void;
+}
+
+const MAX_LISTED_ISSUES = 8;
+
+const emptyMapping = (): DebtIssuerMapping => ({ kodeEfek: '', kodeEmiten: '', namaInstrumen: '', jenis: '' });
+
+/**
+ * Reference table of bond, sukuk and MTN codes (or series prefixes) and their issuer,
+ * so debt instruments are grouped with the issuer's stock
+ */
+export function DebtIssuerMappingManager({ masterDataVersion, onSaved }: DebtIssuerMappingManagerProps) {
+  const [mappings, setMappings] = useState<DebtIssuerMapping[]>([]);
+  const [draft, setDraft] = useState<DebtIssuerMapping>(emptyMapping);
+  const [search, setSearch] = useState('');
+  const [importIssues, setImportIssues] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadDebtIssuerMappings()
+      .then(setMappings)
+      .catch(() => setMappings([]));
+  }, []);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return mappings;
+    return mappings.filter(m =>
+      [m.kodeEfek, m.kodeEmiten, m.namaInstrumen, m.jenis].some(value => value.toLowerCase().includes(query))
+    );
+  }, [mappings, search]);
+
+  const persist = async (next: DebtIssuerMapping[], message: string) => {
+    try {
+      await saveDebtIssuerMappings(next);
+      setMappings(next);
+      toast.success(message);
+      onSaved?.();
+    } catch (error) {
+      toast.error(`Gagal menyimpan pemetaan obligasi: ${(error as Error).message}`);
+    }
+  };
+
+  const handleAdd = () => {
+    const mapping = {
+      ...draft,
+      kodeEfek: draft.kodeEfek.trim().toUpperCase(),
+      kodeEmiten: draft.kodeEmiten.trim().toUpperCase(),
+    };
+    if (!mapping.kodeEfek || !mapping.kodeEmiten) return;
+    if (mappings.some(m => m.kodeEfek === mapping.kodeEfek)) {
+      toast.error(`${mapping.kodeEfek} sudah dipetakan`);
+      return;
+    }
+    persist([mapping, ...mappings], `${mapping.kodeEfek} dipetakan ke ${mapping.kodeEmiten}`);
+    setDraft(emptyMapping());
+  };
+
+  const handleDelete = (kodeEfek: string) => {
+    persist(mappings.filter(m => m.kodeEfek !== kodeEfek), `Pemetaan ${kodeEfek} dihapus`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { mappings: imported, issues } = readDebtIssuerMappings(file.name, await file.arrayBuffer());
+      setImportIssues(issues);
+      await persist(imported, `${imported.length} pemetaan obligasi/sukuk diimpor dari ${file.name}`);
+    } catch (error) {
+      toast.error(`Gagal membaca file: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="w-5 h-5" />
+              Emiten Obligasi & Sukuk
+            </CardTitle>
+            <CardDescription>
+              Kode atau seri obligasi/sukuk dipetakan ke kode emiten agar nilainya masuk ke grup penerbit.
+              Seri seperti "BBRI01" berlaku untuk semua kode yang diawali seri tersebut.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4" />
+              Impor
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={mappings.length === 0}
+              onClick={() => downloadDebtIssuerMappings(mappings, 'xlsx')}
+            >
+              <Download className="w-4 h-4" />
+              XLSX
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={mappings.length === 0}
+              onClick={() => downloadDebtIssuerMappings(mappings, 'csv')}
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {importIssues.length > 0 && (
+          <Alert>
+            <AlertTriangle className="w-4 h-4" />
+            <AlertTitle>{importIssues.length} catatan impor</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc list-inside text-sm mt-1">
+                {importIssues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                  <li key={idx}>{issue}</li>
+                ))}
+                {importIssues.length > MAX_LISTED_ISSUES && (
+                  <li>... dan {importIssues.length - MAX_LISTED_ISSUES} catatan lainnya</li>
+                )}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Input
+            value={draft.kodeEfek}
+            onChange={(e) => setDraft({ ...draft, kodeEfek: e.target.value })}
+            placeholder="Kode / seri efek"
+            className="h-9 w-40"
+          />
+          <Input
+            value={draft.kodeEmiten}
+            onChange={(e) => setDraft({ ...draft, kodeEmiten: e.target.value })}
+            placeholder="Kode emiten"
+            className="h-9 w-32"
+          />
+          <Input
+            value={draft.namaInstrumen}
+            onChange={(e) => setDraft({ ...draft, namaInstrumen: e.target.value })}
+            placeholder="Nama instrumen"
+            className="h-9 w-56"
+          />
+          <Input
+            value={draft.jenis}
+            onChange={(e) => setDraft({ ...draft, jenis: e.target.value })}
+            placeholder="Jenis"
+            className="h-9 w-28"
+          />
+          <Button
+            variant="outline"
+            className="gap-2"
+            disabled={!draft.kodeEfek.trim() || !draft.kodeEmiten.trim()}
+            onClick={handleAdd}
+          >
+            <Plus className="w-4 h-4" />
+            Tambah
+          </Button>
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cari kode atau nama..."
+              className="pl-9"
+            />
+          </div>
+        </div>
+
+        {mappings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Belum ada pemetaan. Impor file dengan kolom Kode Efek dan Kode Emiten, atau tambahkan satu per satu.
+          </p>
+        ) : (
+          <ScrollArea className="h-[320px] rounded-lg border">
+            <Table>
+              <TableHeader className="sticky top-0 bg-muted/95 z-10">
+                <TableRow>
+                  <TableHead>Kode / Seri Efek</TableHead>
+                  <TableHead>Nama Instrumen</TableHead>
+                  <TableHead>Jenis</TableHead>
+                  <TableHead>Emiten</TableHead>
+                  <TableHead>Afiliasi Utama</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(mapping => {
+                  const issuer = lookupEmitenAnyPeriod(mapping.kodeEmiten);
+                  return (
+                    <TableRow key={mapping.kodeEfek}>
+                      <TableCell className="font-mono text-xs">{mapping.kodeEfek}</TableCell>
+                      <TableCell className="text-xs">{mapping.namaInstrumen || '-'}</TableCell>
+                      <TableCell className="text-xs">{mapping.jenis || '-'}</TableCell>
+                      <TableCell className="text-xs">
+                        <span className="font-mono">{mapping.kodeEmiten}</span>{' '}
+                        {issuer ? (
+                          issuer.namaEmiten
+                        ) : (
+                          <Badge variant="destructive" className="text-xs">Tidak ada di master</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">{issuer?.afiliasiUtama || '-'}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleDelete(mapping.kodeEfek)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
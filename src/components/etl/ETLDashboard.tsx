@@ -1,9 +1,11 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Upload, 
   Database, 
@@ -15,69 +17,242 @@ import {
   Info,
   Calculator,
   TrendingUp,
-  Download
+  Download,
+  XCircle,
+  FunctionSquare,
+  Users,
+  SearchX
 } from 'lucide-react';
 import { FileUpload } from './FileUpload';
 import { ExcelStylePreview } from './ExcelStylePreview';
 import { DatabaseMonitor } from './DatabaseMonitor';
 import { MasterDataUpload } from './MasterDataUpload';
+import { MasterDataEditor } from './MasterDataEditor';
 import { FormulaEditor } from './FormulaEditor';
 import { MKBDDashboard } from './MKBDDashboard';
-import { extractFromExcel, ETLResult, calculateMKBD, downloadFromTemplate } from '@/lib/etl';
-import { MKBDCalculationResult } from '@/lib/etl/types';
-import { createTableIfNotExists, appendRecords } from '@/lib/etl/database';
-import { DatabaseRecord } from '@/lib/etl/types';
+import { BatchQueue } from './BatchQueue';
+import { ExtractionProfileManager } from './ExtractionProfileManager';
+import { CleaningRulesSettings } from './CleaningRulesSettings';
+import { HeaderRowPicker } from './HeaderRowPicker';
+import { CodeMatchReview } from './CodeMatchReview';
+import { UnmatchedCodeWorkbench } from './UnmatchedCodeWorkbench';
+import { GroupHierarchyView } from './GroupHierarchyView';
+import { DebtIssuerMappingManager } from './DebtIssuerMappingManager';
+import {
+  createBatchItems,
+  runBatch,
+  summarizeBatch,
+  getActiveProfiles,
+  downloadFromTemplate,
+  downloadExcel,
+  restoreRemovedRows,
+  reenrichSheet,
+  calculateMKBD,
+  applyMKBDCorrections,
+  loadCleaningRules,
+  loadHeaderOverrides,
+  loadCodeMatchReviews,
+  saveCodeMatchReview,
+  loadNonGroupCodes,
+  loadGroupLevel,
+  loadDebtIssuerMappings,
+  saveGroupLevel,
+  saveHeaderOverride,
+  headerRowSignature,
+  needsHeaderConfirmation,
+} from '@/lib/etl';
+import {
+  BatchItem,
+  CodeMatch,
+  CodeMatchDecision,
+  ETLProgress,
+  ETLStage,
+  GroupLevel,
+  HeaderRowCandidate,
+  ProcessedSheet,
+} from '@/lib/etl/types';
+import type { ExportHeaderMode } from '@/lib/etl';
+import { saveSheetsToDatabase } from '@/lib/etl/database';
 import { toast } from 'sonner';
 
+const STAGE_LABELS: Record<ETLStage, string> = {
+  read: 'Membaca workbook',
+  sanitize: 'Membaca & merapikan header',
+  clean: 'Membersihkan data',
+  enrich: 'Enrichment master data',
+  correct: 'Koreksi perhitungan MKBD',
+  done: 'Selesai',
+};
+
 export function ETLDashboard() {
   const [activeTab, setActiveTab] = useState('upload');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
-  const [etlResult, setEtlResult] = useState<ETLResult | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const [selectedSheetIndex, setSelectedSheetIndex] = useState(0);
-  const [fileName, setFileName] = useState<string>('');
   const [masterDataVersion, setMasterDataVersion] = useState(0);
-  const [mkbdResult, setMkbdResult] = useState<MKBDCalculationResult | null>(null);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<ETLProgress | null>(null);
+  const [exportHeaderMode, setExportHeaderMode] = useState<ExportHeaderMode>('original');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const activeItem = batchItems.find(item => item.id === activeItemId) ?? null;
+  const etlResult = activeItem?.etlResult ?? null;
+  const mkbdResult = activeItem?.mkbdResult ?? null;
+  const fileName = activeItem?.file.name ?? '';
+  const processingIndex = batchItems.findIndex(item => item.status === 'processing');
+  const processedItems = useMemo(
+    () => batchItems.filter(item => item.status === 'processed' && item.etlResult),
+    [batchItems]
+  );
+  const processedSheets = useMemo(
+    () => processedItems.flatMap(item => item.etlResult!.sheets),
+    [processedItems]
+  );
+
+  // Saved choices that decide how stock codes resolve to groups
+  const loadEnrichmentSettings = async () => ({
+    codeMatchReviews: await loadCodeMatchReviews().catch(() => []),
+    nonGroupCodes: await loadNonGroupCodes()
+      .then(list => list.map(entry => entry.kode))
+      .catch(() => []),
+    debtIssuerMappings: await loadDebtIssuerMappings().catch(() => []),
+  });
+
+  const handleFilesSelect = async (files: File[]) => {
+    const items = createBatchItems(files);
+    if (items.length === 0) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
-  const handleFileSelect = async (file: File) => {
     setIsProcessing(true);
-    setEtlResult(null);
-    setMkbdResult(null);
-    setFileName(file.name);
-    setUploadedFile(file);
+    setProgress(null);
+    setBatchItems(items);
+    setActiveItemId(null);
+    setSelectedSheetIndex(0);
+
+    // Saved settings are optional; without them the built-in rules and header detection apply
+    const cleaningRules = await loadCleaningRules().catch(() => []);
+    const headerOverrides = await loadHeaderOverrides().catch(() => []);
+    const { codeMatchReviews, nonGroupCodes, debtIssuerMappings } = await loadEnrichmentSettings();
+    const groupLevel = await loadGroupLevel().catch((): GroupLevel => 'afiliasiUtama');
+
+    const handleItemUpdate = (item: BatchItem) => {
+      setBatchItems(prev => prev.map(i => (i.id === item.id ? item : i)));
+      // Show the first finished workbook while the rest of the queue runs
+      if (item.etlResult) {
+        setActiveItemId(current => current ?? item.id);
+      }
+    };
 
     try {
-      const result = await extractFromExcel(file);
-      setEtlResult(result);
-      setSelectedSheetIndex(0);
-      
-      // Calculate MKBD automatically
-      if (result.success && result.sheets.length > 0) {
-        const mkbd = calculateMKBD(result.sheets);
-        setMkbdResult(mkbd);
-        toast.success(`${result.sheets.length} sheet diproses, MKBD dihitung otomatis`);
-      } else if (!result.success) {
-        toast.error('Gagal memproses file');
+      const results = await runBatch(items, {
+        signal: abortController.signal,
+        profiles: getActiveProfiles(),
+        cleaningRules,
+        headerOverrides,
+        codeMatchReviews,
+        nonGroupCodes,
+        groupLevel,
+        debtIssuerMappings,
+        onItemUpdate: handleItemUpdate,
+        onProgress: (_item, p) => setProgress(p),
+      });
+      const summary = summarizeBatch(results);
+
+      if (summary.cancelled > 0) {
+        toast.info('Proses dibatalkan');
+      } else if (results.length === 1) {
+        const [result] = results;
+        if (result.status === 'processed') {
+          toast.success(`${result.etlResult!.sheets.length} sheet diproses, MKBD dihitung otomatis`);
+        } else {
+          toast.error('Gagal memproses file');
+        }
+      } else if (summary.failed > 0) {
+        toast.warning(`${summary.processed} dari ${summary.total} file diproses, ${summary.failed} gagal`);
+      } else {
+        toast.success(`${summary.processed} file diproses, MKBD dihitung otomatis`);
       }
-    } catch (error) {
-      console.error('ETL Error:', error);
-      toast.error('Terjadi kesalahan saat memproses file');
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  // Re-run the loaded workbooks so saved settings take effect
+  const reprocessLoadedFiles = () => {
+    if (batchItems.length > 0 && !isProcessing) {
+      handleFilesSelect(batchItems.map(item => item.file));
+    }
+  };
+
+  // Another master version is active: re-enrich the loaded workbooks with it
+  const handleMasterDataChanged = () => {
+    setMasterDataVersion(v => v + 1);
+    reprocessLoadedFiles();
+  };
+
+  const handleSelectHeaderRow = async (sheet: ProcessedSheet, candidate: HeaderRowCandidate) => {
+    if (!sheet.headerDetection) return;
+    try {
+      await saveHeaderOverride({
+        layoutKey: sheet.headerDetection.layoutKey,
+        headerSignature: headerRowSignature(candidate.cells),
+      });
+      toast.success(`Baris ${candidate.row} disimpan sebagai header "${sheet.sheetName}"`);
+      reprocessLoadedFiles();
+    } catch (error) {
+      toast.error(`Gagal menyimpan pilihan header: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCodeMatchDecision = async (match: CodeMatch, decision: CodeMatchDecision) => {
+    try {
+      await saveCodeMatchReview({ inputCode: match.inputCode, matchedKode: match.matchedKode, decision });
+      toast.success(
+        decision === 'accepted'
+          ? `${match.inputCode} dicocokkan ke ${match.matchedKode}`
+          : `${match.inputCode} tidak lagi dicocokkan ke ${match.matchedKode}`
+      );
+      reprocessLoadedFiles();
+    } catch (error) {
+      toast.error(`Gagal menyimpan tinjauan kode: ${(error as Error).message}`);
+    }
+  };
+
+  const handleGroupLevelChange = async (level: GroupLevel) => {
+    try {
+      await saveGroupLevel(level);
+      reprocessLoadedFiles();
+    } catch (error) {
+      toast.error(`Gagal menyimpan level agregasi: ${(error as Error).message}`);
     }
   };
 
+  const handleCancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSelectItem = (id: string) => {
+    setActiveItemId(id);
+    setSelectedSheetIndex(0);
+  };
+
   const handleExportExcel = async () => {
-    if (!etlResult?.sheets.length || !uploadedFile) {
+    if (!etlResult?.sheets.length || !activeItem) {
       toast.error('Tidak ada data untuk di-export');
       return;
     }
 
     setIsExporting(true);
     try {
-      await downloadFromTemplate(uploadedFile, etlResult.sheets, mkbdResult);
+      await downloadFromTemplate(activeItem.file, etlResult.sheets, mkbdResult, {
+        reportHeader: etlResult.reportHeader,
+      });
       toast.success('File Excel berhasil di-export dengan angka terkoreksi');
     } catch (error) {
       console.error('Export Error:', error);
@@ -87,26 +262,78 @@ export function ETLDashboard() {
     }
   };
 
+  // Cleaned data as plain tables, one worksheet per sheet
+  const handleExportFlat = () => {
+    if (!etlResult?.sheets.length) {
+      toast.error('Tidak ada data untuk di-export');
+      return;
+    }
+
+    try {
+      downloadExcel(etlResult.sheets, mkbdResult, {
+        reportHeader: etlResult.reportHeader,
+        headerMode: exportHeaderMode,
+      });
+      toast.success('Data bersih berhasil di-export');
+    } catch (error) {
+      console.error('Export Error:', error);
+      toast.error('Gagal mengexport data bersih');
+    }
+  };
+
+  const handleExportAll = async () => {
+    if (processedItems.length === 0) {
+      toast.error('Tidak ada data untuk di-export');
+      return;
+    }
+
+    setIsExporting(true);
+    let exportedCount = 0;
+    try {
+      for (const item of processedItems) {
+        await downloadFromTemplate(item.file, item.etlResult!.sheets, item.mkbdResult, {
+          reportHeader: item.etlResult!.reportHeader,
+        });
+        exportedCount++;
+      }
+      toast.success(`${exportedCount} file Excel berhasil di-export dengan angka terkoreksi`);
+    } catch (error) {
+      console.error('Export Error:', error);
+      toast.error(`Gagal mengexport file Excel (${exportedCount} dari ${processedItems.length} berhasil)`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Put rows removed by cleaning back into the active sheet, re-enrich it so the group
+  // totals include them, and recalculate MKBD
+  const handleRestoreRows = async (ids: number[]) => {
+    if (!activeItem?.etlResult || ids.length === 0) return;
+
+    const enrichmentSettings = await loadEnrichmentSettings();
+    const restored = activeItem.etlResult.sheets.map((sheet, idx) =>
+      idx === selectedSheetIndex ? reenrichSheet(restoreRemovedRows(sheet, ids), enrichmentSettings) : sheet
+    );
+    // The VD510 and VD59 values written at extraction depend on the restored rows as well
+    const { sheets, vd59Updates } = applyMKBDCorrections(restored);
+    const updated: BatchItem = {
+      ...activeItem,
+      etlResult: { ...activeItem.etlResult, sheets, vd59Updates },
+      mkbdResult: calculateMKBD(sheets),
+    };
+    setBatchItems(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    toast.success(`${ids.length} baris dipulihkan`);
+  };
+
   const handleSaveToDatabase = async () => {
     if (!etlResult?.sheets.length) return;
 
     setIsSaving(true);
-    let savedCount = 0;
-    let totalRecords = 0;
-
     try {
-      for (const sheet of etlResult.sheets) {
-        // Create table if not exists
-        await createTableIfNotExists(sheet.tableName, sheet.headers);
-        
-        // Append records
-        const count = await appendRecords(sheet.tableName, sheet.data as DatabaseRecord[]);
-        savedCount++;
-        totalRecords += count;
-      }
+      const { tableCount, recordCount } = await saveSheetsToDatabase(etlResult.sheets, etlResult.reportHeader);
 
       toast.success(
-        `Berhasil menyimpan ${totalRecords.toLocaleString()} record ke ${savedCount} tabel`
+        `Berhasil menyimpan ${recordCount.toLocaleString()} record ke ${tableCount} tabel`
       );
       
       // Switch to monitor tab
@@ -119,6 +346,31 @@ export function ETLDashboard() {
     }
   };
 
+  const handleSaveAll = async () => {
+    if (processedItems.length === 0) return;
+
+    setIsSaving(true);
+    let savedFiles = 0;
+    let totalRecords = 0;
+    try {
+      for (const item of processedItems) {
+        const { recordCount } = await saveSheetsToDatabase(item.etlResult!.sheets, item.etlResult!.reportHeader);
+        totalRecords += recordCount;
+        savedFiles++;
+      }
+
+      toast.success(
+        `Berhasil menyimpan ${totalRecords.toLocaleString()} record dari ${savedFiles} file`
+      );
+      setActiveTab('monitor');
+    } catch (error) {
+      console.error('Save Error:', error);
+      toast.error(`Gagal menyimpan data ke database (${savedFiles} dari ${processedItems.length} file tersimpan)`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const currentSheet = etlResult?.sheets[selectedSheetIndex];
 
   return (
@@ -152,11 +404,19 @@ export function ETLDashboard() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsList className="grid w-full max-w-3xl grid-cols-4">
             <TabsTrigger value="upload" className="flex items-center gap-2">
               <Upload className="w-4 h-4" />
               Upload & Preview
             </TabsTrigger>
+            <TabsTrigger value="master" className="flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Master Data
+            </TabsTrigger>
+            <TabsTrigger value="unmatched" className="flex items-center gap-2">
+              <SearchX className="w-4 h-4" />
+              Kode Tidak Cocok
+            </TabsTrigger>
             <TabsTrigger value="monitor" className="flex items-center gap-2">
               <Database className="w-4 h-4" />
               Database Monitor
@@ -167,7 +427,16 @@ export function ETLDashboard() {
           <TabsContent value="upload" className="space-y-6">
             {/* Master Data Section */}
             <MasterDataUpload 
-              onMasterDataLoaded={() => setMasterDataVersion(v => v + 1)} 
+              masterDataVersion={masterDataVersion}
+              sheets={etlResult?.sheets}
+              onMasterDataLoaded={handleMasterDataChanged} 
+            />
+
+            <ExtractionProfileManager />
+            <CleaningRulesSettings
+              file={activeItem?.file ?? null}
+              currentResult={etlResult}
+              onRulesSaved={reprocessLoadedFiles}
             />
 
             <Card>
@@ -186,10 +455,91 @@ export function ETLDashboard() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <FileUpload onFileSelect={handleFileSelect} isLoading={isProcessing} />
+                <FileUpload multiple onFilesSelect={handleFilesSelect} isLoading={isProcessing} />
+
+                {/* Pipeline Progress */}
+                {isProcessing && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-muted-foreground">
+                        {batchItems.length > 1 && processingIndex !== -1 && (
+                          <>File {processingIndex + 1}/{batchItems.length}{' • '}</>
+                        )}
+                        {progress ? STAGE_LABELS[progress.stage] : 'Menyiapkan proses...'}
+                        {progress?.sheetName && (
+                          <>
+                            {' • '}
+                            <span className="font-mono">{progress.sheetName}</span>
+                            {' '}({progress.sheetIndex + 1}/{progress.sheetCount})
+                          </>
+                        )}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1 text-destructive hover:text-destructive"
+                        onClick={handleCancelProcessing}
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Batalkan
+                      </Button>
+                    </div>
+                    <Progress value={progress?.percent ?? 0} className="h-2" />
+                  </div>
+                )}
               </CardContent>
             </Card>
 
+            {/* Batch Queue */}
+            {batchItems.length > 1 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between flex-wrap gap-4">
+                    <div>
+                      <CardTitle>Antrean File</CardTitle>
+                      <CardDescription>
+                        Klik baris untuk melihat detail tiap file
+                      </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={handleExportAll}
+                        disabled={isProcessing || isExporting || processedItems.length === 0}
+                        variant="outline"
+                        className="gap-2"
+                      >
+                        {isExporting ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Download className="w-4 h-4" />
+                        )}
+                        Export Semua ({processedItems.length})
+                      </Button>
+                      <Button
+                        onClick={handleSaveAll}
+                        disabled={isProcessing || isSaving || processedItems.length === 0}
+                        className="gap-2"
+                      >
+                        {isSaving ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Save className="w-4 h-4" />
+                        )}
+                        Simpan Semua ({processedItems.length})
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <BatchQueue
+                    items={batchItems}
+                    activeItemId={activeItemId}
+                    onSelect={handleSelectItem}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Processing Info */}
             {etlResult && (
               <>
@@ -207,6 +557,22 @@ export function ETLDashboard() {
                     {etlResult.success
                       ? `${etlResult.sheets.length} sheet siap untuk disimpan ke database.`
                       : etlResult.errors.join(', ')}
+                    {(etlResult.reportHeader.brokerName || etlResult.reportHeader.reportDate) && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {etlResult.reportHeader.brokerName && (
+                          <Badge variant="outline">{etlResult.reportHeader.brokerName}</Badge>
+                        )}
+                        {etlResult.reportHeader.reportDate && (
+                          <Badge variant="outline">Tanggal laporan: {etlResult.reportHeader.reportDate}</Badge>
+                        )}
+                        {etlResult.reportHeader.formCode && (
+                          <Badge variant="outline">{etlResult.reportHeader.formCode}</Badge>
+                        )}
+                        {etlResult.reportHeader.directorName && (
+                          <Badge variant="outline">Direktur: {etlResult.reportHeader.directorName}</Badge>
+                        )}
+                      </div>
+                    )}
                   </AlertDescription>
                 </Alert>
 
@@ -230,6 +596,42 @@ export function ETLDashboard() {
                   </Alert>
                 )}
 
+                {/* Header rows detected with low confidence */}
+                {etlResult.sheets
+                  .filter(sheet => needsHeaderConfirmation(sheet.headerDetection))
+                  .map(sheet => (
+                    <HeaderRowPicker
+                      key={sheet.sheetName}
+                      sheet={sheet}
+                      onSelect={handleSelectHeaderRow}
+                      disabled={isProcessing}
+                    />
+                  ))}
+
+                {/* Formula Verification */}
+                {etlResult.formulaIssues.length > 0 && (
+                  <Alert variant="destructive">
+                    <FunctionSquare className="w-4 h-4" />
+                    <AlertTitle>Verifikasi Rumus ({etlResult.formulaIssues.length} temuan)</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc list-inside space-y-1 mt-2">
+                        {etlResult.formulaIssues.slice(0, 8).map((issue, idx) => (
+                          <li key={idx} className="text-sm">
+                            <span className="font-mono">{issue.cellAddress}</span>
+                            {issue.formula && <span className="font-mono text-xs"> (={issue.formula})</span>}
+                            {' — '}{issue.message}
+                          </li>
+                        ))}
+                        {etlResult.formulaIssues.length > 8 && (
+                          <li className="text-sm text-muted-foreground">
+                            ...dan {etlResult.formulaIssues.length - 8} temuan lainnya (ditandai merah di preview)
+                          </li>
+                        )}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {/* Enrichment Stats */}
                 {currentSheet?.metadata.enrichmentStats && (
                   <Alert>
@@ -247,7 +649,12 @@ export function ETLDashboard() {
                           <div className="text-lg font-bold text-orange-500">
                             {currentSheet.metadata.enrichmentStats.unmatchedCount}
                           </div>
-                          <div className="text-xs text-muted-foreground">Non-Grup</div>
+                          <div className="text-xs text-muted-foreground">Tidak Cocok</div>
+                          {currentSheet.metadata.enrichmentStats.nonGroupCount > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              +{currentSheet.metadata.enrichmentStats.nonGroupCount} ditandai Non-Grup
+                            </div>
+                          )}
                         </div>
                         <div className="text-center p-2 bg-muted rounded">
                           <div className="text-lg font-bold text-blue-500">
@@ -268,22 +675,64 @@ export function ETLDashboard() {
                           {currentSheet.metadata.enrichmentStats.nilaiPasarColumn && (
                             <> • Kolom Nilai: <Badge variant="outline">{currentSheet.metadata.enrichmentStats.nilaiPasarColumn}</Badge></>
                           )}
+                          {currentSheet.metadata.enrichmentStats.debtMatchedCount > 0 && (
+                            <> • Obligasi/Sukuk: <Badge variant="outline">{currentSheet.metadata.enrichmentStats.debtMatchedCount}</Badge></>
+                          )}
+                          {currentSheet.metadata.enrichmentStats.asOfDate && (
+                            <> • Grup per: <Badge variant="outline">{currentSheet.metadata.enrichmentStats.asOfDate}</Badge></>
+                          )}
+                          {currentSheet.metadata.masterVersionId && (
+                            <> • Versi Master: <Badge variant="outline">{currentSheet.metadata.masterVersionId}</Badge></>
+                          )}
                         </p>
                       )}
                     </AlertDescription>
                   </Alert>
                 )}
 
+                {currentSheet && (
+                  <CodeMatchReview sheet={currentSheet} onDecide={handleCodeMatchDecision} disabled={isProcessing} />
+                )}
+
+                {currentSheet?.metadata.enrichmentStats && (
+                  <GroupHierarchyView
+                    sheet={currentSheet}
+                    onGroupLevelChange={handleGroupLevelChange}
+                    disabled={isProcessing}
+                  />
+                )}
+
                 {/* Sheet Tabs */}
                 {etlResult.sheets.length > 0 && (
                   <Card>
                     <CardHeader className="pb-3">
                       <div className="flex items-center justify-between flex-wrap gap-4">
                         <CardTitle>Preview Data Bersih</CardTitle>
-                        <div className="flex gap-2">
+                        <div className="flex gap-2 flex-wrap">
+                          <Select
+                            value={exportHeaderMode}
+                            onValueChange={(value) => setExportHeaderMode(value as ExportHeaderMode)}
+                          >
+                            <SelectTrigger className="w-[170px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="original">Header asli</SelectItem>
+                              <SelectItem value="database">Header database</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            onClick={handleExportFlat}
+                            disabled={isExporting}
+                            variant="outline"
+                            className="gap-2"
+                          >
+                            <Download className="w-4 h-4" />
+                            Export Data Bersih
+                          </Button>
                           <Button 
                             onClick={handleExportExcel}
-                            disabled={isExporting || !uploadedFile}
+                            disabled={isExporting || !activeItem}
                             variant="outline"
                             className="gap-2"
                           >
@@ -333,7 +782,13 @@ export function ETLDashboard() {
                       )}
 
                       {/* Data Preview */}
-                      {currentSheet && <ExcelStylePreview sheet={currentSheet} />}
+                      {currentSheet && (
+                        <ExcelStylePreview
+                          sheet={currentSheet}
+                          formulaIssues={etlResult.formulaIssues}
+                          onRestoreRows={handleRestoreRows}
+                        />
+                      )}
                     </CardContent>
                   </Card>
                 )}
@@ -341,6 +796,20 @@ export function ETLDashboard() {
             )}
           </TabsContent>
 
+          <TabsContent value="master" className="space-y-6">
+            <MasterDataEditor masterDataVersion={masterDataVersion} onSaved={handleMasterDataChanged} />
+            <DebtIssuerMappingManager masterDataVersion={masterDataVersion} onSaved={reprocessLoadedFiles} />
+          </TabsContent>
+
+          <TabsContent value="unmatched">
+            <UnmatchedCodeWorkbench
+              sheets={processedSheets}
+              disabled={isProcessing}
+              onAssigned={handleMasterDataChanged}
+              onNonGroupChanged={reprocessLoadedFiles}
+            />
+          </TabsContent>
+
           {/* Database Monitor Tab */}
           <TabsContent value="monitor">
             <Card>
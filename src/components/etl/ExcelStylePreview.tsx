@@ -5,26 +5,28 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { ProcessedSheet } from '@/lib/etl/types';
+import { ProcessedSheet, FormulaIssue, ColumnType, CanonicalField } from '@/lib/etl/types';
+import { getCellAddress, getCellFormula, getSourceRow } from '@/lib/etl/provenance';
+import { getFieldLabel } from '@/lib/etl/fieldDictionary';
 import { cn } from '@/lib/utils';
-import { Search, ChevronLeft, ChevronRight, Grid3X3, Eye } from 'lucide-react';
+import { Search, ChevronLeft, ChevronRight, Grid3X3, Eye, Trash2 } from 'lucide-react';
+import { CleaningLogView } from './CleaningLogView';
 
 interface ExcelStylePreviewProps {
   sheet: ProcessedSheet;
   maxRows?: number;
   showEmptyBlocks?: boolean;
   highlightFormulas?: boolean;
+  formulaIssues?: FormulaIssue[];
+  onRestoreRows?: (ids: number[]) => void;
 }
 
-// Excel column letters
-const getExcelColumn = (index: number): string => {
-  let column = '';
-  let temp = index;
-  while (temp >= 0) {
-    column = String.fromCharCode((temp % 26) + 65) + column;
-    temp = Math.floor(temp / 26) - 1;
-  }
-  return column;
+const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  number: 'Angka',
+  percentage: 'Persen',
+  date: 'Tanggal',
+  code: 'Kode',
+  text: 'Teks',
 };
 
 export function ExcelStylePreview({ 
@@ -32,10 +34,13 @@ export function ExcelStylePreview({
   maxRows = 100,
   showEmptyBlocks = true,
   highlightFormulas = true,
+  formulaIssues = [],
+  onRestoreRows,
 }: ExcelStylePreviewProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(0);
   const [showGridLines, setShowGridLines] = useState(true);
+  const [showRemoved, setShowRemoved] = useState(false);
   const rowsPerPage = 50;
 
   const displayHeaders = useMemo(() => 
@@ -43,6 +48,20 @@ export function ExcelStylePreview({
     [sheet.headers]
   );
   
+  // Header -> canonical field it was mapped to
+  const fieldByHeader = useMemo(() => {
+    const map: Record<string, CanonicalField> = {};
+    for (const [field, header] of Object.entries(sheet.fieldMapping?.columns ?? {})) {
+      map[header] = field as CanonicalField;
+    }
+    return map;
+  }, [sheet.fieldMapping]);
+  
+  const issuesByCell = useMemo(
+    () => new Map(formulaIssues.map(issue => [issue.cellAddress, issue])),
+    [formulaIssues]
+  );
+
   const filteredData = useMemo(() => {
     if (!searchTerm) return sheet.data;
     
@@ -61,8 +80,11 @@ export function ExcelStylePreview({
 
   const totalPages = Math.ceil(filteredData.length / rowsPerPage);
 
-  const formatCellValue = (value: unknown): string => {
+  const formatCellValue = (value: unknown, header?: string): string => {
     if (value === null || value === undefined || value === '') return '';
+    if (typeof value === 'number' && header && sheet.columnSchema?.[header]?.type === 'percentage') {
+      return `${(value * 100).toLocaleString('id-ID', { maximumFractionDigits: 2 })}%`;
+    }
     if (typeof value === 'number') {
       // Format numbers with thousand separators
       if (Math.abs(value) >= 1e12) {
@@ -79,16 +101,26 @@ export function ExcelStylePreview({
     return String(value);
   };
 
-  const getCellStyle = (value: unknown, header: string): string => {
+  const getCellStyle = (value: unknown, formula: string | null, issue: FormulaIssue | undefined): string => {
     const baseStyle = 'px-2 py-1.5 text-xs font-mono';
     const isEmpty = value === null || value === undefined || value === '';
     
     if (isEmpty && showEmptyBlocks) {
       return cn(baseStyle, 'bg-muted/30');
     }
+
+    // Formula verification findings take precedence
+    if (issue) {
+      return cn(baseStyle, 'text-right ring-1 ring-inset ring-red-400 bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400');
+    }
     
     if (typeof value === 'number') {
-      return cn(baseStyle, 'text-right', value < 0 ? 'text-red-600' : 'text-foreground');
+      return cn(
+        baseStyle,
+        'text-right',
+        value < 0 ? 'text-red-600' : 'text-foreground',
+        highlightFormulas && formula && 'bg-blue-50 dark:bg-blue-900/20'
+      );
     }
     
     // Highlight formula-like values
@@ -109,7 +141,7 @@ export function ExcelStylePreview({
 
   const isRowMerged = (row: Record<string, unknown>): boolean => {
     // Check if most cells are empty (merged row indicator)
-    const nonEmptyCount = Object.values(row).filter(v => 
+    const nonEmptyCount = displayHeaders.map(h => row[h]).filter(v => 
       v !== null && v !== undefined && String(v).trim() !== ''
     ).length;
     return nonEmptyCount <= 2;
@@ -124,6 +156,11 @@ export function ExcelStylePreview({
           <Badge variant="secondary" className="font-mono text-xs">
             {sheet.tableName}
           </Badge>
+          {sheet.formType !== 'UNKNOWN' && (
+            <Badge variant="outline" className="text-xs" title="Formulir terdeteksi dari isi sheet">
+              {sheet.formType} • {Math.round(sheet.formConfidence * 100)}%
+            </Badge>
+          )}
         </div>
         
         <div className="flex items-center gap-3 text-sm text-muted-foreground">
@@ -176,123 +213,172 @@ export function ExcelStylePreview({
             <TooltipContent>Show formula highlights</TooltipContent>
           </Tooltip>
         </TooltipProvider>
+
+        <Button
+          variant={showRemoved ? 'secondary' : 'ghost'}
+          size="sm"
+          className="gap-1"
+          title="Baris dan kolom yang dihapus saat pembersihan"
+          onClick={() => setShowRemoved(!showRemoved)}
+        >
+          <Trash2 className="w-4 h-4" />
+          Dihapus
+          <Badge variant="outline" className="ml-1 text-xs">
+            {sheet.cleaningLog.removedRows.length + sheet.cleaningLog.removedColumns.length}
+          </Badge>
+        </Button>
       </div>
 
-      {/* Excel-style Table */}
-      <ScrollArea className="h-[500px] rounded-lg border">
-        <div className="min-w-max">
-          <Table className={cn(!showGridLines && '[&_td]:border-0 [&_th]:border-0')}>
-            {/* Column Headers (A, B, C...) */}
-            <TableHeader className="sticky top-0 z-20">
-              <TableRow className="bg-muted/80 backdrop-blur-sm">
-                <TableHead className="w-12 text-center font-bold text-muted-foreground bg-muted/95 border-r sticky left-0 z-30">
+      {showRemoved ? (
+        <CleaningLogView key={sheet.sheetName} sheet={sheet} onRestoreRows={onRestoreRows} />
+      ) : (
+        <>
+
+        {/* Excel-style Table */}
+        <ScrollArea className="h-[500px] rounded-lg border">
+          <div className="min-w-max">
+            <Table className={cn(!showGridLines && '[&_td]:border-0 [&_th]:border-0')}>
+              {/* Column Headers (A, B, C...) */}
+              <TableHeader className="sticky top-0 z-20">
+                <TableRow className="bg-muted/80 backdrop-blur-sm">
+                  <TableHead className="w-12 text-center font-bold text-muted-foreground bg-muted/95 border-r sticky left-0 z-30">
                   
-                </TableHead>
-                {displayHeaders.map((_, idx) => (
-                  <TableHead 
-                    key={idx} 
-                    className="text-center text-xs font-bold text-muted-foreground bg-muted/95 min-w-[80px] border-b"
-                  >
-                    {getExcelColumn(idx)}
                   </TableHead>
-                ))}
-              </TableRow>
-              {/* Actual Headers */}
-              <TableRow className="bg-slate-100 dark:bg-slate-800">
-                <TableHead className="w-12 text-center font-bold text-muted-foreground bg-slate-100 dark:bg-slate-800 border-r sticky left-0 z-30">
-                  #
-                </TableHead>
-                {displayHeaders.map((header, idx) => (
-                  <TableHead 
-                    key={idx} 
-                    className="whitespace-nowrap text-xs font-semibold min-w-[100px] max-w-[200px] truncate px-2"
-                    title={header}
-                  >
-                    {header}
+                  {displayHeaders.map((header, idx) => (
+                    <TableHead 
+                      key={idx} 
+                      className="text-center text-xs font-bold text-muted-foreground bg-muted/95 min-w-[80px] border-b"
+                      title={sheet.columnSources[header] ? `Kolom ${sheet.columnSources[header]} di sheet ${sheet.sourceSheetName}` : 'Kolom tambahan (enrichment)'}
+                    >
+                      {sheet.columnSources[header] ?? '+'}
+                    </TableHead>
+                  ))}
+                </TableRow>
+                {/* Actual Headers */}
+                <TableRow className="bg-slate-100 dark:bg-slate-800">
+                  <TableHead className="w-12 text-center font-bold text-muted-foreground bg-slate-100 dark:bg-slate-800 border-r sticky left-0 z-30">
+                    #
                   </TableHead>
-                ))}
-              </TableRow>
-            </TableHeader>
+                  {displayHeaders.map((header, idx) => {
+                    const schema = sheet.columnSchema?.[header];
+                    const field = fieldByHeader[header];
+                    return (
+                      <TableHead 
+                        key={idx} 
+                        className="whitespace-nowrap text-xs font-semibold min-w-[100px] max-w-[200px] truncate px-2"
+                        title={[
+                          header,
+                          schema && `Tipe: ${COLUMN_TYPE_LABELS[schema.type]} (keyakinan ${Math.round(schema.confidence * 100)}%)`,
+                          schema?.mismatchCount && `${schema.mismatchCount} nilai tidak sesuai tipe`,
+                          field && `Field: ${getFieldLabel(field)}`,
+                        ].filter(Boolean).join('\n')}
+                      >
+                        <div className="truncate">{header}</div>
+                        {schema && (
+                          <div
+                            className={cn(
+                              'text-[10px] font-normal',
+                              schema.mismatchCount > 0 ? 'text-amber-600' : 'text-muted-foreground'
+                            )}
+                          >
+                            {COLUMN_TYPE_LABELS[schema.type]}
+                            {schema.mismatchCount > 0 && ` · ${schema.mismatchCount} tidak sesuai`}
+                          </div>
+                        )}
+                      </TableHead>
+                    );
+                  })}
+                </TableRow>
+              </TableHeader>
             
-            <TableBody>
-              {paginatedData.map((row, rowIdx) => {
-                const actualRowNum = currentPage * rowsPerPage + rowIdx + 1;
-                const isMergedRow = isRowMerged(row);
+              <TableBody>
+                {paginatedData.map((row, rowIdx) => {
+                  const actualRowNum = getSourceRow(row) ?? currentPage * rowsPerPage + rowIdx + 1;
+                  const isMergedRow = isRowMerged(row);
                 
-                return (
-                  <TableRow 
-                    key={rowIdx} 
-                    className={cn(
-                      'hover:bg-blue-50/50 dark:hover:bg-blue-900/20',
-                      isMergedRow && 'bg-slate-50 dark:bg-slate-800/50'
-                    )}
-                  >
-                    {/* Row Number */}
-                    <TableCell className="text-center text-muted-foreground font-mono text-xs bg-muted/30 border-r sticky left-0 z-10">
-                      {actualRowNum}
-                    </TableCell>
+                  return (
+                    <TableRow 
+                      key={rowIdx} 
+                      className={cn(
+                        'hover:bg-blue-50/50 dark:hover:bg-blue-900/20',
+                        isMergedRow && 'bg-slate-50 dark:bg-slate-800/50'
+                      )}
+                    >
+                      {/* Row Number */}
+                      <TableCell className="text-center text-muted-foreground font-mono text-xs bg-muted/30 border-r sticky left-0 z-10">
+                        {actualRowNum}
+                      </TableCell>
                     
-                    {/* Data Cells */}
-                    {displayHeaders.map((header, colIdx) => {
-                      const value = row[header];
-                      const isEmpty = value === null || value === undefined || value === '';
+                      {/* Data Cells */}
+                      {displayHeaders.map((header, colIdx) => {
+                        const value = row[header];
+                        const isEmpty = value === null || value === undefined || value === '';
+                        const cellAddress = getCellAddress(sheet, row, header);
+                        const formula = getCellFormula(row, header);
+                        const issue = cellAddress ? issuesByCell.get(cellAddress) : undefined;
                       
-                      return (
-                        <TableCell 
-                          key={colIdx} 
-                          className={cn(
-                            getCellStyle(value, header),
-                            isEmpty && showEmptyBlocks && 'bg-gradient-to-r from-muted/40 to-muted/20',
-                            'max-w-[200px] truncate'
-                          )}
-                          title={isEmpty ? '(kosong)' : formatCellValue(value)}
-                        >
-                          {isEmpty && showEmptyBlocks ? (
-                            <span className="text-muted-foreground/30">—</span>
-                          ) : (
-                            formatCellValue(value)
-                          )}
-                        </TableCell>
-                      );
-                    })}
-                  </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
-        </div>
-        <ScrollBar orientation="horizontal" />
-      </ScrollArea>
+                        return (
+                          <TableCell 
+                            key={colIdx} 
+                            className={cn(
+                              getCellStyle(value, formula, issue),
+                              isEmpty && showEmptyBlocks && 'bg-gradient-to-r from-muted/40 to-muted/20',
+                              'max-w-[200px] truncate'
+                            )}
+                            title={[
+                              [cellAddress, isEmpty ? '(kosong)' : formatCellValue(value, header)].filter(Boolean).join(': '),
+                              formula && `=${formula}`,
+                              issue?.message,
+                            ].filter(Boolean).join('\n')}
+                          >
+                            {isEmpty && showEmptyBlocks ? (
+                              <span className="text-muted-foreground/30">—</span>
+                            ) : (
+                              formatCellValue(value, header)
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
 
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-between">
-          <p className="text-sm text-muted-foreground">
-            Menampilkan {currentPage * rowsPerPage + 1} - {Math.min((currentPage + 1) * rowsPerPage, filteredData.length)} dari {filteredData.length} baris
-          </p>
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Menampilkan {currentPage * rowsPerPage + 1} - {Math.min((currentPage + 1) * rowsPerPage, filteredData.length)} dari {filteredData.length} baris
+            </p>
           
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              disabled={currentPage === 0}
-              onClick={() => setCurrentPage(p => p - 1)}
-            >
-              <ChevronLeft className="w-4 h-4" />
-            </Button>
-            <span className="text-sm text-muted-foreground">
-              {currentPage + 1} / {totalPages}
-            </span>
-            <Button
-              variant="outline"
-              size="sm"
-              disabled={currentPage >= totalPages - 1}
-              onClick={() => setCurrentPage(p => p + 1)}
-            >
-              <ChevronRight className="w-4 h-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={currentPage === 0}
+                onClick={() => setCurrentPage(p => p - 1)}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {currentPage + 1} / {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={currentPage >= totalPages - 1}
+                onClick={() => setCurrentPage(p => p + 1)}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
           </div>
-        </div>
+        )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Copy, FileJson, Layers, Save, Trash2, Upload, AlertCircle } from 'lucide-react';
+import {
+  listProfiles,
+  parseProfileJson,
+  saveCustomProfile,
+  deleteCustomProfile,
+  setProfileEnabled,
+  STANDARD_PROFILE,
+} from '@/lib/etl/extractionProfiles';
+import { toast } from 'sonner';
+
+interface ExtractionProfileManagerProps {
+  onProfilesChanged?: () => void;
+}
+
+const TEMPLATE_PROFILE = {
+  ...STANDARD_PROFILE,
+  id: 'vd59-broker-x',
+  name: 'VD5.9 Broker X',
+  formType: 'VD59',
+  sheetMatchers: ['^MKBD$'],
+  headerRows: { start: 7, end: 8 },
+  stopMarkers: ['Apabila diperlukan'],
+  labelColumn: 'B',
+  lineColumn: 'A',
+};
+
+export function ExtractionProfileManager({ onProfilesChanged }: ExtractionProfileManagerProps) {
+  const [profiles, setProfiles] = useState(listProfiles);
+  const [isOpen, setIsOpen] = useState(false);
+  const [editorText, setEditorText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const refresh = () => {
+    setProfiles(listProfiles());
+    onProfilesChanged?.();
+  };
+
+  const handleToggle = (id: string, enabled: boolean) => {
+    setProfileEnabled(id, enabled);
+    refresh();
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCustomProfile(id);
+    refresh();
+    toast.success('Profil dihapus');
+  };
+
+  const handleSave = () => {
+    const result = parseProfileJson(editorText);
+    if (!result.success || !result.profile) {
+      setErrors(result.errors);
+      return;
+    }
+
+    try {
+      saveCustomProfile(result.profile);
+      setErrors([]);
+      setEditorText('');
+      refresh();
+      toast.success(`Profil "${result.profile.name}" disimpan`);
+    } catch (error) {
+      setErrors([(error as Error).message]);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setEditorText(await file.text());
+      setErrors([]);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <div className="flex items-center justify-between cursor-pointer">
+              <div className="flex items-center gap-2">
+                <Layers className="w-5 h-5 text-primary" />
+                <CardTitle className="text-lg">Profil Ekstraksi</CardTitle>
+                <Badge variant="secondary" className="text-xs">
+                  {profiles.filter(p => p.enabled).length} aktif
+                </Badge>
+              </div>
+              <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+            </div>
+          </CollapsibleTrigger>
+          <CardDescription>
+            Tata letak per formulir (sheet, baris header, penanda awal/akhir, kolom). Profil kustom
+            didahulukan dari profil bawaan dan disimpan di browser ini.
+          </CardDescription>
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            {/* Profile list */}
+            <div className="space-y-2">
+              {profiles.map(({ profile, builtIn, enabled }) => (
+                <div
+                  key={profile.id}
+                  className="flex items-center justify-between gap-2 p-2 rounded-lg border"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Switch
+                      checked={enabled}
+                      onCheckedChange={(checked) => handleToggle(profile.id, checked)}
+                    />
+                    <span className="text-sm font-medium truncate">{profile.name}</span>
+                    <Badge variant="outline" className="text-xs">{profile.formType}</Badge>
+                    <Badge variant={builtIn ? 'secondary' : 'default'} className="text-xs">
+                      {builtIn ? 'Bawaan' : 'Kustom'}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Salin ke editor"
+                      onClick={() => {
+                        setEditorText(JSON.stringify(profile, null, 2));
+                        setErrors([]);
+                      }}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    {!builtIn && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        title="Hapus profil"
+                        onClick={() => handleDelete(profile.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* JSON editor */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium flex items-center gap-1">
+                  <FileJson className="w-4 h-4" />
+                  Profil JSON
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditorText(JSON.stringify(TEMPLATE_PROFILE, null, 2))}
+                  >
+                    Contoh
+                  </Button>
+                  <label>
+                    <input type="file" accept=".json" className="hidden" onChange={handleImport} />
+                    <Button variant="outline" size="sm" className="gap-1" asChild>
+                      <span>
+                        <Upload className="w-4 h-4" />
+                        Impor
+                      </span>
+                    </Button>
+                  </label>
+                </div>
+              </div>
+              <Textarea
+                value={editorText}
+                onChange={(e) => setEditorText(e.target.value)}
+                placeholder="Tempel atau salin profil JSON di sini"
+                className="font-mono text-xs min-h-[180px]"
+              />
+              {errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="w-4 h-4" />
+                  <AlertTitle>Profil tidak valid</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc list-inside space-y-1 mt-1">
+                      {errors.map((error, idx) => (
+                        <li key={idx} className="text-xs font-mono">{error}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Button onClick={handleSave} disabled={!editorText.trim()} className="gap-2">
+                <Save className="w-4 h-4" />
+                Validasi & Simpan
+              </Button>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
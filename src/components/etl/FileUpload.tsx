@@ -1,17 +1,88 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileSpreadsheet, AlertCircle } from 'lucide-react';
+import { Upload, FileSpreadsheet, AlertCircle, FolderOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isExcelFile } from '@/lib/etl/batch';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect?: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void;
+  multiple?: boolean;
   isLoading?: boolean;
   accept?: string;
 }
 
-export function FileUpload({ onFileSelect, isLoading = false, accept = '.xlsx,.xls' }: FileUploadProps) {
+/**
+ * Read every file inside a dropped directory, including subfolders
+ */
+async function readDirectoryEntry(entry: FileSystemDirectoryEntry): Promise<File[]> {
+  const reader = entry.createReader();
+  const children: FileSystemEntry[] = [];
+
+  // readEntries returns results in batches until an empty batch
+  let batch: FileSystemEntry[];
+  do {
+    batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    children.push(...batch);
+  } while (batch.length > 0);
+
+  const files = await Promise.all(children.map(readEntry));
+  return files.flat();
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [file];
+  }
+  if (entry.isDirectory) {
+    return readDirectoryEntry(entry as FileSystemDirectoryEntry);
+  }
+  return [];
+}
+
+/**
+ * Collect dropped files, expanding dropped folders where the browser supports it
+ */
+async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(entries.map(readEntry));
+  return files.flat();
+}
+
+export function FileUpload({
+  onFileSelect,
+  onFilesSelect,
+  multiple = false,
+  isLoading = false,
+  accept = '.xlsx,.xls',
+}: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const emitFiles = useCallback((files: File[]) => {
+    const excelFiles = files.filter(isExcelFile);
+
+    if (excelFiles.length === 0) {
+      setError('Silakan unggah file Excel (.xlsx atau .xls)');
+      return;
+    }
+
+    if (multiple && onFilesSelect) {
+      onFilesSelect(excelFiles);
+    } else {
+      onFileSelect?.(excelFiles[0]);
+    }
+  }, [multiple, onFileSelect, onFilesSelect]);
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -22,32 +93,27 @@ export function FileUpload({ onFileSelect, isLoading = false, accept = '.xlsx,.x
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     setError(null);
+    if (isLoading) return;
 
-    const files = Array.from(e.dataTransfer.files);
-    const excelFile = files.find(f => 
-      f.name.endsWith('.xlsx') || f.name.endsWith('.xls')
-    );
-
-    if (excelFile) {
-      onFileSelect(excelFile);
-    } else {
-      setError('Silakan unggah file Excel (.xlsx atau .xls)');
-    }
-  }, [onFileSelect]);
+    const files = multiple
+      ? await collectDroppedFiles(e.dataTransfer)
+      : Array.from(e.dataTransfer.files);
+    emitFiles(files);
+  }, [emitFiles, isLoading, multiple]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
-    const file = e.target.files?.[0];
-    if (file) {
-      onFileSelect(file);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      emitFiles(files);
     }
     // Reset input so same file can be selected again
     e.target.value = '';
-  }, [onFileSelect]);
+  }, [emitFiles]);
 
   return (
     <div className="w-full">
@@ -82,10 +148,14 @@ export function FileUpload({ onFileSelect, isLoading = false, accept = '.xlsx,.x
                 )}
               </div>
               <p className="mb-2 text-sm text-foreground font-medium">
-                {isDragging ? 'Lepaskan file di sini' : 'Klik atau seret file Excel ke sini'}
+                {isDragging
+                  ? 'Lepaskan file di sini'
+                  : multiple
+                    ? 'Klik atau seret file / folder Excel ke sini'
+                    : 'Klik atau seret file Excel ke sini'}
               </p>
               <p className="text-xs text-muted-foreground">
-                Format yang didukung: .xlsx, .xls
+                Format yang didukung: .xlsx, .xls{multiple && ' • bisa banyak file sekaligus'}
               </p>
             </>
           )}
@@ -94,10 +164,31 @@ export function FileUpload({ onFileSelect, isLoading = false, accept = '.xlsx,.x
           type="file"
           className="hidden"
           accept={accept}
+          multiple={multiple}
           onChange={handleFileInput}
           disabled={isLoading}
         />
       </label>
+
+      {multiple && (
+        <label
+          className={cn(
+            'inline-flex items-center gap-1 mt-2 text-xs text-primary cursor-pointer hover:underline',
+            isLoading && 'opacity-50 cursor-not-allowed'
+          )}
+        >
+          <FolderOpen className="w-3 h-3" />
+          Pilih satu folder
+          <input
+            type="file"
+            className="hidden"
+            multiple
+            onChange={handleFileInput}
+            disabled={isLoading}
+            {...{ webkitdirectory: '' }}
+          />
+        </label>
+      )}
       
       {error && (
         <div className="flex items-center gap-2 mt-3 p-3 bg-destructive/10 text-destructive rounded-lg">
@@ -0,0 +1,141 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Network } from 'lucide-react';
+import { GROUP_LEVEL_LABELS, GroupTreeNode, buildGroupHierarchy } from '@/lib/etl/groupLevels';
+import { GROUP_LEVELS } from '@/lib/etl/enrichment';
+import { GroupLevel, ProcessedSheet } from '@/lib/etl/types';
+
+interface GroupHierarchyViewProps {
+  sheet: ProcessedSheet;
+  onGroupLevelChange: (level: GroupLevel) => void;
+  disabled?: boolean;
+}
+
+const formatBillions = (value: number) =>
+  `${(value / 1e9).toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}B`;
+
+/**
+ * Group concentration of a sheet, drilled down from UBO to group, sub-group and issuer,
+ * with the level ranking liabilities aggregate on
+ */
+export function GroupHierarchyView({ sheet, onGroupLevelChange, disabled }: GroupHierarchyViewProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const tree = useMemo(() => buildGroupHierarchy(sheet), [sheet]);
+  const groupLevel = sheet.metadata.enrichmentStats?.groupLevel ?? 'afiliasiUtama';
+
+  if (tree.length === 0) return null;
+
+  const grandTotal = tree.reduce((sum, node) => sum + node.total, 0);
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const renderNodes = (nodes: GroupTreeNode[], parentPath: string, depth: number): React.ReactNode[] =>
+    nodes.flatMap(node => {
+      const path = `${parentPath}/${node.key}`;
+      const isOpen = expanded.has(path);
+      const isIssuer = node.level === 'issuer';
+
+      return [
+        <TableRow
+          key={path}
+          className={isIssuer ? undefined : 'cursor-pointer'}
+          onClick={isIssuer ? undefined : () => toggle(path)}
+        >
+          <TableCell className="text-xs">
+            <div className="flex items-center gap-1" style={{ paddingLeft: depth * 20 }}>
+              {isIssuer ? (
+                <span className="w-4" />
+              ) : isOpen ? (
+                <ChevronDown className="w-4 h-4" />
+              ) : (
+                <ChevronRight className="w-4 h-4" />
+              )}
+              {isIssuer ? (
+                <>
+                  <span className="font-mono">{node.key}</span>
+                  {node.name !== node.key && <span className="text-muted-foreground">{node.name}</span>}
+                </>
+              ) : (
+                <span className={node.level === groupLevel ? 'font-semibold' : undefined}>{node.name}</span>
+              )}
+            </div>
+          </TableCell>
+          <TableCell className="text-xs text-muted-foreground">
+            {isIssuer ? 'Emiten' : GROUP_LEVEL_LABELS[node.level as GroupLevel]}
+          </TableCell>
+          <TableCell className="text-xs font-mono text-right">{node.rowCount}</TableCell>
+          <TableCell className="text-xs font-mono text-right">{formatBillions(node.total)}</TableCell>
+          <TableCell className="text-xs font-mono text-right">
+            {grandTotal > 0 ? `${((node.total / grandTotal) * 100).toFixed(1)}%` : '-'}
+          </TableCell>
+        </TableRow>,
+        ...(isOpen ? renderNodes(node.children, path, depth + 1) : []),
+      ];
+    });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Network className="w-5 h-5" />
+              Konsentrasi Grup "{sheet.sheetName}"
+            </CardTitle>
+            <CardDescription>
+              Total nilai pasar per UBO, grup, sub-grup dan emiten. Klik baris untuk melihat rinciannya.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Level ranking liabilities</span>
+            <Select
+              value={groupLevel}
+              onValueChange={(value) => onGroupLevelChange(value as GroupLevel)}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-[190px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUP_LEVELS.map(level => (
+                  <SelectItem key={level} value={level}>{GROUP_LEVEL_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Grup Nilai Pasar Wajar dan ranking liabilities dihitung per{' '}
+          <Badge variant="outline">{GROUP_LEVEL_LABELS[groupLevel]}</Badge>
+        </p>
+        <ScrollArea className="h-[360px] rounded-lg border">
+          <Table>
+            <TableHeader className="sticky top-0 bg-muted/95 z-10">
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead>Level</TableHead>
+                <TableHead className="text-right w-16">Baris</TableHead>
+                <TableHead className="text-right">Nilai Pasar</TableHead>
+                <TableHead className="text-right w-20">Porsi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>{renderNodes(tree, '', 0)}</TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Rows3 } from 'lucide-react';
+import { ProcessedSheet, HeaderRowCandidate } from '@/lib/etl/types';
+
+interface HeaderRowPickerProps {
+  sheet: ProcessedSheet;
+  onSelect: (sheet: ProcessedSheet, candidate: HeaderRowCandidate) => void;
+  disabled?: boolean;
+}
+
+const MAX_PREVIEW_CELLS = 8;
+
+/**
+ * Best scored header rows of a sheet whose header was found with low confidence;
+ * the picked row is remembered for the sheet's layout
+ */
+export function HeaderRowPicker({ sheet, onSelect, disabled }: HeaderRowPickerProps) {
+  const detection = sheet.headerDetection;
+  if (!detection) return null;
+
+  return (
+    <Alert>
+      <Rows3 className="w-4 h-4" />
+      <AlertTitle>
+        Baris header "{sheet.sheetName}" belum pasti
+        <Badge variant="outline" className="ml-2">
+          Keyakinan {Math.round(detection.confidence * 100)}%
+        </Badge>
+      </AlertTitle>
+      <AlertDescription>
+        <p className="text-sm mb-2">
+          Saat ini baris {detection.headerRow} dipakai sebagai header. Pilih baris yang benar;
+          pilihan diingat untuk laporan dengan tata letak yang sama.
+        </p>
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Baris Excel</TableHead>
+                <TableHead className="w-16">Skor</TableHead>
+                <TableHead>Isi baris</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detection.candidates.map(candidate => {
+                const isCurrent = candidate.row === detection.headerRow;
+                return (
+                  <TableRow key={candidate.row} className={isCurrent ? 'bg-muted/50' : undefined}>
+                    <TableCell className="font-mono text-xs">{candidate.row}</TableCell>
+                    <TableCell className="font-mono text-xs">{candidate.score.toFixed(2)}</TableCell>
+                    <TableCell className="text-xs font-mono max-w-[560px] truncate" title={candidate.cells.join(' | ')}>
+                      {candidate.cells.slice(0, MAX_PREVIEW_CELLS).join(' | ')}
+                      {candidate.cells.length > MAX_PREVIEW_CELLS && ' | …'}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant={isCurrent ? 'default' : 'outline'}
+                        disabled={disabled}
+                        onClick={() => onSelect(sheet, candidate)}
+                      >
+                        {isCurrent ? 'Benar' : 'Pilih'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -205,7 +205,7 @@ export function MKBDDashboard({ result }: MKBDDashboardProps) {
           <CardHeader>
             <CardTitle className="text-lg">Detail Ranking Liabilities (VD510)</CardTitle>
             <CardDescription>
-              Perhitungan per emiten yang melebihi 20% dari Total Ekuitas
+              Perhitungan per emiten (Tabel 10C) dan ranking liabilities dari tabel VD510 lainnya
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -214,6 +214,7 @@ export function MKBDDashboard({ result }: MKBDDashboardProps) {
                 <thead>
                   <tr className="border-b">
                     <th className="text-left py-2 px-2 font-medium text-muted-foreground">#</th>
+                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Tabel</th>
                     <th className="text-left py-2 px-2 font-medium text-muted-foreground">Kode</th>
                     <th className="text-left py-2 px-2 font-medium text-muted-foreground">Grup Emiten</th>
                     <th className="text-right py-2 px-2 font-medium text-muted-foreground">Nilai Pasar</th>
@@ -228,7 +229,10 @@ export function MKBDDashboard({ result }: MKBDDashboardProps) {
                     .map((detail, idx) => (
                       <tr key={idx} className="border-b hover:bg-muted/50">
                         <td className="py-2 px-2 text-muted-foreground">{idx + 1}</td>
-                        <td className="py-2 px-2 font-mono font-medium">{detail.kodeEfek}</td>
+                        <td className="py-2 px-2">
+                          <Badge variant="outline" className="text-xs">{detail.tableId}</Badge>
+                        </td>
+                        <td className="py-2 px-2 font-mono font-medium" title={detail.cellAddress}>{detail.kodeEfek}</td>
                         <td className="py-2 px-2">{detail.grupEmiten}</td>
                         <td className="py-2 px-2 text-right font-mono">
                           {formatShortNumber(detail.nilaiPasarWajar)}
@@ -246,7 +250,7 @@ export function MKBDDashboard({ result }: MKBDDashboardProps) {
                 </tbody>
                 <tfoot>
                   <tr className="bg-muted/50 font-bold">
-                    <td colSpan={5} className="py-2 px-2 text-right">Total Ranking Liabilities:</td>
+                    <td colSpan={6} className="py-2 px-2 text-right">Total Ranking Liabilities:</td>
                     <td className="py-2 px-2 text-right font-mono text-red-600">
                       {formatShortNumber(result.totalRankingLiabilities)}
                     </td>
@@ -272,7 +276,7 @@ export function MKBDDashboard({ result }: MKBDDashboardProps) {
               <table className="w-full text-sm">
                 <thead>
                   <tr className="border-b">
-                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Baris</th>
+                    <th className="text-left py-2 px-2 font-medium text-muted-foreground">Sel</th>
                     <th className="text-left py-2 px-2 font-medium text-muted-foreground">Keterangan</th>
                     <th className="text-left py-2 px-2 font-medium text-muted-foreground">Kolom</th>
                     <th className="text-right py-2 px-2 font-medium text-muted-foreground">Nilai Lama</th>
@@ -283,8 +287,13 @@ export function MKBDDashboard({ result }: MKBDDashboardProps) {
                 <tbody>
                   {result.vd59Updates.map((update, idx) => (
                     <tr key={idx} className="border-b hover:bg-muted/50">
-                      <td className="py-2 px-2 font-mono">{update.rowIndex}</td>
+                      <td className="py-2 px-2 font-mono" title={update.cellAddress}>
+                        {update.cellAddress ?? update.rowIndex}
+                      </td>
                       <td className="py-2 px-2 text-xs max-w-[200px] truncate" title={update.rowDescription}>
+                        {update.line !== undefined && (
+                          <span className="font-mono text-muted-foreground mr-1">Baris {update.line}</span>
+                        )}
                         {update.rowDescription}
                       </td>
                       <td className="py-2 px-2 font-mono text-xs">{update.column}</td>
@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  AlertTriangle,
+  Check,
+  Download,
+  Loader2,
+  Pencil,
+  Plus,
+  RotateCcw,
+  Save,
+  Search,
+  Trash2,
+  Users,
+  X,
+} from 'lucide-react';
+import {
+  EmitenMaster,
+  getAllMasterData,
+  saveMasterDataVersion,
+  downloadMasterData,
+} from '@/lib/etl/masterData';
+import { validateMasterEntries } from '@/lib/etl/masterValidation';
+import { toast } from 'sonner';
+
+interface MasterDataEditorProps {
+  // Changes whenever another master version is loaded, so the editor starts over from it
+  masterDataVersion: number;
+  onSaved?: () => void;
+}
+
+type DraftEntry = EmitenMaster & { id: number };
+
+const MAX_VISIBLE_ROWS = 200;
+const MAX_LISTED_ISSUES = 8;
+
+const EDITABLE_FIELDS: { key: keyof EmitenMaster; label: string; type?: 'date'; className?: string }[] = [
+  { key: 'kode', label: 'Kode', className: 'w-24' },
+  { key: 'namaEmiten', label: 'Nama Emiten', className: 'w-56' },
+  { key: 'afiliasiUtama', label: 'Afiliasi Utama', className: 'w-44' },
+  { key: 'subAfiliasi', label: 'Sub-Afiliasi', className: 'w-40' },
+  { key: 'uboTokohKunci', label: 'UBO / Tokoh Kunci', className: 'w-40' },
+  { key: 'kategori', label: 'Kategori', className: 'w-32' },
+  { key: 'validFrom', label: 'Berlaku Dari', type: 'date', className: 'w-36' },
+  { key: 'validTo', label: 'Berlaku Sampai', type: 'date', className: 'w-36' },
+];
+
+const emptyEntry = (id: number): DraftEntry => ({
+  id,
+  kode: '',
+  namaEmiten: '',
+  afiliasiUtama: '',
+  subAfiliasi: '',
+  uboTokohKunci: '',
+  kategori: '',
+  validFrom: null,
+  validTo: null,
+});
+
+/**
+ * Master emiten management: search, add, edit, delete and regroup issuers,
+ * validate the list and save it as a new master version
+ */
+export function MasterDataEditor({ masterDataVersion, onSaved }: MasterDataEditorProps) {
+  const [drafts, setDrafts] = useState<DraftEntry[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [search, setSearch] = useState('');
+  const [issuesOnly, setIssuesOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [editing, setEditing] = useState<DraftEntry | null>(null);
+  const [bulkGroup, setBulkGroup] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const nextId = useRef(0);
+
+  const resetDrafts = () => {
+    const entries = getAllMasterData();
+    nextId.current = entries.length;
+    setDrafts(entries.map((entry, id) => ({ ...entry, id })));
+    setIsDirty(false);
+    setSelectedIds([]);
+    setEditing(null);
+  };
+
+  useEffect(() => {
+    resetDrafts();
+  }, [masterDataVersion]);
+
+  const issues = useMemo(() => validateMasterEntries(drafts), [drafts]);
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const flaggedIds = useMemo(
+    () => new Set(issues.flatMap(issue => issue.indexes.map(idx => drafts[idx]?.id))),
+    [issues, drafts]
+  );
+  const groupNames = useMemo(
+    () => [...new Set(drafts.map(d => d.afiliasiUtama.trim()).filter(Boolean))].sort(),
+    [drafts]
+  );
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return drafts.filter(entry => {
+      if (issuesOnly && !flaggedIds.has(entry.id)) return false;
+      if (!query) return true;
+      return [entry.kode, entry.namaEmiten, entry.afiliasiUtama, entry.subAfiliasi, entry.uboTokohKunci, entry.kategori]
+        .some(value => value.toLowerCase().includes(query));
+    });
+  }, [drafts, search, issuesOnly, flaggedIds]);
+  const visible = filtered.slice(0, MAX_VISIBLE_ROWS);
+
+  const updateDrafts = (update: (prev: DraftEntry[]) => DraftEntry[]) => {
+    setDrafts(update);
+    setIsDirty(true);
+  };
+
+  const handleAdd = () => {
+    const entry = emptyEntry(nextId.current++);
+    updateDrafts(prev => [entry, ...prev]);
+    setEditing(entry);
+  };
+
+  const handleCommitEdit = () => {
+    if (!editing) return;
+    const entry = { ...editing, kode: editing.kode.trim().toUpperCase() };
+    updateDrafts(prev => prev.map(d => (d.id === entry.id ? entry : d)));
+    setEditing(null);
+  };
+
+  const handleDelete = (id: number) => {
+    updateDrafts(prev => prev.filter(d => d.id !== id));
+    setSelectedIds(prev => prev.filter(i => i !== id));
+    if (editing?.id === id) setEditing(null);
+  };
+
+  const handleBulkReassign = () => {
+    const group = bulkGroup.trim();
+    if (!group || selectedIds.length === 0) return;
+    updateDrafts(prev => prev.map(d => (selectedIds.includes(d.id) ? { ...d, afiliasiUtama: group } : d)));
+    toast.success(`${selectedIds.length} emiten dipindahkan ke ${group}`);
+    setSelectedIds([]);
+    setBulkGroup('');
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(i => i !== id)));
+  };
+
+  const allVisibleSelected = visible.length > 0 && visible.every(d => selectedIds.includes(d.id));
+  const toggleAllVisible = (checked: boolean) => {
+    const ids = visible.map(d => d.id);
+    setSelectedIds(prev => (checked ? [...new Set([...prev, ...ids])] : prev.filter(i => !ids.includes(i))));
+  };
+
+  const toEntries = (): EmitenMaster[] => drafts.map(({ id: _id, ...entry }) => entry);
+
+  const handleSave = async () => {
+    if (errorCount > 0) {
+      toast.error('Perbaiki kesalahan master data sebelum menyimpan');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await saveMasterDataVersion(toEntries());
+      toast.success(`Master data versi baru disimpan: ${result.count} emiten`);
+      if (result.errors.length > 0) toast.warning(result.errors.join(', '));
+      setIsDirty(false);
+      onSaved?.();
+    } catch (error) {
+      toast.error(`Gagal menyimpan master data: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCell = (entry: DraftEntry, field: (typeof EDITABLE_FIELDS)[number]) => {
+    if (editing?.id === entry.id) {
+      return (
+        <Input
+          type={field.type ?? 'text'}
+          value={String(editing[field.key] ?? '')}
+          onChange={(e) => setEditing({ ...editing, [field.key]: e.target.value || (field.type ? null : '') })}
+          onKeyDown={(e) => e.key === 'Enter' && handleCommitEdit()}
+          className={`h-8 text-xs ${field.className ?? ''}`}
+        />
+      );
+    }
+    const value = entry[field.key];
+    return value ? String(value) : <span className="text-muted-foreground">-</span>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Kelola Master Data Emiten
+            </CardTitle>
+            <CardDescription>
+              Perubahan disimpan sebagai versi master baru dan langsung dipakai ulang untuk enrichment
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => downloadMasterData(toEntries(), 'xlsx')}>
+              <Download className="w-4 h-4" />
+              XLSX
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => downloadMasterData(toEntries(), 'csv')}>
+              <Download className="w-4 h-4" />
+              CSV
+            </Button>
+            <Button variant="ghost" size="sm" className="gap-2" disabled={!isDirty || isSaving} onClick={resetDrafts}>
+              <RotateCcw className="w-4 h-4" />
+              Batalkan Perubahan
+            </Button>
+            <Button size="sm" className="gap-2" disabled={!isDirty || isSaving || errorCount > 0} onClick={handleSave}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Simpan Versi Baru
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {issues.length > 0 && (
+          <Alert variant={errorCount > 0 ? 'destructive' : 'default'}>
+            <AlertTriangle className="w-4 h-4" />
+            <AlertTitle>{issues.length} temuan validasi</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc list-inside text-sm mt-1">
+                {issues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                  <li key={idx}>{issue.message}</li>
+                ))}
+                {issues.length > MAX_LISTED_ISSUES && (
+                  <li>... dan {issues.length - MAX_LISTED_ISSUES} temuan lainnya</li>
+                )}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center gap-3 flex-wrap">
+          <div className="relative flex-1 min-w-[220px]">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cari kode, nama, grup, UBO..."
+              className="pl-9"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="master-issues-only" checked={issuesOnly} onCheckedChange={setIssuesOnly} />
+            <Label htmlFor="master-issues-only" className="text-sm">Hanya bermasalah</Label>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={handleAdd}>
+            <Plus className="w-4 h-4" />
+            Tambah Emiten
+          </Button>
+        </div>
+
+        {selectedIds.length > 0 && (
+          <div className="flex items-center gap-2 flex-wrap rounded-lg border bg-muted/40 p-3">
+            <span className="text-sm">{selectedIds.length} emiten dipilih, pindahkan ke grup</span>
+            <Input
+              value={bulkGroup}
+              onChange={(e) => setBulkGroup(e.target.value)}
+              list="master-group-names"
+              placeholder="Nama grup"
+              className="h-9 w-56"
+            />
+            <datalist id="master-group-names">
+              {groupNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <Button size="sm" disabled={!bulkGroup.trim()} onClick={handleBulkReassign}>
+              Pindahkan
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+              Batal
+            </Button>
+          </div>
+        )}
+
+        <ScrollArea className="h-[480px] rounded-lg border">
+          <div className="min-w-max">
+            <Table>
+              <TableHeader className="sticky top-0 bg-muted/95 z-10">
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allVisibleSelected}
+                      onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                    />
+                  </TableHead>
+                  {EDITABLE_FIELDS.map(field => (
+                    <TableHead key={field.key}>{field.label}</TableHead>
+                  ))}
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(entry => {
+                  const isEditing = editing?.id === entry.id;
+                  return (
+                    <TableRow key={entry.id} className={flaggedIds.has(entry.id) ? 'bg-destructive/5' : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(entry.id)}
+                          onCheckedChange={(checked) => toggleSelected(entry.id, checked === true)}
+                        />
+                      </TableCell>
+                      {EDITABLE_FIELDS.map(field => (
+                        <TableCell key={field.key} className={`text-xs ${field.key === 'kode' ? 'font-mono' : ''}`}>
+                          {renderCell(entry, field)}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {isEditing ? (
+                            <>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCommitEdit}>
+                                <Check className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(null)}>
+                                <X className="w-4 h-4" />
+                              </Button>
+                            </>
+                          ) : (
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(entry)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(entry.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Badge variant="secondary">{drafts.length} entri</Badge>
+          {filtered.length > MAX_VISIBLE_ROWS
+            ? `Menampilkan ${MAX_VISIBLE_ROWS} dari ${filtered.length} hasil, persempit pencarian untuk melihat lainnya`
+            : `${filtered.length} hasil`}
+          {isDirty && <Badge variant="outline">Belum disimpan</Badge>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
 import { 
   Upload, 
   FileSpreadsheet, 
@@ -10,22 +11,36 @@ import {
   AlertCircle,
   Database,
   RefreshCw,
-  Loader2
+  Loader2,
+  Trash2
 } from 'lucide-react';
+import { MasterImportWizard } from './MasterImportWizard';
+import { loadMasterDataFromPublic } from '@/lib/etl/masterImport';
 import { 
-  loadMasterDataFromFile, 
-  loadMasterDataFromPublic, 
   isMasterLoaded,
   getMasterDataStats,
-  clearMasterData
+  clearMasterData,
+  getActiveMasterVersion,
+  loadActiveMasterVersion,
+  listMasterVersions,
+  activateMasterVersion,
+  deleteMasterVersion,
+  DEFAULT_MASTER_FILE_NAME,
+  MasterDataVersion,
+  MasterLoadResult
 } from '@/lib/etl/masterData';
+import { ProcessedSheet } from '@/lib/etl/types';
 import { toast } from 'sonner';
 
 interface MasterDataUploadProps {
+  // Bumped whenever master data changes elsewhere (e.g. the editor)
+  masterDataVersion?: number;
+  // Sheets of the loaded workbook, for the impact of a new master on group totals
+  sheets?: ProcessedSheet[];
   onMasterDataLoaded?: () => void;
 }
 
-export function MasterDataUpload({ onMasterDataLoaded }: MasterDataUploadProps) {
+export function MasterDataUpload({ masterDataVersion, sheets, onMasterDataLoaded }: MasterDataUploadProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const [stats, setStats] = useState<{
@@ -33,27 +48,60 @@ export function MasterDataUpload({ onMasterDataLoaded }: MasterDataUploadProps)
     uniqueGroups: number;
     categories: Record<string, number>;
   } | null>(null);
-  const [loadSource, setLoadSource] = useState<'default' | 'custom' | null>(null);
+  const [activeVersion, setActiveVersion] = useState<MasterDataVersion | null>(null);
+  const [versions, setVersions] = useState<MasterDataVersion[]>([]);
+  // File being imported through the wizard
+  const [importFile, setImportFile] = useState<File | null>(null);
 
-  // Try to load default master data on mount
+  // Restore the last active version on mount; the bundled file is the first version
   useEffect(() => {
-    if (!isMasterLoaded()) {
-      loadDefaultMasterData();
+    if (isMasterLoaded()) {
+      showLoaded(getActiveMasterVersion());
+      refreshVersions();
     } else {
-      setIsLoaded(true);
-      setStats(getMasterDataStats());
-      setLoadSource('default');
+      restoreMasterData();
     }
   }, []);
 
+  useEffect(() => {
+    if (masterDataVersion && isMasterLoaded()) {
+      showLoaded(getActiveMasterVersion());
+      refreshVersions();
+    }
+  }, [masterDataVersion]);
+
+  const showLoaded = (version: MasterDataVersion | null) => {
+    setIsLoaded(true);
+    setStats(getMasterDataStats());
+    setActiveVersion(version);
+  };
+
+  const refreshVersions = async () => {
+    setVersions(await listMasterVersions().catch(() => []));
+  };
+
+  const restoreMasterData = async () => {
+    setIsLoading(true);
+    try {
+      const version = await loadActiveMasterVersion().catch(() => null);
+      if (version) {
+        showLoaded(version);
+        onMasterDataLoaded?.();
+      } else {
+        await loadDefaultMasterData();
+      }
+    } finally {
+      setIsLoading(false);
+      refreshVersions();
+    }
+  };
+
   const loadDefaultMasterData = async () => {
     setIsLoading(true);
     try {
       const result = await loadMasterDataFromPublic();
       if (result.success) {
-        setIsLoaded(true);
-        setStats(getMasterDataStats());
-        setLoadSource('default');
+        showLoaded(result.version ?? null);
         onMasterDataLoaded?.();
       }
     } catch (error) {
@@ -63,38 +111,61 @@ export function MasterDataUpload({ onMasterDataLoaded }: MasterDataUploadProps)
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
+  const handleVersionChange = async (id: string) => {
     setIsLoading(true);
     try {
-      const result = await loadMasterDataFromFile(file);
-      
-      if (result.success) {
-        setIsLoaded(true);
-        setStats(getMasterDataStats());
-        setLoadSource('custom');
-        toast.success(`Master data berhasil dimuat: ${result.count} emiten`);
+      const version = await activateMasterVersion(id);
+      if (version) {
+        showLoaded(version);
+        toast.success(`Master data ${version.sourceFileName} (${formatVersion(version)}) diaktifkan`);
         onMasterDataLoaded?.();
       } else {
-        toast.error(result.errors.join(', '));
+        toast.error('Versi master data tidak ditemukan');
+        refreshVersions();
       }
     } catch (error) {
-      toast.error('Gagal memuat master data');
+      toast.error(`Gagal mengaktifkan versi: ${(error as Error).message}`);
     } finally {
       setIsLoading(false);
-      // Reset input
-      event.target.value = '';
     }
   };
 
+  const handleDeleteVersion = async (id: string) => {
+    try {
+      await deleteMasterVersion(id);
+      toast.success('Versi master data dihapus');
+      refreshVersions();
+    } catch (error) {
+      toast.error(`Gagal menghapus versi: ${(error as Error).message}`);
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset input so the same file can be picked again
+    event.target.value = '';
+    if (file) setImportFile(file);
+  };
+
+  const handleImported = (result: MasterLoadResult) => {
+    setImportFile(null);
+    if (result.success) {
+      showLoaded(result.version ?? null);
+      toast.success(`Master data berhasil dimuat: ${result.count} emiten`);
+      if (result.errors.length > 0) toast.warning(result.errors.join(', '));
+      onMasterDataLoaded?.();
+    } else {
+      toast.error(result.errors.join(', '));
+    }
+    refreshVersions();
+  };
+
   const handleReset = () => {
     clearMasterData();
     setIsLoaded(false);
     setStats(null);
-    setLoadSource(null);
-    loadDefaultMasterData();
+    setActiveVersion(null);
+    loadDefaultMasterData().then(refreshVersions);
   };
 
   return (
@@ -108,7 +179,7 @@ export function MasterDataUpload({ onMasterDataLoaded }: MasterDataUploadProps)
           {isLoaded && (
             <Badge variant="outline" className="gap-1">
               <CheckCircle className="w-3 h-3" />
-              {loadSource === 'default' ? 'Default' : 'Custom'}
+              {activeVersion?.sourceFileName === DEFAULT_MASTER_FILE_NAME ? 'Default' : 'Custom'}
             </Badge>
           )}
         </div>
@@ -147,12 +218,45 @@ export function MasterDataUpload({ onMasterDataLoaded }: MasterDataUploadProps)
                 </div>
               </AlertDescription>
             </Alert>
-            
+
+            {versions.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm">Versi master data</Label>
+                <div className="rounded-lg border divide-y max-h-48 overflow-y-auto">
+                  {versions.map(version => {
+                    const isActive = version.id === activeVersion?.id;
+                    return (
+                      <div key={version.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                          <div className="truncate font-medium">{version.sourceFileName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatVersion(version)} · {version.rowCount.toLocaleString()} emiten
+                          </div>
+                        </div>
+                        {isActive ? (
+                          <Badge variant="secondary">Aktif</Badge>
+                        ) : (
+                          <div className="flex gap-1">
+                            <Button variant="outline" size="sm" onClick={() => handleVersionChange(version.id)}>
+                              Aktifkan
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDeleteVersion(version.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="flex gap-2">
               <label className="flex-1">
                 <input
                   type="file"
-                  accept=".xlsx,.xls"
+                  accept=".xlsx,.xls,.csv,.json"
                   onChange={handleFileUpload}
                   className="hidden"
                 />
@@ -181,7 +285,7 @@ export function MasterDataUpload({ onMasterDataLoaded }: MasterDataUploadProps)
             <label>
               <input
                 type="file"
-                accept=".xlsx,.xls"
+                accept=".xlsx,.xls,.csv,.json"
                 onChange={handleFileUpload}
                 className="hidden"
               />
@@ -195,6 +299,15 @@ export function MasterDataUpload({ onMasterDataLoaded }: MasterDataUploadProps)
           </>
         )}
       </CardContent>
+      <MasterImportWizard file={importFile} sheets={sheets} onClose={() => setImportFile(null)} onImported={handleImported} />
     </Card>
   );
 }
+
+/**
+ * Load time of a version, with its effective date when set
+ */
+function formatVersion(version: MasterDataVersion): string {
+  const loadedAt = new Date(version.loadedAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+  return version.effectiveFrom ? `${loadedAt}, berlaku ${version.effectiveFrom}` : loadedAt;
+}
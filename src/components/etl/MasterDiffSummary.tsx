@@ -0,0 +1,113 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { GroupImpact, MasterDiff, MasterFieldChange, isMasterDiffEmpty } from '@/lib/etl/masterDiff';
+
+interface MasterDiffSummaryProps {
+  diff: MasterDiff;
+  // Null when no workbook is loaded
+  impact: GroupImpact[] | null;
+}
+
+const MAX_LISTED_CHANGES = 10;
+const MAX_LISTED_GROUPS = 8;
+
+const formatBillions = (value: number) =>
+  `${(value / 1e9).toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}B`;
+
+function ChangeList({ title, changes }: { title: string; changes: MasterFieldChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{title}</p>
+      <ul className="text-xs font-mono space-y-0.5">
+        {changes.slice(0, MAX_LISTED_CHANGES).map(change => (
+          <li key={change.kode}>
+            {change.kode}: {change.before || '(kosong)'} → {change.after || '(kosong)'}
+          </li>
+        ))}
+        {changes.length > MAX_LISTED_CHANGES && (
+          <li className="text-muted-foreground">... dan {changes.length - MAX_LISTED_CHANGES} lainnya</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Differences between the active master and the one about to replace it,
+ * with the change in group totals of the loaded workbook
+ */
+export function MasterDiffSummary({ diff, impact }: MasterDiffSummaryProps) {
+  if (isMasterDiffEmpty(diff)) {
+    return <p className="text-sm text-muted-foreground">Tidak ada perbedaan dengan master data aktif.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">+{diff.added.length} ditambah</Badge>
+        <Badge variant="secondary">-{diff.removed.length} dihapus</Badge>
+        <Badge variant="secondary">{diff.renamed.length} ganti nama</Badge>
+        <Badge variant={diff.groupChanged.length > 0 ? 'destructive' : 'secondary'}>
+          {diff.groupChanged.length} pindah grup
+        </Badge>
+        <Badge variant="secondary">{diff.kategoriChanged.length} ganti kategori</Badge>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <ChangeList title="Pindah grup" changes={diff.groupChanged} />
+        <ChangeList title="Ganti kategori" changes={diff.kategoriChanged} />
+        <ChangeList title="Ganti nama" changes={diff.renamed} />
+        {diff.added.length + diff.removed.length > 0 && (
+          <div className="space-y-1 text-xs font-mono">
+            {diff.added.length > 0 && (
+              <p>Ditambah: {diff.added.slice(0, MAX_LISTED_CHANGES).map(e => e.kode).join(', ')}
+                {diff.added.length > MAX_LISTED_CHANGES && ' ...'}</p>
+            )}
+            {diff.removed.length > 0 && (
+              <p>Dihapus: {diff.removed.slice(0, MAX_LISTED_CHANGES).map(e => e.kode).join(', ')}
+                {diff.removed.length > MAX_LISTED_CHANGES && ' ...'}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {impact && (
+        impact.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Total grup workbook yang dimuat tidak berubah.</p>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Perkiraan dampak pada total grup workbook yang dimuat</p>
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Grup</TableHead>
+                    <TableHead className="text-right">Sebelum</TableHead>
+                    <TableHead className="text-right">Sesudah</TableHead>
+                    <TableHead className="text-right">Selisih</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {impact.slice(0, MAX_LISTED_GROUPS).map(row => (
+                    <TableRow key={row.group}>
+                      <TableCell className="text-xs">{row.group}</TableCell>
+                      <TableCell className="text-xs text-right font-mono">{formatBillions(row.before)}</TableCell>
+                      <TableCell className="text-xs text-right font-mono">{formatBillions(row.after)}</TableCell>
+                      <TableCell
+                        className={`text-xs text-right font-mono ${row.delta > 0 ? 'text-destructive' : 'text-green-600'}`}
+                      >
+                        {row.delta > 0 ? '+' : ''}{formatBillions(row.delta)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
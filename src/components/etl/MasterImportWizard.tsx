@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, AlertTriangle, Loader2, Upload } from 'lucide-react';
+import {
+  MasterColumnMapping,
+  MasterField,
+  MasterImportSource,
+  MASTER_FIELD_LABELS,
+  readMasterSource,
+  suggestMasterMapping,
+  parseMasterRows,
+  loadMasterImportMapping,
+  saveMasterImportMapping,
+} from '@/lib/etl/masterImport';
+import {
+  MasterLoadResult,
+  saveMasterDataVersion,
+  getAllMasterData,
+  isMasterLoaded,
+  loadDebtIssuerMappings,
+} from '@/lib/etl/masterData';
+import { loadCodeMatchReviews } from '@/lib/etl/codeMatcher';
+import { validateMasterEntries } from '@/lib/etl/masterValidation';
+import { diffMasterData, estimateGroupImpact } from '@/lib/etl/masterDiff';
+import { CodeMatchReview, DebtIssuerMapping, ProcessedSheet } from '@/lib/etl/types';
+import { MasterDiffSummary } from './MasterDiffSummary';
+import { toast } from 'sonner';
+
+interface MasterImportWizardProps {
+  // File picked for import; the wizard is open while it is set
+  file: File | null;
+  // Sheets of the loaded workbook, to estimate the effect on their group totals
+  sheets?: ProcessedSheet[];
+  onClose: () => void;
+  onImported: (result: MasterLoadResult) => void;
+}
+
+const NOT_MAPPED = '__none__';
+const PREVIEW_ROWS = 5;
+const MAX_LISTED_ISSUES = 6;
+
+/**
+ * Import a master list from XLSX, CSV or JSON: pick the sheet, map its columns
+ * to the master fields, check the rows and review the changes against the active
+ * master before they become a new master version
+ */
+export function MasterImportWizard({ file, sheets = [], onClose, onImported }: MasterImportWizardProps) {
+  const [source, setSource] = useState<MasterImportSource | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [tableIndex, setTableIndex] = useState(0);
+  const [savedMapping, setSavedMapping] = useState<MasterColumnMapping | null>(null);
+  const [mapping, setMapping] = useState<MasterColumnMapping>({});
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  // Code reviews and debt issuer mapping the loaded sheets were matched with
+  const [codeMatchReviews, setCodeMatchReviews] = useState<CodeMatchReview[]>([]);
+  const [debtIssuerMappings, setDebtIssuerMappings] = useState<DebtIssuerMapping[]>([]);
+
+  useEffect(() => {
+    if (!file) return;
+    loadCodeMatchReviews()
+      .then(setCodeMatchReviews)
+      .catch(() => setCodeMatchReviews([]));
+    loadDebtIssuerMappings()
+      .then(setDebtIssuerMappings)
+      .catch(() => setDebtIssuerMappings([]));
+  }, [file]);
+
+  useEffect(() => {
+    if (!file) return;
+    setSource(null);
+    setReadError(null);
+    setTableIndex(0);
+    setEffectiveFrom('');
+
+    const read = async () => {
+      try {
+        const saved = await loadMasterImportMapping().catch(() => null);
+        const parsed = readMasterSource(file.name, await file.arrayBuffer());
+        if (parsed.tables.length === 0) throw new Error('file tidak berisi data');
+
+        // Start on the first table whose columns include a code column
+        const first = Math.max(0, parsed.tables.findIndex(t => suggestMasterMapping(t.headers, saved).kode));
+        setSavedMapping(saved);
+        setSource(parsed);
+        setTableIndex(first);
+        setMapping(suggestMasterMapping(parsed.tables[first].headers, saved));
+      } catch (error) {
+        setReadError(`Gagal membaca ${file.name}: ${(error as Error).message}`);
+      }
+    };
+    read();
+  }, [file]);
+
+  const table = source?.tables[tableIndex] ?? null;
+  const parsed = useMemo(() => (table ? parseMasterRows(table, mapping) : null), [table, mapping]);
+  const listIssues = useMemo(() => (parsed ? validateMasterEntries(parsed.entries) : []), [parsed]);
+  const skippedCount = parsed?.issues.filter(i => i.skipped).length ?? 0;
+  const diff = useMemo(
+    () => (parsed && isMasterLoaded() ? diffMasterData(getAllMasterData(), parsed.entries) : null),
+    [parsed]
+  );
+  const impact = useMemo(
+    () =>
+      parsed && diff && sheets.length > 0
+        ? estimateGroupImpact(sheets, parsed.entries, { codeMatchReviews, debtIssuerMappings })
+        : null,
+    [parsed, diff, sheets, codeMatchReviews, debtIssuerMappings]
+  );
+
+  const handleTableChange = (value: string) => {
+    const index = Number(value);
+    setTableIndex(index);
+    setMapping(suggestMasterMapping(source!.tables[index].headers, savedMapping));
+  };
+
+  const handleMappingChange = (field: MasterField, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header === NOT_MAPPED ? undefined : header }));
+  };
+
+  const handleImport = async () => {
+    if (!file || !parsed) return;
+    setIsImporting(true);
+    try {
+      await saveMasterImportMapping(mapping).catch(() => undefined);
+      const result = await saveMasterDataVersion(parsed.entries, file.name, effectiveFrom || null);
+      onImported(result);
+    } catch (error) {
+      toast.error(`Gagal mengimpor master data: ${(error as Error).message}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const fields = Object.keys(MASTER_FIELD_LABELS) as MasterField[];
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isImporting && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Impor Master Data</DialogTitle>
+          <DialogDescription>
+            {file?.name} — pilih sheet dan cocokkan kolom dengan field master emiten. Pemetaan kolom diingat
+            untuk impor berikutnya.
+          </DialogDescription>
+        </DialogHeader>
+
+        {readError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="w-4 h-4" />
+            <AlertTitle>File tidak dapat dibaca</AlertTitle>
+            <AlertDescription>{readError}</AlertDescription>
+          </Alert>
+        ) : !source || !table ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {source.tables.length > 1 && (
+                <div className="space-y-1">
+                  <Label className="text-sm">Sheet</Label>
+                  <Select value={String(tableIndex)} onValueChange={handleTableChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {source.tables.map((t, idx) => (
+                        <SelectItem key={t.name} value={String(idx)}>
+                          {t.name} ({t.rows.length} baris)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="master-import-effective-from" className="text-sm">Berlaku sejak (opsional)</Label>
+                <Input
+                  id="master-import-effective-from"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {/* Column mapping */}
+            <div className="grid gap-3 md:grid-cols-2">
+              {fields.map(field => (
+                <div key={field} className="flex items-center gap-2">
+                  <Label className="w-40 text-sm shrink-0">
+                    {MASTER_FIELD_LABELS[field]}
+                    {field === 'kode' && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select value={mapping[field] ?? NOT_MAPPED} onValueChange={(value) => handleMappingChange(field, value)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>(tidak ada)</SelectItem>
+                      {table.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {/* Preview */}
+            <ScrollArea className="rounded-lg border">
+              <div className="min-w-max">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Baris</TableHead>
+                      {table.headers.map(header => {
+                        const field = fields.find(f => mapping[f] === header);
+                        return (
+                          <TableHead key={header} className="text-xs">
+                            {header}
+                            {field && <Badge variant="secondary" className="ml-1 text-[10px]">{MASTER_FIELD_LABELS[field]}</Badge>}
+                          </TableHead>
+                        );
+                      })}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {table.rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                      <TableRow key={idx}>
+                        <TableCell className="font-mono text-xs">{table.firstRow + idx}</TableCell>
+                        {table.headers.map(header => (
+                          <TableCell key={header} className="text-xs">{String(row[header] ?? '')}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <ScrollBar orientation="horizontal" />
+            </ScrollArea>
+
+            {/* Validation */}
+            {!mapping.kode ? (
+              <Alert variant="destructive">
+                <AlertCircle className="w-4 h-4" />
+                <AlertTitle>Kolom kode belum dipilih</AlertTitle>
+                <AlertDescription>Pilih kolom yang berisi kode efek untuk melanjutkan.</AlertDescription>
+              </Alert>
+            ) : parsed && (
+              <Alert variant={parsed.entries.length === 0 ? 'destructive' : 'default'}>
+                <AlertTriangle className="w-4 h-4" />
+                <AlertTitle>
+                  {parsed.entries.length} emiten siap diimpor
+                  {skippedCount > 0 && `, ${skippedCount} baris dilewati`}
+                </AlertTitle>
+                {(parsed.issues.length > 0 || listIssues.length > 0) && (
+                  <AlertDescription>
+                    <ul className="list-disc list-inside text-sm mt-1">
+                      {parsed.issues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                        <li key={`row-${idx}`}>
+                          Baris {issue.row}: {issue.message}{issue.skipped ? ' (dilewati)' : ''}
+                        </li>
+                      ))}
+                      {listIssues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                        <li key={`list-${idx}`}>{issue.message}</li>
+                      ))}
+                      {(parsed.issues.length > MAX_LISTED_ISSUES || listIssues.length > MAX_LISTED_ISSUES) && (
+                        <li>... dan temuan lainnya</li>
+                      )}
+                    </ul>
+                  </AlertDescription>
+                )}
+              </Alert>
+            )}
+
+            {/* Changes against the active master */}
+            {mapping.kode && diff && (
+              <div className="space-y-2 rounded-lg border p-3">
+                <p className="text-sm font-semibold">Perubahan terhadap master data aktif</p>
+                <MasterDiffSummary diff={diff} impact={impact} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            Batal
+          </Button>
+          <Button
+            className="gap-2"
+            onClick={handleImport}
+            disabled={isImporting || !mapping.kode || !parsed || parsed.entries.length === 0}
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Impor sebagai Versi Baru
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
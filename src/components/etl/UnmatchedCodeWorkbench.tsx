@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Ban, Download, Loader2, RotateCcw, Save, SearchX } from 'lucide-react';
+import { getAllMasterData } from '@/lib/etl/masterData';
+import {
+  UnmatchedCode,
+  collectUnmatchedCodes,
+  assignUnmatchedCodes,
+  downloadUnmatchedCodes,
+  loadNonGroupCodes,
+  markNonGroupCode,
+  unmarkNonGroupCode,
+} from '@/lib/etl/unmatchedCodes';
+import { NonGroupCode, ProcessedSheet } from '@/lib/etl/types';
+import { toast } from 'sonner';
+
+interface UnmatchedCodeWorkbenchProps {
+  // Sheets of every processed workbook
+  sheets: ProcessedSheet[];
+  disabled?: boolean;
+  // A new master version was saved with the assigned codes
+  onAssigned: () => void;
+  // The set of deliberately non-group codes changed
+  onNonGroupChanged: () => void;
+}
+
+interface Draft {
+  namaEmiten: string;
+  afiliasiUtama: string;
+}
+
+const formatBillions = (value: number) =>
+  `${(value / 1e9).toLocaleString('id-ID', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}B`;
+
+/**
+ * Stock codes missing from the master across the loaded workbooks: assign them a group
+ * (saved as a new master version), keep them in Non-Grup on purpose, or export the list
+ */
+export function UnmatchedCodeWorkbench({
+  sheets,
+  disabled,
+  onAssigned,
+  onNonGroupChanged,
+}: UnmatchedCodeWorkbenchProps) {
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [nonGroupCodes, setNonGroupCodes] = useState<NonGroupCode[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const codes = useMemo(() => collectUnmatchedCodes(sheets), [sheets]);
+  // Read on every render so a newly loaded master version is offered right away
+  const groupNames = [...new Set(getAllMasterData().map(e => e.afiliasiUtama.trim()).filter(Boolean))].sort();
+  const assignments = codes
+    .filter(code => drafts[code.kode]?.afiliasiUtama.trim())
+    .map(code => ({ kode: code.kode, ...drafts[code.kode] }));
+
+  const refreshNonGroupCodes = () => {
+    loadNonGroupCodes()
+      .then(list => setNonGroupCodes(list.sort((a, b) => a.kode.localeCompare(b.kode))))
+      .catch(() => setNonGroupCodes([]));
+  };
+
+  useEffect(() => {
+    refreshNonGroupCodes();
+  }, []);
+
+  const draftFor = (code: UnmatchedCode): Draft => drafts[code.kode] ?? { namaEmiten: code.namaEfek, afiliasiUtama: '' };
+
+  const updateDraft = (code: UnmatchedCode, change: Partial<Draft>) => {
+    setDrafts(prev => ({ ...prev, [code.kode]: { ...draftFor(code), ...change } }));
+  };
+
+  const handleSave = async () => {
+    if (assignments.length === 0) return;
+    setIsSaving(true);
+    try {
+      const result = await assignUnmatchedCodes(assignments);
+      toast.success(`${assignments.length} kode ditambahkan ke master data (${result.count} emiten)`);
+      if (result.errors.length > 0) toast.warning(result.errors.join(', '));
+      setDrafts({});
+      onAssigned();
+    } catch (error) {
+      toast.error(`Gagal menyimpan penetapan grup: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleNonGroup = async (kode: string, mark: boolean) => {
+    try {
+      if (mark) {
+        await markNonGroupCode(kode);
+        toast.success(`${kode} ditandai sebagai Non-Grup`);
+      } else {
+        await unmarkNonGroupCode(kode);
+        toast.success(`Tanda Non-Grup ${kode} dihapus`);
+      }
+      refreshNonGroupCodes();
+      onNonGroupChanged();
+    } catch (error) {
+      toast.error(`Gagal menyimpan tanda Non-Grup: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SearchX className="w-5 h-5" />
+              Kode Efek Tidak Cocok
+            </CardTitle>
+            <CardDescription>
+              Kode yang tidak ditemukan di master data pada semua sheet yang dimuat
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={codes.length === 0}
+              onClick={() => downloadUnmatchedCodes(codes, 'xlsx')}
+            >
+              <Download className="w-4 h-4" />
+              XLSX
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={codes.length === 0}
+              onClick={() => downloadUnmatchedCodes(codes, 'csv')}
+            >
+              <Download className="w-4 h-4" />
+              CSV
+            </Button>
+            <Button
+              size="sm"
+              className="gap-2"
+              disabled={assignments.length === 0 || isSaving || disabled}
+              onClick={handleSave}
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Simpan Penetapan{assignments.length > 0 && ` (${assignments.length})`}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {codes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {sheets.length === 0
+              ? 'Belum ada workbook yang diproses.'
+              : 'Semua kode efek ditemukan di master data.'}
+          </p>
+        ) : (
+          <ScrollArea className="h-[420px] rounded-lg border">
+            <Table>
+              <TableHeader className="sticky top-0 bg-muted/95 z-10">
+                <TableRow>
+                  <TableHead>Kode</TableHead>
+                  <TableHead className="w-16">Baris</TableHead>
+                  <TableHead className="text-right">Nilai Pasar</TableHead>
+                  <TableHead>Sheet</TableHead>
+                  <TableHead>Nama Emiten</TableHead>
+                  <TableHead>Afiliasi Utama</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {codes.map(code => {
+                  const draft = draftFor(code);
+                  return (
+                    <TableRow key={code.kode}>
+                      <TableCell className="font-mono text-xs">{code.kode}</TableCell>
+                      <TableCell className="font-mono text-xs">{code.occurrences}</TableCell>
+                      <TableCell className="font-mono text-xs text-right">{formatBillions(code.marketValue)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {code.locations.map(location => (
+                            <Badge
+                              key={`${location.fileName}|${location.sheetName}`}
+                              variant="outline"
+                              className="text-xs"
+                              title={location.fileName}
+                            >
+                              {location.sheetName} ({location.occurrences})
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.namaEmiten}
+                          onChange={(e) => updateDraft(code, { namaEmiten: e.target.value })}
+                          className="h-8 text-xs w-48"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={draft.afiliasiUtama}
+                          onChange={(e) => updateDraft(code, { afiliasiUtama: e.target.value })}
+                          list="unmatched-group-names"
+                          placeholder="Pilih atau ketik grup"
+                          className="h-8 text-xs w-44"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1"
+                          disabled={disabled}
+                          onClick={() => handleToggleNonGroup(code.kode, true)}
+                        >
+                          <Ban className="w-4 h-4" />
+                          Non-Grup
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <datalist id="unmatched-group-names">
+              {groupNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </ScrollArea>
+        )}
+
+        {nonGroupCodes.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Ditandai Non-Grup ({nonGroupCodes.length})</p>
+            <div className="flex flex-wrap gap-2">
+              {nonGroupCodes.map(({ kode }) => (
+                <Badge key={kode} variant="secondary" className="gap-1 font-mono">
+                  {kode}
+                  <button
+                    type="button"
+                    className="ml-1 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                    title="Hapus tanda Non-Grup"
+                    disabled={disabled}
+                    onClick={() => handleToggleNonGroup(kode, false)}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
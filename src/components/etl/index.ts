@@ -6,3 +6,8 @@ export { MasterDataUpload } from './MasterDataUpload';
 export { ExcelStylePreview } from './ExcelStylePreview';
 export { FormulaEditor } from './FormulaEditor';
 export { MKBDDashboard } from './MKBDDashboard';
+export { BatchQueue } from './BatchQueue';
+export { ExtractionProfileManager } from './ExtractionProfileManager';
+export { CleaningLogView } from './CleaningLogView';
+export { CleaningRulesSettings } from './CleaningRulesSettings';
+export { HeaderRowPicker } from './HeaderRowPicker';
@@ -0,0 +1,148 @@
+// Batch Processor - Queues many workbooks and runs them one at a time
+import {
+  BatchItem,
+  BatchSummary,
+  ExtractOptions,
+  ETLProgress,
+  ExtractionProfile,
+  CleaningRuleSet,
+  HeaderRowOverride,
+  CodeMatchReview,
+  GroupLevel,
+  DebtIssuerMapping,
+} from './types';
+import { extractInWorker } from './workerClient';
+import { isCancelledError } from './extractor';
+import { calculateMKBD } from './mkbdCalculator';
+
+const EXCEL_FILE_PATTERN = /\.xlsx?$/i;
+
+/**
+ * Check if a file is an Excel workbook by extension
+ */
+export function isExcelFile(file: File): boolean {
+  return EXCEL_FILE_PATTERN.test(file.name);
+}
+
+/**
+ * Create queue entries for the given files, sorted by name so daily reports run in date order
+ */
+export function createBatchItems(files: File[]): BatchItem[] {
+  return [...files]
+    .filter(isExcelFile)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .map((file, idx) => ({
+      id: `${Date.now()}_${idx}_${file.name}`,
+      file,
+      status: 'queued',
+      etlResult: null,
+      mkbdResult: null,
+      error: null,
+    }));
+}
+
+/**
+ * Count queue entries per status
+ */
+export function summarizeBatch(items: BatchItem[]): BatchSummary {
+  return {
+    total: items.length,
+    queued: items.filter(i => i.status === 'queued' || i.status === 'processing').length,
+    processed: items.filter(i => i.status === 'processed').length,
+    failed: items.filter(i => i.status === 'failed').length,
+    cancelled: items.filter(i => i.status === 'cancelled').length,
+    withWarnings: items.filter(i => (i.etlResult?.warnings.length ?? 0) > 0).length,
+  };
+}
+
+export interface BatchRunOptions {
+  signal?: AbortSignal;
+  profiles?: ExtractionProfile[];
+  cleaningRules?: CleaningRuleSet[];
+  headerOverrides?: HeaderRowOverride[];
+  codeMatchReviews?: CodeMatchReview[];
+  nonGroupCodes?: string[];
+  groupLevel?: GroupLevel;
+  debtIssuerMappings?: DebtIssuerMapping[];
+  onItemUpdate?: (item: BatchItem) => void;
+  onProgress?: (item: BatchItem, progress: ETLProgress) => void;
+}
+
+/**
+ * Process queued items sequentially. A failing file does not stop the queue;
+ * aborting the signal marks the current and remaining files as cancelled.
+ */
+export async function runBatch(items: BatchItem[], options: BatchRunOptions = {}): Promise<BatchItem[]> {
+  const {
+    signal,
+    profiles,
+    cleaningRules,
+    headerOverrides,
+    codeMatchReviews,
+    nonGroupCodes,
+    groupLevel,
+    debtIssuerMappings,
+    onItemUpdate,
+    onProgress,
+  } = options;
+  const results: BatchItem[] = [];
+
+  const update = (item: BatchItem) => {
+    onItemUpdate?.(item);
+    return item;
+  };
+
+  for (const item of items) {
+    if (item.status !== 'queued') {
+      results.push(item);
+      continue;
+    }
+
+    if (signal?.aborted) {
+      results.push(update({ ...item, status: 'cancelled' }));
+      continue;
+    }
+
+    update({ ...item, status: 'processing' });
+
+    const extractOptions: ExtractOptions = {
+      signal,
+      profiles,
+      cleaningRules,
+      headerOverrides,
+      codeMatchReviews,
+      nonGroupCodes,
+      groupLevel,
+      debtIssuerMappings,
+      onProgress: progress => onProgress?.(item, progress),
+    };
+
+    try {
+      const etlResult = await extractInWorker(item.file, extractOptions);
+      const mkbdResult = etlResult.success && etlResult.sheets.length > 0
+        ? calculateMKBD(etlResult.sheets)
+        : null;
+
+      results.push(update({
+        ...item,
+        status: etlResult.success ? 'processed' : 'failed',
+        etlResult,
+        mkbdResult,
+        error: etlResult.success ? null : etlResult.errors.join(', '),
+      }));
+    } catch (error) {
+      if (isCancelledError(error)) {
+        results.push(update({ ...item, status: 'cancelled' }));
+        continue;
+      }
+      console.error(`ETL Error (${item.file.name}):`, error);
+      results.push(update({
+        ...item,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Terjadi kesalahan saat memproses file',
+      }));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { cleanData, restoreRemovedRows } from './cleaner';
+import { ProcessedSheet } from './types';
+
+const HEADERS = ['Uraian', 'Kode', 'Nilai', 'Kosong'];
+
+const ROWS: Record<string, unknown>[] = [
+  { Uraian: 'Saham A', Kode: 'AAAA', Nilai: 100, Kosong: null, _sourceRow: 10 },
+  { Uraian: null, Kode: null, Nilai: null, Kosong: null, _sourceRow: 11 },
+  { Uraian: 'Saham B', Kode: 'BBBB', Nilai: 200, Kosong: null, _sourceRow: 12 },
+  { Uraian: 'Catatan: baris baru dapat ditambahkan', Kode: null, Nilai: null, Kosong: null, _sourceRow: 13 },
+  { Uraian: 'Catatan: nilai dikoreksi', Kode: 'CCCC', Nilai: 50, Kosong: null, _sourceRow: 14 },
+];
+
+describe('cleanData', () => {
+  const result = cleanData(ROWS, HEADERS);
+
+  it('logs every removed row with its rule and source row', () => {
+    expect(result.cleanedData.map(r => r._sourceRow)).toEqual([10, 12, 14]);
+    expect(result.log.removedRows.map(r => [r.rule, r.sourceRow])).toEqual([
+      ['empty-row', 11],
+      ['junk-keyword', 13],
+    ]);
+    expect(result.log.removedRows[1].row).toBe(ROWS[3]);
+  });
+
+  it('keeps rows holding amounts whatever their text says', () => {
+    expect(result.cleanedData.find(r => r._sourceRow === 14)?.Kode).toBe('CCCC');
+  });
+
+  it('logs removed columns and drops them from the rows, keeping metadata', () => {
+    expect(result.removedColumns).toEqual(['Kosong']);
+    expect(result.log.removedColumns[0]).toMatchObject({ header: 'Kosong', rule: 'empty-column', values: [] });
+    expect(Object.keys(result.cleanedData[0])).toEqual(['Uraian', 'Kode', 'Nilai', '_sourceRow']);
+  });
+});
+
+describe('restoreRemovedRows', () => {
+  const removedRow = { Uraian: 'Reverse repo', Kode: 'RRPO', Nilai: '1.500', Kosong: 'x', _sourceRow: 11 };
+
+  function cleanedSheet(): ProcessedSheet {
+    return {
+      sheetName: 'VD510',
+      headers: ['Uraian', 'Kode', 'Nilai'],
+      columnSchema: {
+        Uraian: { header: 'Uraian', type: 'text', confidence: 1, mismatchCount: 0 },
+        Nilai: { header: 'Nilai', type: 'number', confidence: 1, mismatchCount: 0 },
+      },
+      data: [
+        { Uraian: 'Saham A', Kode: 'AAAA', Nilai: 100, _sourceRow: 10 },
+        { Uraian: 'Saham B', Kode: 'BBBB', Nilai: 200, _sourceRow: 12 },
+      ],
+      cleaningLog: {
+        removedRows: [
+          { id: 1, rule: 'low-fill-row', reason: 'test', sourceRow: 11, row: removedRow },
+          { id: 3, rule: 'junk-keyword', reason: 'test', sourceRow: 13, row: { Uraian: 'Catatan:', _sourceRow: 13 } },
+        ],
+        removedColumns: [],
+      },
+      metadata: { fileName: 'laporan.xlsx', uploadDate: '2024-12-31T10:00:00.000Z', cleanedRowCount: 2 },
+    } as unknown as ProcessedSheet;
+  }
+
+  it('puts rows back in Excel row order, typed like their column', () => {
+    const restored = restoreRemovedRows(cleanedSheet(), [1]);
+
+    expect(restored.data.map(r => r.Kode)).toEqual(['AAAA', 'RRPO', 'BBBB']);
+    expect(restored.data[1]).toEqual({
+      Uraian: 'Reverse repo',
+      Kode: 'RRPO',
+      Nilai: 1500,
+      _sourceRow: 11,
+      _fileName: 'laporan.xlsx',
+      _uploadDate: '2024-12-31T10:00:00.000Z',
+    });
+  });
+
+  it('drops restored rows from the cleaning log and counts them as kept', () => {
+    const restored = restoreRemovedRows(cleanedSheet(), [1]);
+
+    expect(restored.cleaningLog.removedRows.map(r => r.id)).toEqual([3]);
+    expect(restored.metadata.cleanedRowCount).toBe(3);
+  });
+
+  it('leaves the sheet untouched for unknown ids', () => {
+    const sheet = cleanedSheet();
+    expect(restoreRemovedRows(sheet, [99])).toBe(sheet);
+  });
+});
@@ -1,170 +1,199 @@
 // Data Cleaner - Removes junk rows, empty columns, and footer text
+import { CleaningLog, CleaningRule, CleaningRuleSet, ProcessedSheet, RemovedColumn } from './types';
+import { isMetadataField, getSourceRow } from './provenance';
+import { coerceValue, parseStrictNumber } from './columnSchema';
+import { DEFAULT_CLEANING_RULES, matchesKeyword } from './cleaningRules';
 
 export interface CleaningResult {
   cleanedData: Record<string, unknown>[];
   removedRows: number;
   removedColumns: string[];
   warnings: string[];
+  log: CleaningLog;
 }
 
-// Keywords that indicate junk rows (footer, notes, etc.)
-const JUNK_KEYWORDS = [
-  'apabila diperlukan',
-  'baris baru dapat ditambahkan',
-  'catatan:',
-  'note:',
-  '*)',
-  '**)',
-  '***)',
-  '****)',
-  '*****)',
-  'peringatan:',
-  'keterangan:',
-  'halaman',
-  'page',
-  'dicetak pada',
-  'printed on',
-];
-
-// Keywords that indicate header/title rows to skip
-const HEADER_KEYWORDS = [
-  'perusahaan efek',
-  'tanggal',
-  'direktur',
-  'formulir',
-];
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function hasNonZeroNumber(values: unknown[]): boolean {
+  return values.some(v => {
+    const num = parseStrictNumber(v);
+    return num !== null && num !== 0;
+  });
+}
 
 export function cleanData(
   data: Record<string, unknown>[],
-  headers: string[]
+  headers: string[],
+  rules: CleaningRuleSet = DEFAULT_CLEANING_RULES
 ): CleaningResult {
   const warnings: string[] = [];
-  let removedRows = 0;
+  const log: CleaningLog = { removedRows: [], removedColumns: [] };
+
+  const removeRow = (row: Record<string, unknown>, id: number, rule: CleaningRule, reason: string) => {
+    log.removedRows.push({ id, rule, reason, sourceRow: getSourceRow(row), row });
+  };
 
   // Step 1: Remove mostly empty columns
-  const { filteredHeaders, columnsToRemove } = removeEmptyColumns(data, headers);
+  const { filteredHeaders, removedColumns } = removeEmptyColumns(data, headers, rules);
+  log.removedColumns = removedColumns;
+  const columnsToRemove = removedColumns.map(c => c.header);
   
   // Step 2: Remove junk and empty rows
   const cleanedData = data.filter((row, index) => {
+    // Metadata fields (_sourceRow, ...) are not part of the form content
+    const values = Object.entries(row)
+      .filter(([key]) => !isMetadataField(key))
+      .map(([, v]) => v);
+
     // Check if row is mostly empty
-    const nonEmptyValues = Object.values(row).filter(
-      (v) => v !== null && v !== undefined && String(v).trim() !== ''
-    );
+    const nonEmptyValues = values.filter(v => !isEmptyValue(v));
     
     if (nonEmptyValues.length === 0) {
-      removedRows++;
+      removeRow(row, index, 'empty-row', 'Baris kosong');
       return false;
     }
 
-    // Check if row is less than 10% filled (likely a junk row)
+    // Rows holding amounts are kept whatever the other rules say
+    if (rules.protectNumericRows && hasNonZeroNumber(nonEmptyValues)) return true;
+
+    // Check if row is barely filled (likely a junk row)
     const fillRatio = nonEmptyValues.length / filteredHeaders.length;
-    if (fillRatio < 0.1 && filteredHeaders.length > 5) {
-      removedRows++;
+    if (fillRatio < rules.minRowFillRatio && filteredHeaders.length > rules.minRowFillColumns) {
+      removeRow(
+        row,
+        index,
+        'low-fill-row',
+        `Hanya ${nonEmptyValues.length} dari ${filteredHeaders.length} kolom terisi ` +
+        `(< ${Math.round(rules.minRowFillRatio * 100)}%)`
+      );
       return false;
     }
 
     // Check for junk keywords
-    const rowText = Object.values(row)
+    const rowText = values
       .filter((v) => typeof v === 'string')
-      .join(' ')
-      .toLowerCase();
-
-    for (const keyword of JUNK_KEYWORDS) {
-      if (rowText.includes(keyword.toLowerCase())) {
-        removedRows++;
-        warnings.push(`Baris ${index + 1} dihapus (mengandung: "${keyword}")`);
-        return false;
-      }
+      .join(' ');
+
+    const keyword = rules.junkKeywords.find(rule => matchesKeyword(rowText, rule));
+    if (keyword) {
+      removeRow(row, index, 'junk-keyword', `Mengandung "${keyword.pattern}"`);
+      warnings.push(`Baris ${getSourceRow(row) ?? index + 1} dihapus (mengandung: "${keyword.pattern}")`);
+      return false;
     }
 
     return true;
   });
 
-  // Step 3: Remove columns that were identified as empty
+  // Step 3: Remove columns that were identified as empty, keeping row metadata
   const finalData = cleanedData.map((row) => {
     const newRow: Record<string, unknown> = {};
     for (const header of filteredHeaders) {
-      if (!columnsToRemove.includes(header)) {
-        newRow[header] = row[header];
-      }
+      newRow[header] = row[header];
+    }
+    for (const key of Object.keys(row)) {
+      if (isMetadataField(key)) newRow[key] = row[key];
     }
     return newRow;
   });
 
   return {
     cleanedData: finalData,
-    removedRows,
+    removedRows: log.removedRows.length,
     removedColumns: columnsToRemove,
     warnings,
+    log,
   };
 }
 
 function removeEmptyColumns(
   data: Record<string, unknown>[],
-  headers: string[]
-): { filteredHeaders: string[]; columnsToRemove: string[] } {
-  const columnsToRemove: string[] = [];
+  headers: string[],
+  rules: CleaningRuleSet
+): { filteredHeaders: string[]; removedColumns: RemovedColumn[] } {
+  const removedColumns: RemovedColumn[] = [];
   const filteredHeaders: string[] = [];
 
   for (const header of headers) {
     // Skip columns with "Unnamed" prefix if they're mostly empty
     const isUnnamed = header.startsWith('Unnamed_');
     
-    // Count non-empty values in this column
-    const nonEmptyCount = data.filter((row) => {
-      const value = row[header];
-      return value !== null && value !== undefined && String(value).trim() !== '';
-    }).length;
-
-    const fillRatio = data.length > 0 ? nonEmptyCount / data.length : 0;
-
-    // Remove columns that are:
-    // 1. Unnamed AND less than 20% filled, OR
-    // 2. Less than 5% filled for any column
-    if ((isUnnamed && fillRatio < 0.2) || fillRatio < 0.05) {
-      columnsToRemove.push(header);
+    // Non-empty values in this column, kept for the cleaning log
+    const values = data
+      .filter(row => !isEmptyValue(row[header]))
+      .map(row => ({ sourceRow: getSourceRow(row), value: row[header] }));
+
+    const fillRatio = data.length > 0 ? values.length / data.length : 0;
+
+    // Remove columns that are barely filled, with a higher bar for unnamed columns
+    const percentOf = (ratio: number) => `${Math.round(ratio * 100)}%`;
+    const percent = percentOf(fillRatio);
+    if (fillRatio < rules.minColumnFillRatio) {
+      removedColumns.push({
+        header,
+        rule: 'empty-column',
+        reason: `Hanya ${percent} sel terisi (< ${percentOf(rules.minColumnFillRatio)})`,
+        values,
+      });
+    } else if (isUnnamed && fillRatio < rules.minUnnamedColumnFillRatio) {
+      removedColumns.push({
+        header,
+        rule: 'empty-column',
+        reason: `Kolom tanpa nama, hanya ${percent} sel terisi (< ${percentOf(rules.minUnnamedColumnFillRatio)})`,
+        values,
+      });
     } else {
       filteredHeaders.push(header);
     }
   }
 
-  return { filteredHeaders, columnsToRemove };
+  return { filteredHeaders, removedColumns };
 }
 
-export function isHeaderRow(row: unknown[]): boolean {
-  const rowText = row
-    .filter((v) => typeof v === 'string')
-    .join(' ')
-    .toLowerCase();
-
-  for (const keyword of HEADER_KEYWORDS) {
-    if (rowText.includes(keyword)) {
-      return true;
+/**
+ * Put removed rows back into a sheet, in Excel row order, and drop them from its cleaning log.
+ * Restored values are typed like the rest of their column; removed columns stay removed.
+ */
+export function restoreRemovedRows(sheet: ProcessedSheet, ids: number[]): ProcessedSheet {
+  const toRestore = sheet.cleaningLog.removedRows.filter(r => ids.includes(r.id));
+  if (toRestore.length === 0) return sheet;
+
+  const data = [...sheet.data];
+  for (const removed of toRestore) {
+    const row: Record<string, unknown> = {};
+    for (const header of sheet.headers) {
+      if (isMetadataField(header)) continue;
+      const schema = sheet.columnSchema[header];
+      const value = removed.row[header] ?? null;
+      row[header] = schema ? coerceValue(value, schema.type, header).value : value;
+    }
+    for (const [key, value] of Object.entries(removed.row)) {
+      if (isMetadataField(key)) row[key] = value;
     }
+    row._fileName = sheet.metadata.fileName;
+    row._uploadDate = sheet.metadata.uploadDate;
+
+    const sourceRow = removed.sourceRow ?? Infinity;
+    const insertAt = data.findIndex(r => (getSourceRow(r) ?? Infinity) > sourceRow);
+    data.splice(insertAt === -1 ? data.length : insertAt, 0, row);
   }
 
-  return false;
+  return {
+    ...sheet,
+    data,
+    cleaningLog: {
+      ...sheet.cleaningLog,
+      removedRows: sheet.cleaningLog.removedRows.filter(r => !ids.includes(r.id)),
+    },
+    metadata: { ...sheet.metadata, cleanedRowCount: sheet.metadata.cleanedRowCount + toRestore.length },
+  };
 }
 
-export function findDataStartRow(rows: unknown[][], maxRowsToCheck = 15): number {
-  // Skip letterhead/header rows and find where actual data starts
-  for (let i = 0; i < Math.min(rows.length, maxRowsToCheck); i++) {
-    const row = rows[i];
-    
-    // Check if this row contains typical header patterns (A, B, C... or numbers like 6, 7, 8...)
-    const firstFewCells = row.slice(0, 5).map((c) => String(c ?? '').trim());
-    
-    // Look for column indicator rows (typically row with A, B, C or single digits)
-    const hasColumnIndicators = firstFewCells.some(
-      (c) => /^[A-Za-z]$/.test(c) || /^[0-9]$/.test(c)
-    );
-    
-    if (hasColumnIndicators && i > 3) {
-      // The actual header is likely the next row
-      return i + 1;
-    }
-  }
+export function isHeaderRow(row: unknown[], rules: CleaningRuleSet = DEFAULT_CLEANING_RULES): boolean {
+  const rowText = row
+    .filter((v) => typeof v === 'string')
+    .join(' ');
 
-  // Default: skip first 6 rows (letterhead area)
-  return 6;
+  return rules.headerKeywords.some(rule => matchesKeyword(rowText, rule));
 }
@@ -0,0 +1,186 @@
+// Cleaning Rules - Keyword, fill-ratio and protection rules for cleanData, per form type
+import { z } from 'zod';
+import { CleaningRuleSet, KeywordRule, MKBDFormType, ProcessedSheet, RemovedRow, ETLResult } from './types';
+import { getSettingsDatabase, CLEANING_RULES_STORE } from './settingsDb';
+
+export const CLEANING_RULE_SCOPES: CleaningRuleSet['scope'][] = ['DEFAULT', 'VD51', 'VD52', 'VD59', 'VD510', 'UNKNOWN'];
+
+const keyword = (pattern: string, mode: KeywordRule['mode'] = 'substring'): KeywordRule => ({
+  pattern,
+  mode,
+  enabled: true,
+});
+
+// Built-in rules; "halaman" and "page" only match as whole words so "Pagelaran" rows survive
+export const DEFAULT_CLEANING_RULES: CleaningRuleSet = {
+  scope: 'DEFAULT',
+  junkKeywords: [
+    keyword('apabila diperlukan'),
+    keyword('baris baru dapat ditambahkan'),
+    keyword('catatan:'),
+    keyword('note:'),
+    keyword('*)'),
+    keyword('peringatan:'),
+    keyword('keterangan:'),
+    keyword('halaman', 'word'),
+    keyword('page', 'word'),
+    keyword('dicetak pada'),
+    keyword('printed on'),
+  ],
+  headerKeywords: [
+    keyword('perusahaan efek'),
+    keyword('tanggal'),
+    keyword('direktur'),
+    keyword('formulir'),
+  ],
+  minRowFillRatio: 0.1,
+  minRowFillColumns: 5,
+  minColumnFillRatio: 0.05,
+  minUnnamedColumnFillRatio: 0.2,
+  protectNumericRows: true,
+};
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const keywordRuleSchema = z
+  .object({
+    pattern: z.string().min(1, 'Kata kunci tidak boleh kosong'),
+    mode: z.enum(['substring', 'word', 'regex']),
+    enabled: z.boolean().default(true),
+  })
+  .refine(rule => rule.mode !== 'regex' || isValidRegex(rule.pattern), {
+    message: 'Regex tidak valid',
+    path: ['pattern'],
+  });
+
+const ratio = z.number().min(0, 'Rasio minimal 0').max(1, 'Rasio maksimal 1');
+
+export const cleaningRuleSetSchema = z.object({
+  scope: z.enum(['DEFAULT', 'VD51', 'VD52', 'VD59', 'VD510', 'UNKNOWN']),
+  junkKeywords: z.array(keywordRuleSchema),
+  headerKeywords: z.array(keywordRuleSchema),
+  minRowFillRatio: ratio,
+  minRowFillColumns: z.number().int().min(0),
+  minColumnFillRatio: ratio,
+  minUnnamedColumnFillRatio: ratio,
+  protectNumericRows: z.boolean(),
+  updatedAt: z.string().optional(),
+});
+
+/**
+ * Validate a rule set, returning readable errors per field
+ */
+export function validateCleaningRules(input: unknown): { ruleSet: CleaningRuleSet | null; errors: string[] } {
+  const parsed = cleaningRuleSetSchema.safeParse(input);
+  if (parsed.success) return { ruleSet: parsed.data as CleaningRuleSet, errors: [] };
+  return {
+    ruleSet: null,
+    errors: parsed.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    ),
+  };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Test a keyword rule against a row's text (case-insensitive)
+ */
+export function matchesKeyword(text: string, rule: KeywordRule): boolean {
+  if (!rule.enabled) return false;
+  switch (rule.mode) {
+    case 'word':
+      return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegex(rule.pattern)}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+    case 'regex':
+      return isValidRegex(rule.pattern) && new RegExp(rule.pattern, 'i').test(text);
+    default:
+      return text.toLowerCase().includes(rule.pattern.toLowerCase());
+  }
+}
+
+/**
+ * Rule set for a form: its own set, else the saved DEFAULT set, else the built-in rules
+ */
+export function selectCleaningRules(ruleSets: CleaningRuleSet[] = [], formType: MKBDFormType): CleaningRuleSet {
+  return ruleSets.find(r => r.scope === formType)
+    ?? ruleSets.find(r => r.scope === 'DEFAULT')
+    ?? DEFAULT_CLEANING_RULES;
+}
+
+// ============ IndexedDB ============
+
+/**
+ * Saved rule sets; entries that no longer validate are skipped
+ */
+export async function loadCleaningRules(): Promise<CleaningRuleSet[]> {
+  const db = await getSettingsDatabase();
+  const stored = await db.getAll(CLEANING_RULES_STORE);
+  return stored
+    .map(entry => validateCleaningRules(entry).ruleSet)
+    .filter((ruleSet): ruleSet is CleaningRuleSet => ruleSet !== null);
+}
+
+export async function saveCleaningRules(ruleSet: CleaningRuleSet): Promise<void> {
+  const { ruleSet: valid, errors } = validateCleaningRules(ruleSet);
+  if (!valid) throw new Error(errors.join('; '));
+  const db = await getSettingsDatabase();
+  await db.put(CLEANING_RULES_STORE, { ...valid, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * Drop the saved set of a scope, so the form falls back to DEFAULT / built-in rules
+ */
+export async function deleteCleaningRules(scope: CleaningRuleSet['scope']): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.delete(CLEANING_RULES_STORE, scope);
+}
+
+// ============ Preview ============
+
+export interface CleaningPreview {
+  sheetName: string;
+  // Rows that would additionally be removed / kept with the new rules
+  newlyRemoved: RemovedRow[];
+  newlyKept: RemovedRow[];
+  newlyRemovedColumns: string[];
+  newlyKeptColumns: string[];
+}
+
+const rowKey = (row: RemovedRow) => row.sourceRow ?? `#${row.id}`;
+
+function compareSheet(before: ProcessedSheet | undefined, after: ProcessedSheet): CleaningPreview {
+  const beforeRows = before?.cleaningLog.removedRows ?? [];
+  const beforeKeys = new Set(beforeRows.map(rowKey));
+  const afterKeys = new Set(after.cleaningLog.removedRows.map(rowKey));
+  const beforeColumns = before?.cleaningLog.removedColumns.map(c => c.header) ?? [];
+  const afterColumns = after.cleaningLog.removedColumns.map(c => c.header);
+
+  return {
+    sheetName: after.sheetName,
+    newlyRemoved: after.cleaningLog.removedRows.filter(r => !beforeKeys.has(rowKey(r))),
+    newlyKept: beforeRows.filter(r => !afterKeys.has(rowKey(r))),
+    newlyRemovedColumns: afterColumns.filter(c => !beforeColumns.includes(c)),
+    newlyKeptColumns: beforeColumns.filter(c => !afterColumns.includes(c)),
+  };
+}
+
+/**
+ * What changing the rules would do to a workbook: compare its current extraction
+ * with one made under the new rules, sheet by sheet
+ */
+export function compareCleaningResults(current: ETLResult, proposed: ETLResult): CleaningPreview[] {
+  return proposed.sheets
+    .map(sheet => compareSheet(current.sheets.find(s => s.sheetName === sheet.sheetName), sheet))
+    .filter(p =>
+      p.newlyRemoved.length + p.newlyKept.length + p.newlyRemovedColumns.length + p.newlyKeptColumns.length > 0
+    );
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createCodeMatcher, nameSimilarity, normalizeIssuerName } from './codeMatcher';
+import { EmitenMaster, clearMasterData, createDebtIssuerLookup, setMasterData } from './masterData';
+import { DebtIssuerMapping } from './types';
+
+const emiten = (kode: string, namaEmiten: string, extra: Partial<EmitenMaster> = {}): EmitenMaster => ({
+  kode,
+  namaEmiten,
+  afiliasiUtama: '',
+  subAfiliasi: '',
+  uboTokohKunci: '',
+  kategori: '',
+  validFrom: null,
+  validTo: null,
+  ...extra,
+});
+
+const mapping = (kodeEfek: string, kodeEmiten: string): DebtIssuerMapping => ({
+  kodeEfek,
+  kodeEmiten,
+  namaInstrumen: '',
+  jenis: '',
+});
+
+const MASTER = [
+  emiten('BBCA', 'PT Bank Central Asia Tbk'),
+  emiten('BBRI', 'PT Bank Rakyat Indonesia (Persero) Tbk'),
+  emiten('ANTM', 'PT Aneka Tambang Tbk'),
+  emiten('BUMI', 'PT Bumi Resources Tbk'),
+];
+
+describe('normalizeIssuerName and nameSimilarity', () => {
+  it('ignores case and legal-form words', () => {
+    expect(normalizeIssuerName('PT Bank Rakyat Indonesia (Persero) Tbk')).toBe('bank rakyat indonesia');
+    expect(nameSimilarity('bank central asia', 'bank central asia')).toBe(1);
+    expect(nameSimilarity('bank central asia', 'aneka tambang')).toBeLessThan(0.5);
+    expect(nameSimilarity('', 'aneka tambang')).toBe(0);
+  });
+});
+
+describe('createCodeMatcher', () => {
+  beforeEach(() => {
+    setMasterData(MASTER);
+    return () => clearMasterData();
+  });
+
+  it('resolves codes by method, with the score of each method', () => {
+    const match = createCodeMatcher();
+    const resolved = (code: string, name?: string) => {
+      const result = match(code, name);
+      return result && { kode: result.emiten.kode, method: result.method, score: result.score };
+    };
+
+    expect(resolved(' bbca ')).toEqual({ kode: 'BBCA', method: 'exact', score: 1 });
+    expect(resolved('BBCA.JK')).toEqual({ kode: 'BBCA', method: 'suffix', score: 0.95 });
+    expect(resolved('BBRI-W2')).toEqual({ kode: 'BBRI', method: 'derivative', score: 0.9 });
+    expect(resolved('ANTM01A')).toEqual({ kode: 'ANTM', method: 'series', score: 0.85 });
+    expect(resolved('BBCA - PT Bank Central Asia Tbk')).toEqual({ kode: 'BBCA', method: 'prefix', score: 1 });
+    expect(resolved('XYZ9', 'Aneka Tambang')).toEqual({ kode: 'ANTM', method: 'name', score: 1 });
+  });
+
+  it('gives a prefixed code a lower score when the appended text is not the issuer name', () => {
+    const result = createCodeMatcher()('BBCA Saham Lainnya');
+    expect(result?.method).toBe('prefix');
+    expect(result!.score).toBeLessThan(0.9);
+  });
+
+  it('leaves codes without a trustworthy match unmatched', () => {
+    const match = createCodeMatcher();
+    expect(match('ZZZZ', 'Perusahaan Tidak Dikenal')).toBeNull();
+    expect(match('')).toBeNull();
+  });
+
+  it('applies reviews to non-exact matches only', () => {
+    const match = createCodeMatcher(null, [
+      { inputCode: 'BBRI-W2', matchedKode: 'BBRI', decision: 'rejected' },
+      { inputCode: 'BBCA.JK', matchedKode: 'BBCA', decision: 'accepted' },
+      { inputCode: 'BBCA', matchedKode: 'BBCA', decision: 'rejected' },
+    ]);
+
+    expect(match('BBRI-W2')).toBeNull();
+    expect(match('BBCA.JK')?.decision).toBe('accepted');
+    expect(match('BBCA')?.method).toBe('exact');
+  });
+
+  it('looks codes up as of a date', () => {
+    setMasterData([
+      emiten('BUMI', 'PT Bumi Resources Tbk', { afiliasiUtama: 'Bakrie', validTo: '2024-06-30' }),
+      emiten('BUMI', 'PT Bumi Resources Tbk', { afiliasiUtama: 'Salim', validFrom: '2024-07-01' }),
+    ]);
+    expect(createCodeMatcher('2024-03-31')('BUMI')?.emiten.afiliasiUtama).toBe('Bakrie');
+    expect(createCodeMatcher('2024-12-31')('BUMI')?.emiten.afiliasiUtama).toBe('Salim');
+  });
+
+  it('matches against a given list instead of the loaded master', () => {
+    const next = [emiten('ANTM', 'PT Aneka Tambang Tbk', { afiliasiUtama: 'MIND ID' })];
+    const match = createCodeMatcher(null, [], [], next);
+    expect(match('ANTM01A')?.emiten.afiliasiUtama).toBe('MIND ID');
+    expect(match('BBCA')).toBeNull();
+  });
+});
+
+describe('debt issuer mapping', () => {
+  beforeEach(() => {
+    setMasterData(MASTER);
+    return () => clearMasterData();
+  });
+
+  it('finds an exact instrument code before the longest series prefix', () => {
+    const find = createDebtIssuerLookup([mapping('BBRI01', 'BBRI'), mapping('BBRI01ACN2', 'BBCA'), mapping('BBRI', 'ANTM')]);
+    expect(find('BBRI 01 A CN2')?.kodeEmiten).toBe('BBCA');
+    expect(find('BBRI01BCN1')?.kodeEmiten).toBe('BBRI');
+    expect(find('BBRI02')?.kodeEmiten).toBe('ANTM');
+    expect(find('SMBBCA')).toBeNull();
+  });
+
+  it('resolves mapped instruments right after exact codes, before the code patterns', () => {
+    const match = createCodeMatcher(null, [], [mapping('ANTM01', 'BUMI'), mapping('BBCA', 'BBRI')]);
+
+    expect(match('ANTM01A')).toMatchObject({ emiten: { kode: 'BUMI' }, method: 'debt', score: 1 });
+    expect(match('BBCA')).toMatchObject({ emiten: { kode: 'BBCA' }, method: 'exact' });
+  });
+
+  it('ignores reviews for mapped instruments', () => {
+    const match = createCodeMatcher(
+      null,
+      [{ inputCode: 'ANTM01A', matchedKode: 'BUMI', decision: 'rejected' }],
+      [mapping('ANTM01', 'BUMI')]
+    );
+    expect(match('ANTM01A')?.method).toBe('debt');
+  });
+
+  it('falls through to the other methods when the mapped issuer is not in the master', () => {
+    const match = createCodeMatcher(null, [], [mapping('ANTM01', 'ZZZZ')]);
+    expect(match('ANTM01A')).toMatchObject({ emiten: { kode: 'ANTM' }, method: 'series' });
+  });
+});
@@ -0,0 +1,168 @@
+// Code Matcher - Traces stock codes missing from the master list (warrants, rights, bond series,
+// suffixes, appended names) back to the issuer, with fuzzy name matching as the last resort
+import { EmitenMaster, createDebtIssuerLookup, entriesAsOf, getAllMasterData, lookupEmiten } from './masterData';
+import { CodeMatchDecision, CodeMatchMethod, CodeMatchReview, DebtIssuerMapping } from './types';
+import { getSettingsDatabase, CODE_MATCH_REVIEWS_STORE } from './settingsDb';
+
+export interface CodeMatchResult {
+  emiten: EmitenMaster;
+  // 'exact' and 'debt' (a mapped bond or sukuk) need no review; every other method is recorded with its score
+  method: CodeMatchMethod | 'exact' | 'debt';
+  score: number;
+  decision?: CodeMatchDecision;
+}
+
+// Name matches below this similarity are not trusted at all
+export const NAME_MATCH_THRESHOLD = 0.85;
+
+// Issuer codes on IDX are four letters
+const ISSUER = '([A-Z]{4})';
+
+// Rule-based patterns, tried in order, with the score their match gets
+const CODE_PATTERNS: { method: CodeMatchMethod; pattern: RegExp; score: number }[] = [
+  // Exchange or listing suffixes: BBCA.JK, BBCA TBK, BBCA IJ EQUITY
+  { method: 'suffix', pattern: new RegExp(`^${ISSUER}(?:\\.JK|[-. ]?TBK|\\s+IJ(?:\\s+EQUITY)?)$`), score: 0.95 },
+  // Warrants and rights: BBRI-W, BBRI-W2, BUMI-R, BUMI HMETD
+  { method: 'derivative', pattern: new RegExp(`^${ISSUER}[-. ]?(?:W|R|WR|WA|WB|HMETD)\\d*$`), score: 0.9 },
+  // Bond and sukuk series: ANTM 01, ANTM01A, BBRI01ACN2
+  { method: 'series', pattern: new RegExp(`^${ISSUER}[-. ]?\\d{1,2}[A-Z0-9]*$`), score: 0.85 },
+];
+
+// A code followed by the issuer name: "BBCA Bank Central Asia", "BBCA - PT Bank Central Asia Tbk"
+const CODE_WITH_NAME = new RegExp(`^${ISSUER}\\s*[-–:|/]?\\s+(.{3,})$`);
+
+const NAME_FILLER_WORDS = new Set(['pt', 'tbk', 'persero', 'the']);
+
+/**
+ * Issuer name reduced for comparison: lowercase words without legal-form words
+ */
+export function normalizeIssuerName(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !NAME_FILLER_WORDS.has(word))
+    .join(' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = text.replace(/\s+/g, ' ');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient of the character bigrams of two normalized names (0..1)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of gramsA) {
+    overlap += Math.min(count, gramsB.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of gramsB.values()) total += count;
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+/**
+ * Matcher over the master entries valid on asOf. Debt instruments in the issuer mapping
+ * resolve right after exact codes. Results are cached per input, and reviewed matches
+ * apply: a rejected match leaves the code unmatched. Given entries, codes are matched
+ * against that list instead of the loaded master (e.g. a master version not yet saved).
+ */
+export function createCodeMatcher(
+  asOf: string | null = null,
+  reviews: CodeMatchReview[] = [],
+  debtIssuerMappings: DebtIssuerMapping[] = [],
+  entries: EmitenMaster[] | null = null
+): (code: unknown, nameHint?: unknown) => CodeMatchResult | null {
+  const cache = new Map<string, CodeMatchResult | null>();
+  const findDebtIssuer = createDebtIssuerLookup(debtIssuerMappings);
+  const listed = entries ? entriesAsOf(entries, asOf) : null;
+  const lookup = (kode: string): EmitenMaster | null =>
+    listed ? listed.get(kode.trim().toUpperCase()) ?? null : lookupEmiten(kode, asOf);
+  let names: { emiten: EmitenMaster; name: string }[] | null = null;
+
+  const findByName = (text: string): { emiten: EmitenMaster; score: number } | null => {
+    const normalized = normalizeIssuerName(text);
+    if (normalized.replace(/\s/g, '').length < 4) return null;
+
+    names ??= [...(listed ?? entriesAsOf(getAllMasterData(), asOf)).values()]
+      .map(emiten => ({ emiten, name: normalizeIssuerName(emiten.namaEmiten) }))
+      .filter(entry => entry.name);
+
+    let best: { emiten: EmitenMaster; score: number } | null = null;
+    for (const { emiten, name } of names) {
+      const score = nameSimilarity(normalized, name);
+      if (score > (best?.score ?? 0)) best = { emiten, score };
+    }
+    return best && best.score >= NAME_MATCH_THRESHOLD ? best : null;
+  };
+
+  const resolve = (code: string, nameHint: string): CodeMatchResult | null => {
+    const exact = lookup(code);
+    if (exact) return { emiten: exact, method: 'exact', score: 1 };
+
+    const debt = findDebtIssuer(code);
+    const issuer = debt ? lookup(debt.kodeEmiten) : null;
+    if (issuer) return { emiten: issuer, method: 'debt', score: 1 };
+
+    for (const { method, pattern, score } of CODE_PATTERNS) {
+      const issuer = code.match(pattern)?.[1];
+      const emiten = issuer ? lookup(issuer) : null;
+      if (emiten) return { emiten, method, score };
+    }
+
+    const withName = code.match(CODE_WITH_NAME);
+    const prefixed = withName ? lookup(withName[1]) : null;
+    if (prefixed) {
+      // The appended text confirms the code when it resembles the issuer name
+      const similarity = nameSimilarity(normalizeIssuerName(withName![2]), normalizeIssuerName(prefixed.namaEmiten));
+      return { emiten: prefixed, method: 'prefix', score: Math.round((0.8 + 0.2 * similarity) * 100) / 100 };
+    }
+
+    const byName = findByName(code) ?? (nameHint ? findByName(nameHint) : null);
+    return byName ? { emiten: byName.emiten, method: 'name', score: Math.round(byName.score * 100) / 100 } : null;
+  };
+
+  return (rawCode, rawName) => {
+    const code = String(rawCode ?? '').trim().toUpperCase().replace(/\s+/g, ' ');
+    if (!code) return null;
+    const nameHint = String(rawName ?? '').trim();
+    const key = `${code}|${nameHint}`;
+
+    if (!cache.has(key)) {
+      let result = resolve(code, nameHint);
+      if (result && result.method !== 'exact' && result.method !== 'debt') {
+        const review = reviews.find(r => r.inputCode === code && r.matchedKode === result!.emiten.kode);
+        if (review?.decision === 'rejected') result = null;
+        else if (review) result = { ...result, decision: review.decision };
+      }
+      cache.set(key, result);
+    }
+    return cache.get(key)!;
+  };
+}
+
+export async function loadCodeMatchReviews(): Promise<CodeMatchReview[]> {
+  const db = await getSettingsDatabase();
+  return db.getAll(CODE_MATCH_REVIEWS_STORE);
+}
+
+export async function saveCodeMatchReview(review: CodeMatchReview): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.put(CODE_MATCH_REVIEWS_STORE, { ...review, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteCodeMatchReview(inputCode: string): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.delete(CODE_MATCH_REVIEWS_STORE, inputCode);
+}
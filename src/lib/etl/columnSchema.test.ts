@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { applyColumnSchema, coerceValue, inferColumnType, parseStrictNumber } from './columnSchema';
+
+describe('parseStrictNumber', () => {
+  it('reads Indonesian and US notation', () => {
+    expect(parseStrictNumber('Rp 1.234.567,89')).toBe(1234567.89);
+    expect(parseStrictNumber('1,234,567.89')).toBe(1234567.89);
+    expect(parseStrictNumber('2.500')).toBe(2500);
+    expect(parseStrictNumber('12,5')).toBe(12.5);
+  });
+
+  it('reads accounting and signed negatives', () => {
+    expect(parseStrictNumber('(1.000)')).toBe(-1000);
+    expect(parseStrictNumber('-12')).toBe(-12);
+  });
+
+  it('gives null instead of 0 for text that is not a number', () => {
+    expect(parseStrictNumber('BBCA')).toBeNull();
+    expect(parseStrictNumber('1.2.3,4,5')).toBeNull();
+    expect(parseStrictNumber(null)).toBeNull();
+    expect(parseStrictNumber(NaN)).toBeNull();
+  });
+});
+
+describe('coerceValue', () => {
+  it('turns empty placeholders into null in typed columns only', () => {
+    expect(coerceValue('-', 'number')).toEqual({ value: null, fits: true });
+    expect(coerceValue('-', 'text')).toEqual({ value: '-', fits: true });
+  });
+
+  it('reads percentages as fractions', () => {
+    expect(coerceValue('12,5%', 'percentage')).toEqual({ value: 0.125, fits: true });
+    expect(coerceValue(0.125, 'percentage')).toEqual({ value: 0.125, fits: true });
+  });
+
+  it('reads Excel serials as dates only under a date header', () => {
+    expect(coerceValue(45657, 'date', 'Tanggal Jatuh Tempo')).toEqual({ value: '2024-12-31', fits: true });
+    expect(coerceValue(45657, 'date', 'Nilai')).toEqual({ value: 45657, fits: false });
+  });
+
+  it('keeps text that only mentions a date', () => {
+    const remark = 'Repo jatuh tempo 15 Januari 2025 dengan PT A';
+    expect(coerceValue(remark, 'date', 'Tanggal')).toEqual({ value: remark, fits: false });
+    expect(coerceValue('15 Januari 2025', 'date', 'Tanggal')).toEqual({ value: '2025-01-15', fits: true });
+  });
+
+  it('returns values that do not fit unchanged', () => {
+    expect(coerceValue('n.a. per Des', 'number')).toEqual({ value: 'n.a. per Des', fits: false });
+  });
+});
+
+describe('inferColumnType', () => {
+  it('types a column once most values fit', () => {
+    const schema = inferColumnType('Nilai Pasar', ['1.000', '2.500', '3,5', 'lihat catatan', '4']);
+    expect(schema.type).toBe('number');
+    expect(schema.mismatchCount).toBe(1);
+  });
+
+  it('keeps remarks that mention dates as text', () => {
+    const schema = inferColumnType('Keterangan', [
+      'Repo jatuh tempo 15 Januari 2025 dengan PT A',
+      'Jatuh tempo 31/12/2024',
+      'Dijual 2 Januari 2025',
+    ]);
+    expect(schema.type).toBe('text');
+  });
+
+  it('keeps zero-padded and code-column values as codes', () => {
+    expect(inferColumnType('No Akun', ['001', '0123', '045', '100'])).toMatchObject({ type: 'code', mismatchCount: 0 });
+    expect(inferColumnType('Kode Efek', ['1001', '2002', '3003'])).toMatchObject({ type: 'code' });
+    expect(inferColumnType('Jumlah', ['1001', '2002', '3003'])).toMatchObject({ type: 'number' });
+  });
+
+  it('falls back to text for an empty column', () => {
+    expect(inferColumnType('Kosong', [null, '', '-'])).toMatchObject({ type: 'text', confidence: 0 });
+  });
+});
+
+describe('applyColumnSchema', () => {
+  it('coerces typed columns and leaves metadata and mismatches alone', () => {
+    const rows = [
+      { Tanggal: '31/12/2024', Nilai: '1.000', _sourceRow: 5 },
+      { Tanggal: 'Repo jatuh tempo 15 Januari 2025 dengan PT A', Nilai: '2.000', _sourceRow: 6 },
+      { Tanggal: '2025-01-15', Nilai: '3.000', _sourceRow: 7 },
+      { Tanggal: '16 Januari 2025', Nilai: '4.000', _sourceRow: 8 },
+      { Tanggal: '17-01-2025', Nilai: '5.000', _sourceRow: 9 },
+    ];
+    const { data, columnSchema } = applyColumnSchema(rows, ['Tanggal', 'Nilai', '_sourceRow']);
+
+    expect(columnSchema.Tanggal).toMatchObject({ type: 'date', mismatchCount: 1 });
+    expect(columnSchema._sourceRow).toBeUndefined();
+    expect(data.map(row => row.Tanggal)).toEqual([
+      '2024-12-31',
+      'Repo jatuh tempo 15 Januari 2025 dengan PT A',
+      '2025-01-15',
+      '2025-01-16',
+      '2025-01-17',
+    ]);
+    expect(data.map(row => row.Nilai)).toEqual([1000, 2000, 3000, 4000, 5000]);
+  });
+
+  it('does not strip leading zeros from codes', () => {
+    const rows = [{ Kode: '001' }, { Kode: '0123' }, { Kode: '45' }];
+    expect(applyColumnSchema(rows, ['Kode']).data.map(row => row.Kode)).toEqual(['001', '0123', '45']);
+  });
+});
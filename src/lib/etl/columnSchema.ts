@@ -0,0 +1,209 @@
+// Column Schema - Infers a type per column (number, percentage, date, code, text) and coerces values once
+import { ColumnSchema, ColumnType } from './types';
+import { isMetadataField } from './provenance';
+import { parseReportDate } from './reportHeader';
+import { headerNamesField } from './fieldDictionary';
+
+// Share of non-empty values that must fit before a column gets a type other than text
+const MIN_TYPE_CONFIDENCE = 0.8;
+
+const DATE_HEADER = /tanggal|(^|_)tgl(_|$)|date|jatuh_?tempo/i;
+const PERCENT_HEADER = /%|persen|percent/i;
+
+// Cells that mean "no value" in a typed column
+const EMPTY_PLACEHOLDERS = new Set(['-', '–', '—', 'n/a', 'na', 'nil']);
+
+// Short identifiers such as stock or bond codes (BBCA, FR0091, 001)
+const CODE_PATTERN = /^[A-Z0-9][A-Z0-9._\-/]{0,19}$/;
+
+// Digits with leading zeros ("001", "0123") are codes; as numbers they would lose the zeros
+const ZERO_PADDED = /^0\d+$/;
+
+// Numbers written as text: "Rp 1.234.567,89", "1,234,567.89", "(1.000)", "-12"
+const NUMBER_TEXT = /^\(?-?(rp\.?|\$)?\s*-?[\d.,\s]*\d[\d.,\s]*\)?$/i;
+
+const ID_THOUSANDS = /^\d{1,3}(\.\d{3})+$/;
+const US_NUMBER = /^\d{1,3}(,\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/;
+const ID_NUMBER = /^\d{1,3}(\.\d{3})*(,\d+)?$|^\d+(,\d+)?$/;
+
+function isBlank(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value !== 'string') return false;
+  const text = value.trim();
+  return text === '' || EMPTY_PLACEHOLDERS.has(text.toLowerCase());
+}
+
+/**
+ * Parse a number strictly: text that is not a number gives null instead of 0
+ */
+export function parseStrictNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim();
+  if (!NUMBER_TEXT.test(text)) return null;
+
+  // Accounting negatives are written in parentheses
+  const negative = /^\(.*\)$/.test(text) || /^-|[\s(]-/.test(text);
+  text = text.replace(/^\(|\)$/g, '').replace(/rp\.?|\$|\s|-/gi, '');
+
+  // Dot-grouped thousands (2.500) are Indonesian; otherwise try US format (1,234,567.89)
+  // before Indonesian format (1.234.567,89)
+  if (ID_THOUSANDS.test(text)) {
+    text = text.replace(/\./g, '');
+  } else if (US_NUMBER.test(text)) {
+    text = text.replace(/,/g, '');
+  } else if (ID_NUMBER.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    return null;
+  }
+
+  const parsed = Number(text);
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+/**
+ * Parse a percentage to a fraction ("12,5%" -> 0.125); numbers are taken as stored
+ */
+function parsePercentage(value: unknown): number | null {
+  if (typeof value === 'string' && value.trim().endsWith('%')) {
+    const parsed = parseStrictNumber(value.trim().slice(0, -1));
+    return parsed === null ? null : parsed / 100;
+  }
+  return parseStrictNumber(value);
+}
+
+/**
+ * Parse a date to ISO; plain numbers only count as Excel serial dates in date columns.
+ * Text must be nothing but the date, so a remark that mentions one is not replaced by it.
+ */
+function parseDate(value: unknown, allowSerial: boolean): string | null {
+  if (typeof value === 'number' && !allowSerial) return null;
+  return parseReportDate(value, true);
+}
+
+function parseCode(value: unknown): string | null {
+  const text = String(value).trim();
+  return CODE_PATTERN.test(text) ? text : null;
+}
+
+/**
+ * Candidate types for a column, most specific first. Dates and percentages need
+ * a header hint or values written that way; code columns and zero-padded values are
+ * tried as codes before numbers. Text always fits.
+ */
+function candidateTypes(header: string, values: unknown[]): ColumnType[] {
+  const candidates: ColumnType[] = [];
+  const textValues = values.filter((v): v is string => typeof v === 'string');
+
+  const writtenAsDate = textValues.filter(v => parseReportDate(v, true) !== null).length;
+  if (DATE_HEADER.test(header) || values.some(v => v instanceof Date) || writtenAsDate > values.length / 2) {
+    candidates.push('date');
+  }
+
+  const writtenAsPercent = textValues.filter(v => v.trim().endsWith('%')).length;
+  if (PERCENT_HEADER.test(header) || writtenAsPercent > values.length / 2) {
+    candidates.push('percentage');
+  }
+
+  const zeroPadded = textValues.filter(v => ZERO_PADDED.test(v.trim())).length;
+  if (headerNamesField(header, 'KODE_EFEK') || zeroPadded > values.length / 2) {
+    candidates.push('code', 'number', 'text');
+  } else {
+    candidates.push('number', 'code', 'text');
+  }
+  return candidates;
+}
+
+/**
+ * Coerce one value to a column type. Empty placeholders become null;
+ * values that don't fit are returned unchanged and reported through `fits`.
+ */
+export function coerceValue(
+  value: unknown,
+  type: ColumnType,
+  header = ''
+): { value: unknown; fits: boolean } {
+  if (isBlank(value)) return { value: type === 'text' || type === 'code' ? value : null, fits: true };
+
+  let coerced: unknown = null;
+  switch (type) {
+    case 'number':
+      coerced = parseStrictNumber(value);
+      break;
+    case 'percentage':
+      coerced = parsePercentage(value);
+      break;
+    case 'date':
+      coerced = parseDate(value, DATE_HEADER.test(header));
+      break;
+    case 'code':
+      coerced = parseCode(value);
+      break;
+    case 'text':
+      return { value, fits: true };
+  }
+
+  return coerced === null ? { value, fits: false } : { value: coerced, fits: true };
+}
+
+/**
+ * Infer the type of one column from its non-empty values
+ */
+export function inferColumnType(header: string, values: unknown[]): ColumnSchema {
+  const filled = values.filter(v => !isBlank(v));
+  if (filled.length === 0) {
+    return { header, type: 'text', confidence: 0, mismatchCount: 0 };
+  }
+
+  for (const type of candidateTypes(header, filled)) {
+    const fitting = filled.filter(v => coerceValue(v, type, header).fits).length;
+    const confidence = fitting / filled.length;
+    if (type === 'text' || confidence >= MIN_TYPE_CONFIDENCE) {
+      return {
+        header,
+        type,
+        confidence: Math.round(confidence * 100) / 100,
+        mismatchCount: filled.length - fitting,
+      };
+    }
+  }
+
+  return { header, type: 'text', confidence: 1, mismatchCount: 0 };
+}
+
+/**
+ * Infer the schema of every data column and coerce the rows to it.
+ * Metadata fields (_sourceRow, _formulas, ...) are left untouched.
+ */
+export function applyColumnSchema(
+  data: Record<string, unknown>[],
+  headers: string[]
+): { data: Record<string, unknown>[]; columnSchema: Record<string, ColumnSchema> } {
+  const columnSchema: Record<string, ColumnSchema> = {};
+  for (const header of headers) {
+    if (isMetadataField(header)) continue;
+    columnSchema[header] = inferColumnType(header, data.map(row => row[header]));
+  }
+
+  const coercedData = data.map(row => {
+    const coerced = { ...row };
+    for (const schema of Object.values(columnSchema)) {
+      if (schema.type !== 'text' && schema.header in row) {
+        coerced[schema.header] = coerceValue(row[schema.header], schema.type, schema.header).value;
+      }
+    }
+    return coerced;
+  });
+
+  return { data: coercedData, columnSchema };
+}
+
+/**
+ * Columns with values that don't fit their inferred type
+ */
+export function getSchemaMismatches(columnSchema: Record<string, ColumnSchema>): ColumnSchema[] {
+  return Object.values(columnSchema).filter(schema => schema.mismatchCount > 0);
+}
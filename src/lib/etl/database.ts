@@ -1,6 +1,7 @@
 // IndexedDB Database Manager for ETL System
 import { openDB, IDBPDatabase } from 'idb';
-import { DatabaseRecord } from './types';
+import { DatabaseRecord, ProcessedSheet, ReportHeader, ColumnSchema } from './types';
+import { getFormCode } from './reportHeader';
 
 const DB_NAME = 'etl_mkbd_database';
 const DB_VERSION = 1;
@@ -9,6 +10,10 @@ const META_STORE = 'meta_tables';
 interface TableMeta {
   tableName: string;
   headers: string[];
+  // Column types inferred at extraction (absent for tables saved before typing)
+  columnSchema?: Record<string, ColumnSchema>;
+  // Header text in the form per column, see ProcessedSheet.originalHeaders
+  originalHeaders?: Record<string, string[]>;
   recordCount: number;
   lastUpdated: string;
   createdAt: string;
@@ -31,7 +36,12 @@ export async function getDatabase(): Promise<IDBPDatabase> {
   return dbInstance;
 }
 
-export async function createTableIfNotExists(tableName: string, headers: string[]): Promise<void> {
+export async function createTableIfNotExists(
+  tableName: string,
+  headers: string[],
+  columnSchema?: Record<string, ColumnSchema>,
+  originalHeaders?: Record<string, string[]>
+): Promise<void> {
   const db = await getDatabase();
   
   // Check if table already exists
@@ -57,6 +67,8 @@ export async function createTableIfNotExists(tableName: string, headers: string[
   const meta: TableMeta = {
     tableName,
     headers,
+    columnSchema,
+    originalHeaders,
     recordCount: 0,
     lastUpdated: new Date().toISOString(),
     createdAt: new Date().toISOString(),
@@ -101,6 +113,41 @@ export async function appendRecords(tableName: string, records: DatabaseRecord[]
   return addedCount;
 }
 
+// Report header fields stamped on every saved record
+const REPORT_TAG_FIELDS = ['_brokerName', '_reportDate', '_formCode'];
+
+/**
+ * Save processed sheets, creating each table on first use.
+ * Records are tagged with the report's broker, report date and the sheet's form code.
+ */
+export async function saveSheetsToDatabase(
+  sheets: ProcessedSheet[],
+  reportHeader?: ReportHeader | null
+): Promise<{ tableCount: number; recordCount: number }> {
+  let tableCount = 0;
+  let recordCount = 0;
+
+  for (const sheet of sheets) {
+    const records = sheet.data.map(row => ({
+      ...row,
+      _brokerName: reportHeader?.brokerName ?? null,
+      _reportDate: reportHeader?.reportDate ?? null,
+      _formCode: getFormCode(sheet.formType) ?? reportHeader?.formCode ?? null,
+    })) as DatabaseRecord[];
+
+    await createTableIfNotExists(
+      sheet.tableName,
+      [...sheet.headers, ...REPORT_TAG_FIELDS],
+      sheet.columnSchema,
+      sheet.originalHeaders
+    );
+    recordCount += await appendRecords(sheet.tableName, records);
+    tableCount++;
+  }
+
+  return { tableCount, recordCount };
+}
+
 export async function getAllTables(): Promise<TableMeta[]> {
   const db = await getDatabase();
   
@@ -1,48 +1,42 @@
 // Data Enrichment & Aggregation Module
 // Handles VLOOKUP-like enrichment and group value aggregation
 
-import { lookupEmiten, isMasterLoaded } from './masterData';
+import { EmitenMaster, isMasterLoaded } from './masterData';
+import { createCodeMatcher } from './codeMatcher';
+import { withDerivedColumns } from './fieldDictionary';
+import {
+  CodeMatch,
+  CodeMatchReview,
+  DebtIssuerMapping,
+  EnrichmentOptions,
+  FieldMapping,
+  GroupLevel,
+  ProcessedSheet,
+} from './types';
 
-// Common column names for stock code and market value
-const KODE_EFEK_COLUMNS = [
-  'Kode Efek',
-  'KODE EFEK',
-  'Kode_Efek',
-  'kode_efek',
-  'Kode Saham',
-  'KODE SAHAM',
-  'Kode',
-  'KODE',
-  'Symbol',
-  'Ticker',
-];
+const NON_GROUP = 'Non-Grup';
 
-const NILAI_PASAR_COLUMNS = [
-  'Nilai Pasar Wajar',
-  'NILAI PASAR WAJAR',
-  'Nilai_Pasar_Wajar',
-  'nilai_pasar_wajar',
-  'Nilai Pasar',
-  'NILAI PASAR',
-  'Market Value',
-  'Fair Value',
-  'Nilai Wajar',
-  'NPW',
-];
+// Row columns holding each level's group name and group market value total
+export const GROUP_LEVEL_COLUMNS: Record<GroupLevel, { name: string; total: string }> = {
+  afiliasiUtama: { name: 'GRUP_EMITEN', total: 'GRUP_NILAI_PASAR_WAJAR' },
+  subAfiliasi: { name: 'SUB_AFILIASI_EMITEN', total: 'SUB_AFILIASI_NILAI_PASAR_WAJAR' },
+  uboTokohKunci: { name: 'UBO_EMITEN', total: 'UBO_NILAI_PASAR_WAJAR' },
+};
 
-/**
- * Find the column name that matches a pattern
- */
-function findMatchingColumn(headers: string[], patterns: string[]): string | null {
-  for (const header of headers) {
-    for (const pattern of patterns) {
-      if (header.toLowerCase().includes(pattern.toLowerCase())) {
-        return header;
-      }
-    }
-  }
-  return null;
-}
+export const GROUP_LEVELS: GroupLevel[] = ['afiliasiUtama', 'subAfiliasi', 'uboTokohKunci'];
+
+// Columns the pipeline appends to every enriched row; they are not part of the form
+export const ENRICHMENT_COLUMNS = [
+  'GRUP_EMITEN',
+  'SUB_AFILIASI_EMITEN',
+  'UBO_EMITEN',
+  'NAMA_EMITEN_MASTER',
+  'KATEGORI_EMITEN',
+  'NILAI_PASAR_WAJAR_CLEAN',
+  'GRUP_NILAI_PASAR_WAJAR',
+  'SUB_AFILIASI_NILAI_PASAR_WAJAR',
+  'UBO_NILAI_PASAR_WAJAR',
+];
 
 /**
  * Parse a numeric value from various formats
@@ -83,16 +77,47 @@ export function parseNumericValue(value: unknown): number {
 }
 
 /**
- * Enrich data with group information (VLOOKUP-like operation)
+ * Group name columns of a row matched to an issuer, or of an unmatched row (null).
+ * An issuer without a sub-group or a known UBO stands for itself at that level.
+ */
+export function groupColumns(emiten: EmitenMaster | null): Record<string, string> {
+  if (!emiten) {
+    return { GRUP_EMITEN: NON_GROUP, SUB_AFILIASI_EMITEN: NON_GROUP, UBO_EMITEN: NON_GROUP };
+  }
+  const grup = emiten.afiliasiUtama.trim();
+  return {
+    GRUP_EMITEN: emiten.afiliasiUtama,
+    SUB_AFILIASI_EMITEN: emiten.subAfiliasi.trim() || grup,
+    UBO_EMITEN: emiten.uboTokohKunci.trim() || grup,
+  };
+}
+
+/**
+ * Enrich data with group information (VLOOKUP-like operation), using the master
+ * entries valid on asOf (the report date) so historical reports keep their grouping.
+ * Codes missing from the master are traced through codeMatcher: bonds and sukuk through
+ * the debt issuer mapping, anything else by rule or name, and those matches are listed
+ * in nonExactMatches for review.
  */
 export function enrichWithGroupData(
   data: Record<string, unknown>[],
-  headers: string[]
+  kodeEfekColumn: string | null,
+  options: {
+    asOf?: string | null;
+    namaEfekColumn?: string | null;
+    codeMatchReviews?: CodeMatchReview[];
+    nonGroupCodes?: string[];
+    debtIssuerMappings?: DebtIssuerMapping[];
+  } = {}
 ): {
   enrichedData: Record<string, unknown>[];
   kodeEfekColumn: string | null;
   matchedCount: number;
   unmatchedCount: number;
+  unmatchedCodes: string[];
+  nonGroupCount: number;
+  debtMatchedCount: number;
+  nonExactMatches: CodeMatch[];
 } {
   if (!isMasterLoaded()) {
     console.warn('Master data not loaded. Skipping enrichment.');
@@ -101,12 +126,13 @@ export function enrichWithGroupData(
       kodeEfekColumn: null,
       matchedCount: 0,
       unmatchedCount: data.length,
+      unmatchedCodes: [],
+      nonGroupCount: 0,
+      debtMatchedCount: 0,
+      nonExactMatches: [],
     };
   }
   
-  // Find the stock code column
-  const kodeEfekColumn = findMatchingColumn(headers, KODE_EFEK_COLUMNS);
-  
   if (!kodeEfekColumn) {
     console.warn('No stock code column found. Skipping enrichment.');
     return {
@@ -114,29 +140,64 @@ export function enrichWithGroupData(
       kodeEfekColumn: null,
       matchedCount: 0,
       unmatchedCount: data.length,
+      unmatchedCodes: [],
+      nonGroupCount: 0,
+      debtMatchedCount: 0,
+      nonExactMatches: [],
     };
   }
   
+  const { asOf = null, namaEfekColumn, codeMatchReviews, nonGroupCodes = [], debtIssuerMappings } = options;
+  const matchCode = createCodeMatcher(asOf, codeMatchReviews, debtIssuerMappings);
+  const nonGroup = new Set(nonGroupCodes);
+  const nonExact = new Map<string, CodeMatch>();
+  const unmatchedCodes = new Set<string>();
   let matchedCount = 0;
   let unmatchedCount = 0;
+  let nonGroupCount = 0;
+  let debtMatchedCount = 0;
   
   const enrichedData = data.map((row) => {
-    const kode = String(row[kodeEfekColumn] || '').trim().toUpperCase();
-    const emiten = lookupEmiten(kode);
+    const kode = String(row[kodeEfekColumn] || '').trim().toUpperCase().replace(/\s+/g, ' ');
+    const match = matchCode(kode, namaEfekColumn ? row[namaEfekColumn] : null);
     
-    if (emiten) {
+    if (match) {
       matchedCount++;
+      if (match.method === 'debt') {
+        debtMatchedCount++;
+      } else if (match.method !== 'exact') {
+        const key = `${kode}|${match.emiten.kode}`;
+        const recorded = nonExact.get(key);
+        if (recorded) {
+          recorded.occurrences++;
+        } else {
+          nonExact.set(key, {
+            inputCode: kode,
+            matchedKode: match.emiten.kode,
+            namaEmiten: match.emiten.namaEmiten,
+            method: match.method,
+            score: match.score,
+            occurrences: 1,
+            decision: match.decision,
+          });
+        }
+      }
       return {
         ...row,
-        GRUP_EMITEN: emiten.afiliasiUtama,
-        NAMA_EMITEN_MASTER: emiten.namaEmiten,
-        KATEGORI_EMITEN: emiten.kategori,
+        ...groupColumns(match.emiten),
+        NAMA_EMITEN_MASTER: match.emiten.namaEmiten,
+        KATEGORI_EMITEN: match.emiten.kategori,
       };
     } else {
-      unmatchedCount++;
+      if (nonGroup.has(kode)) {
+        nonGroupCount++;
+      } else {
+        unmatchedCount++;
+        if (kode) unmatchedCodes.add(kode);
+      }
       return {
         ...row,
-        GRUP_EMITEN: 'Non-Grup',
+        ...groupColumns(null),
         NAMA_EMITEN_MASTER: '',
         KATEGORI_EMITEN: '',
       };
@@ -148,24 +209,38 @@ export function enrichWithGroupData(
     kodeEfekColumn,
     matchedCount,
     unmatchedCount,
+    unmatchedCodes: [...unmatchedCodes],
+    nonGroupCount,
+    debtMatchedCount,
+    nonExactMatches: [...nonExact.values()].sort((a, b) => a.score - b.score),
   };
 }
 
 /**
- * Calculate group aggregates for market value
- * Each row gets the total value of all members in its group
+ * Key a row is totalled under at a level. Sub-groups are only unique within their
+ * group, while one UBO may own several groups.
+ */
+export function groupKey(row: Record<string, unknown>, level: GroupLevel): string {
+  const grup = String(row['GRUP_EMITEN'] || NON_GROUP);
+  if (grup === NON_GROUP) return NON_GROUP;
+  const name = String(row[GROUP_LEVEL_COLUMNS[level].name] || grup);
+  return level === 'subAfiliasi' ? `${grup} / ${name}` : name;
+}
+
+/**
+ * Calculate group aggregates for market value at every level (Afiliasi Utama, Sub-Afiliasi, UBO).
+ * Each row gets the total value of all members of its group at each level;
+ * groupTotals holds the totals of the chosen level.
  */
 export function calculateGroupAggregates(
   data: Record<string, unknown>[],
-  headers: string[]
+  nilaiPasarColumn: string | null,
+  groupLevel: GroupLevel = 'afiliasiUtama'
 ): {
   aggregatedData: Record<string, unknown>[];
   nilaiPasarColumn: string | null;
   groupTotals: Map<string, number>;
 } {
-  // Find the market value column
-  const nilaiPasarColumn = findMatchingColumn(headers, NILAI_PASAR_COLUMNS);
-  
   if (!nilaiPasarColumn) {
     console.warn('No market value column found. Skipping aggregation.');
     return {
@@ -175,72 +250,95 @@ export function calculateGroupAggregates(
     };
   }
   
-  // Step 1: Calculate totals for each group
-  const groupTotals = new Map<string, number>();
+  // Step 1: Calculate totals for each group at each level
+  const levelTotals = new Map<GroupLevel, Map<string, number>>(GROUP_LEVELS.map(level => [level, new Map()]));
   
   for (const row of data) {
-    const groupName = String(row['GRUP_EMITEN'] || 'Non-Grup');
     const nilaiPasar = parseNumericValue(row[nilaiPasarColumn]);
-    
-    const currentTotal = groupTotals.get(groupName) || 0;
-    groupTotals.set(groupName, currentTotal + nilaiPasar);
+    for (const level of GROUP_LEVELS) {
+      const totals = levelTotals.get(level)!;
+      const key = groupKey(row, level);
+      totals.set(key, (totals.get(key) || 0) + nilaiPasar);
+    }
   }
   
   // Step 2: Apply group totals to each row
   const aggregatedData = data.map((row) => {
-    const groupName = String(row['GRUP_EMITEN'] || 'Non-Grup');
     const nilaiPasarAsli = parseNumericValue(row[nilaiPasarColumn]);
+    const enriched: Record<string, unknown> = { ...row, NILAI_PASAR_WAJAR_CLEAN: nilaiPasarAsli };
     
-    // Get group total
-    let grupNilaiPasarWajar: number;
-    
-    if (groupName === 'Non-Grup' || !groupName) {
+    for (const level of GROUP_LEVELS) {
+      const key = groupKey(row, level);
       // Exception handling: Non-Grup uses its own value
-      grupNilaiPasarWajar = nilaiPasarAsli;
-    } else {
-      grupNilaiPasarWajar = groupTotals.get(groupName) || nilaiPasarAsli;
+      enriched[GROUP_LEVEL_COLUMNS[level].total] = key === NON_GROUP
+        ? nilaiPasarAsli
+        : levelTotals.get(level)!.get(key) || nilaiPasarAsli;
     }
     
-    return {
-      ...row,
-      NILAI_PASAR_WAJAR_CLEAN: nilaiPasarAsli,
-      GRUP_NILAI_PASAR_WAJAR: grupNilaiPasarWajar,
-    };
+    return enriched;
   });
   
   return {
     aggregatedData,
     nilaiPasarColumn,
-    groupTotals,
+    groupTotals: levelTotals.get(groupLevel)!,
   };
 }
 
 /**
- * Full enrichment pipeline: enrich + aggregate
+ * Full enrichment pipeline: enrich + aggregate. The code and market value columns
+ * come from the sheet's field mapping; the returned mapping adds the group columns.
+ * Groups are looked up as of the report date; without one, as of today. Totals are
+ * computed at every level; the field mapping points at the chosen level's columns.
  */
 export function processEnrichmentPipeline(
   data: Record<string, unknown>[],
-  headers: string[]
+  headers: string[],
+  fieldMapping: FieldMapping,
+  options: EnrichmentOptions = {}
 ): {
   processedData: Record<string, unknown>[];
   newHeaders: string[];
+  fieldMapping: FieldMapping;
   stats: {
     kodeEfekColumn: string | null;
     nilaiPasarColumn: string | null;
     matchedCount: number;
     unmatchedCount: number;
+    unmatchedCodes: string[];
+    nonGroupCount: number;
+    debtMatchedCount: number;
+    groupLevel: GroupLevel;
     groupCount: number;
     totalGroupValue: number;
+    asOfDate: string | null;
+    nonExactMatches: CodeMatch[];
   };
 } {
+  const reportDate = options.reportDate ?? null;
+  const groupLevel = options.groupLevel ?? 'afiliasiUtama';
+
   // Step 1: Enrich with group data
-  const { enrichedData, kodeEfekColumn, matchedCount, unmatchedCount } = 
-    enrichWithGroupData(data, headers);
+  const {
+    enrichedData,
+    kodeEfekColumn,
+    matchedCount,
+    unmatchedCount,
+    unmatchedCodes,
+    nonGroupCount,
+    debtMatchedCount,
+    nonExactMatches,
+  } = enrichWithGroupData(data, fieldMapping.columns.KODE_EFEK ?? null, {
+    asOf: reportDate,
+    namaEfekColumn: fieldMapping.columns.NAMA_EFEK,
+    codeMatchReviews: options.codeMatchReviews,
+    nonGroupCodes: options.nonGroupCodes,
+    debtIssuerMappings: options.debtIssuerMappings,
+  });
   
   // Step 2: Calculate group aggregates
-  const enrichedHeaders = [...headers, 'GRUP_EMITEN', 'NAMA_EMITEN_MASTER', 'KATEGORI_EMITEN'];
   const { aggregatedData, nilaiPasarColumn, groupTotals } = 
-    calculateGroupAggregates(enrichedData, enrichedHeaders);
+    calculateGroupAggregates(enrichedData, fieldMapping.columns.NILAI_PASAR_WAJAR ?? null, groupLevel);
   
   // Calculate total group value
   let totalGroupValue = 0;
@@ -249,25 +347,56 @@ export function processEnrichmentPipeline(
   });
   
   // Build final headers
-  const newHeaders = [
-    ...headers,
-    'GRUP_EMITEN',
-    'NAMA_EMITEN_MASTER', 
-    'KATEGORI_EMITEN',
-    'NILAI_PASAR_WAJAR_CLEAN',
-    'GRUP_NILAI_PASAR_WAJAR',
-  ];
+  const newHeaders = [...headers, ...ENRICHMENT_COLUMNS];
   
   return {
     processedData: aggregatedData,
     newHeaders,
+    // Ranking liabilities read the group and its total through these fields, so they follow the level
+    fieldMapping: withDerivedColumns(fieldMapping, {
+      GRUP_EMITEN: GROUP_LEVEL_COLUMNS[groupLevel].name,
+      GRUP_NILAI_PASAR_WAJAR: GROUP_LEVEL_COLUMNS[groupLevel].total,
+    }),
     stats: {
       kodeEfekColumn,
       nilaiPasarColumn,
       matchedCount,
       unmatchedCount,
+      unmatchedCodes,
+      nonGroupCount,
+      debtMatchedCount,
+      groupLevel,
       groupCount: groupTotals.size,
       totalGroupValue,
+      asOfDate: reportDate,
+      nonExactMatches,
     },
   };
 }
+
+/**
+ * Enrich an already processed sheet again, e.g. after rows were restored, so every row
+ * carries its groups and the group totals include it. The report date and group level
+ * the sheet was enriched with are kept; headers stay as they are.
+ */
+export function reenrichSheet(
+  sheet: ProcessedSheet,
+  options: Omit<EnrichmentOptions, 'reportDate' | 'groupLevel'> = {}
+): ProcessedSheet {
+  const stats = sheet.metadata.enrichmentStats;
+  if (!stats || !isMasterLoaded()) return sheet;
+
+  const { processedData, fieldMapping, stats: newStats } = processEnrichmentPipeline(
+    sheet.data,
+    sheet.headers,
+    sheet.fieldMapping,
+    { ...options, reportDate: stats.asOfDate, groupLevel: stats.groupLevel }
+  );
+
+  return {
+    ...sheet,
+    data: processedData,
+    fieldMapping,
+    metadata: { ...sheet.metadata, enrichmentStats: newStats },
+  };
+}
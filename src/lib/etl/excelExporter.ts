@@ -6,11 +6,147 @@
  */
 
 import * as XLSX from 'xlsx';
-import { ProcessedSheet, MKBDCalculationResult, VD59Update } from './types';
+import { ProcessedSheet, MKBDCalculationResult, VD59Update, ReportHeader } from './types';
+import { getCellAddress, parseCellRef, isMetadataField } from './provenance';
+import { formatReportLabel } from './reportHeader';
+import { normalizeHeaderName } from './fieldDictionary';
+import { coerceValue } from './columnSchema';
+
+// 'original': header text and column order of the form; 'database': sanitized column names
+export type ExportHeaderMode = 'original' | 'database';
 
 export interface ExportOptions {
   fileName?: string;
+  // Include the _source/_file metadata columns in the helper block (default true)
   includeMetadata?: boolean;
+  // Names the file after the broker, form and report date instead of today's date
+  reportHeader?: ReportHeader | null;
+  headerMode?: ExportHeaderMode;
+}
+
+const FORM_BLOCK_LABEL = 'DATA FORMULIR';
+const HELPER_BLOCK_LABEL = 'KOLOM BANTU (bukan bagian formulir)';
+
+/**
+ * Columns of a sheet in export order: the form's columns sorted by their source
+ * column, then the helper columns added by the pipeline (enrichment, metadata)
+ */
+export function getExportColumns(
+  sheet: ProcessedSheet,
+  includeMetadata = true
+): { formColumns: string[]; helperColumns: string[] } {
+  const sourceIndex = (header: string) => XLSX.utils.decode_col(sheet.columnSources[header]);
+  const formColumns = sheet.headers
+    .filter(h => sheet.columnSources[h])
+    .sort((a, b) => sourceIndex(a) - sourceIndex(b));
+  const helperColumns = sheet.headers.filter(
+    h => !sheet.columnSources[h] && (includeMetadata || !isMetadataField(h))
+  );
+  return { formColumns, helperColumns };
+}
+
+/**
+ * Header rows of the form columns. In original mode each header level gets its own row;
+ * a shorter path fills the rows below it and group headers span their sub-columns.
+ */
+function buildFormHeaderRows(
+  sheet: ProcessedSheet,
+  formColumns: string[],
+  headerMode: ExportHeaderMode
+): { rows: string[][]; merges: XLSX.Range[] } {
+  if (headerMode === 'database') return { rows: [formColumns], merges: [] };
+
+  const paths = formColumns.map(h => sheet.originalHeaders?.[h] ?? [h]);
+  const depth = Math.max(1, ...paths.map(p => p.length));
+  const rows: string[][] = Array.from({ length: depth }, () => []);
+  const merges: XLSX.Range[] = [];
+
+  paths.forEach((path, c) => {
+    for (let level = 0; level < depth; level++) {
+      rows[level][c] = path[Math.min(level, path.length - 1)] ?? '';
+    }
+    // The last level of a short path spans down to the bottom header row
+    if (path.length > 0 && path.length < depth) {
+      merges.push({ s: { r: path.length - 1, c }, e: { r: depth - 1, c } });
+    }
+  });
+
+  // Group headers shared by adjacent columns (same text on every level above) span them
+  for (let level = 0; level < depth; level++) {
+    let runStart = 0;
+    for (let c = 1; c <= paths.length; c++) {
+      const sameGroup = c < paths.length
+        && level < paths[c].length - 1 && level < paths[runStart].length - 1
+        && paths[c].slice(0, level + 1).join('\n') === paths[runStart].slice(0, level + 1).join('\n');
+      if (sameGroup) continue;
+      if (c - 1 > runStart) merges.push({ s: { r: level, c: runStart }, e: { r: level, c: c - 1 } });
+      runStart = c;
+    }
+  }
+
+  // Only the top-left cell of a merged range keeps its text
+  for (const merge of merges) {
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r !== merge.s.r || c !== merge.s.c) rows[r][c] = '';
+      }
+    }
+  }
+
+  return { rows, merges };
+}
+
+/**
+ * Worksheet of one processed sheet: the form's columns under their headers, then a
+ * blank column and the helper columns, each block labelled in the first row
+ */
+function createFlatSheet(sheet: ProcessedSheet, options: ExportOptions): XLSX.WorkSheet {
+  const headerMode = options.headerMode ?? 'original';
+  const { formColumns, helperColumns } = getExportColumns(sheet, options.includeMetadata ?? true);
+  const header = buildFormHeaderRows(sheet, formColumns, headerMode);
+  const depth = header.rows.length;
+  const helperStart = formColumns.length + 1;
+
+  const blockRow: string[] = [FORM_BLOCK_LABEL];
+  const merges: XLSX.Range[] = header.merges.map(m => ({
+    s: { r: m.s.r + 1, c: m.s.c },
+    e: { r: m.e.r + 1, c: m.e.c },
+  }));
+  if (formColumns.length > 1) merges.push({ s: { r: 0, c: 0 }, e: { r: 0, c: formColumns.length - 1 } });
+  if (helperColumns.length > 0) {
+    blockRow[helperStart] = HELPER_BLOCK_LABEL;
+    if (helperColumns.length > 1) {
+      merges.push({ s: { r: 0, c: helperStart }, e: { r: 0, c: helperStart + helperColumns.length - 1 } });
+    }
+  }
+
+  const wsData: unknown[][] = [blockRow];
+  header.rows.forEach((row, level) => {
+    // Helper columns have a single header level, on the bottom header row
+    const helperHeaders = helperColumns.map(h => (level === depth - 1 ? h : ''));
+    wsData.push(helperColumns.length > 0 ? [...row, '', ...helperHeaders] : row);
+  });
+
+  const cellValue = (value: unknown) => (value === null || value === undefined ? '' : value);
+  for (const row of sheet.data) {
+    const formValues = formColumns.map(h => cellValue(row[h]));
+    wsData.push(
+      helperColumns.length > 0
+        ? [...formValues, '', ...helperColumns.map(h => cellValue(row[h]))]
+        : formValues
+    );
+  }
+
+  const worksheet = XLSX.utils.aoa_to_sheet(wsData);
+  worksheet['!merges'] = merges;
+
+  const width = (text: string) => ({ wch: Math.min(Math.max(text.length, 15), 40) });
+  worksheet['!cols'] = [
+    ...header.rows[depth - 1].map(width),
+    ...(helperColumns.length > 0 ? [{ wch: 3 }, ...helperColumns.map(width)] : []),
+  ];
+
+  return worksheet;
 }
 
 /**
@@ -25,45 +161,12 @@ export function generateCorrectedExcel(
   const workbook = XLSX.utils.book_new();
 
   for (const sheet of sheets) {
-    // Convert data array ke worksheet
-    const wsData: unknown[][] = [];
-
-    // Add header row
-    wsData.push(sheet.headers);
-
-    // Add data rows
-    for (const row of sheet.data) {
-      const rowData: unknown[] = [];
-      for (const header of sheet.headers) {
-        let value = row[header];
-        
-        // Format numeric values
-        if (typeof value === 'number') {
-          rowData.push(value);
-        } else if (value === null || value === undefined) {
-          rowData.push('');
-        } else {
-          rowData.push(value);
-        }
-      }
-      wsData.push(rowData);
-    }
-
-    const worksheet = XLSX.utils.aoa_to_sheet(wsData);
-
-    // Apply column widths
-    const colWidths = sheet.headers.map(header => ({
-      wch: Math.max(header.length, 15)
-    }));
-    worksheet['!cols'] = colWidths;
-
-    // Add sheet to workbook
-    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.sheetName.substring(0, 31));
+    XLSX.utils.book_append_sheet(workbook, createFlatSheet(sheet, options), sheet.sheetName.substring(0, 31));
   }
 
   // Add summary sheet if MKBD result exists
   if (mkbdResult) {
-    const summarySheet = createSummarySheet(mkbdResult);
+    const summarySheet = createSummarySheet(mkbdResult, options.reportHeader);
     XLSX.utils.book_append_sheet(workbook, summarySheet, 'MKBD_Summary');
   }
 
@@ -78,10 +181,16 @@ export function generateCorrectedExcel(
 /**
  * Create summary sheet dengan hasil kalkulasi MKBD
  */
-function createSummarySheet(mkbdResult: MKBDCalculationResult): XLSX.WorkSheet {
+function createSummarySheet(
+  mkbdResult: MKBDCalculationResult,
+  reportHeader?: ReportHeader | null
+): XLSX.WorkSheet {
   const data: unknown[][] = [
     ['RINGKASAN HASIL AUDIT MKBD'],
     [''],
+    ['Perusahaan Efek', reportHeader?.brokerName ?? '-'],
+    ['Tanggal Laporan', reportHeader?.reportDate ?? '-'],
+    ['Direktur', reportHeader?.directorName ?? '-'],
     ['Tanggal Proses', new Date().toLocaleDateString('id-ID')],
     [''],
     ['== SUMBER DATA =='],
@@ -126,12 +235,15 @@ function createSummarySheet(mkbdResult: MKBDCalculationResult): XLSX.WorkSheet {
 export function downloadExcel(
   sheets: ProcessedSheet[],
   mkbdResult: MKBDCalculationResult | null,
-  fileName?: string
+  options: ExportOptions = {}
 ): void {
-  const blob = generateCorrectedExcel(sheets, mkbdResult);
+  const blob = generateCorrectedExcel(sheets, mkbdResult, options);
   
-  const defaultFileName = `MKBD_Corrected_${new Date().toISOString().split('T')[0]}.xlsx`;
-  const finalFileName = fileName || defaultFileName;
+  const reportLabel = formatReportLabel(options.reportHeader);
+  const defaultFileName = reportLabel
+    ? `MKBD_${reportLabel}_Corrected.xlsx`
+    : `MKBD_Corrected_${new Date().toISOString().split('T')[0]}.xlsx`;
+  const finalFileName = options.fileName || defaultFileName;
 
   // Create download link
   const url = URL.createObjectURL(blob);
@@ -161,23 +273,18 @@ export async function generateFromTemplate(
   const arrayBuffer = await originalFile.arrayBuffer();
   const workbook = XLSX.read(arrayBuffer, { type: 'array' });
 
-  // Create map of corrected data by sheet name
-  const correctedMap = new Map<string, ProcessedSheet>();
-  for (const sheet of correctedSheets) {
-    // Match by original sheet name pattern
-    correctedMap.set(sheet.sheetName, sheet);
-    // Also try without suffix
-    const baseName = sheet.sheetName.replace(/_TABEL_10C$/, '');
-    correctedMap.set(baseName, sheet);
-  }
-
-  // Update each sheet with corrected values
+  // Update each sheet with corrected values, addressed by each row's source cell
   for (const sheetName of workbook.SheetNames) {
     const worksheet = workbook.Sheets[sheetName];
-    const correctedSheet = findMatchingSheet(sheetName, correctedSheets);
+    // A VD510 worksheet maps to several processed sub-tables
+    const sourceSheets = correctedSheets.filter(s => s.sourceSheetName === sheetName);
+    for (const correctedSheet of sourceSheets) {
+      applyCorrectionsToWorksheet(worksheet, correctedSheet);
+    }
 
-    if (correctedSheet) {
-      applyCorrectionsToWorksheet(worksheet, correctedSheet, mkbdResult);
+    // Apply specific VD59 updates if this is VD59 sheet
+    if (mkbdResult?.vd59Updates && sourceSheets.some(s => s.formType === 'VD59')) {
+      applyVD59SpecificUpdates(worksheet, sheetName, mkbdResult.vd59Updates);
     }
   }
 
@@ -190,107 +297,101 @@ export async function generateFromTemplate(
 }
 
 /**
- * Find matching ProcessedSheet for a given sheet name
+ * Apply corrections to worksheet cells.
+ * Every row knows its Excel row (_sourceRow) and every column its letter,
+ * so removed junk rows above a value no longer shift the target cell.
  */
-function findMatchingSheet(
-  sheetName: string, 
-  sheets: ProcessedSheet[]
-): ProcessedSheet | null {
-  const normalizedName = sheetName.toLowerCase().replace(/[\s\-_]/g, '');
-  
-  for (const sheet of sheets) {
-    const normalizedSheetName = sheet.sheetName.toLowerCase().replace(/[\s\-_]/g, '');
-    if (normalizedSheetName.includes(normalizedName) || normalizedName.includes(normalizedSheetName)) {
-      return sheet;
+function applyCorrectionsToWorksheet(
+  worksheet: XLSX.WorkSheet,
+  correctedSheet: ProcessedSheet
+): void {
+  for (const row of correctedSheet.data) {
+    for (const header of correctedSheet.headers) {
+      const value = row[header];
+      if (value === null || value === undefined) continue;
+
+      const cellAddr = getCellAddress(correctedSheet, row, header, false);
+      if (!cellAddr) continue;
+      if (matchesSourceCell(worksheet[cellAddr], value, correctedSheet, header)) continue;
+
+      writeCellIfChanged(worksheet, cellAddr, value);
     }
   }
-  
-  return null;
 }
 
 /**
- * Apply corrections to worksheet cells
+ * Whether a sheet value is still the one extraction read from the cell. Typed columns
+ * compare against the cell coerced the same way, so dates, percentages and numbers
+ * stored as text keep their original content unless a correction changed them.
  */
-function applyCorrectionsToWorksheet(
-  worksheet: XLSX.WorkSheet,
-  correctedSheet: ProcessedSheet,
-  mkbdResult: MKBDCalculationResult | null
-): void {
-  // Get worksheet range
-  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
-  
-  // Find header row in worksheet
-  let headerRowIdx = -1;
-  let headerColMap: Map<string, number> = new Map();
-
-  for (let r = range.s.r; r <= Math.min(range.e.r, 20); r++) {
-    const rowHeaders: string[] = [];
-    for (let c = range.s.c; c <= range.e.c; c++) {
-      const cellAddr = XLSX.utils.encode_cell({ r, c });
-      const cell = worksheet[cellAddr];
-      if (cell && cell.v) {
-        rowHeaders.push(String(cell.v));
-      }
-    }
-    
-    // Check if this row matches our headers
-    const matchCount = correctedSheet.headers.filter(h => 
-      rowHeaders.some(rh => normalizeHeader(rh) === normalizeHeader(h))
-    ).length;
-    
-    if (matchCount >= 3) {
-      headerRowIdx = r;
-      // Build column map
-      for (let c = range.s.c; c <= range.e.c; c++) {
-        const cellAddr = XLSX.utils.encode_cell({ r, c });
-        const cell = worksheet[cellAddr];
-        if (cell && cell.v) {
-          headerColMap.set(normalizeHeader(String(cell.v)), c);
-        }
-      }
-      break;
-    }
-  }
+function matchesSourceCell(
+  cell: XLSX.CellObject | undefined,
+  value: unknown,
+  sheet: ProcessedSheet,
+  header: string
+): boolean {
+  const schema = sheet.columnSchema[header];
+  if (!cell || !schema) return false;
+  return coerceValue(cell.v ?? null, schema.type, header).value === value;
+}
 
-  if (headerRowIdx === -1) return;
-
-  // Apply corrected values
-  for (let i = 0; i < correctedSheet.data.length; i++) {
-    const row = correctedSheet.data[i];
-    const excelRowIdx = headerRowIdx + 1 + i;
-
-    for (const [header, value] of Object.entries(row)) {
-      const colIdx = headerColMap.get(normalizeHeader(header));
-      if (colIdx !== undefined && value !== null && value !== undefined) {
-        const cellAddr = XLSX.utils.encode_cell({ r: excelRowIdx, c: colIdx });
-        
-        if (typeof value === 'number') {
-          worksheet[cellAddr] = { t: 'n', v: value };
-        } else if (typeof value === 'string' && !isNaN(parseFloat(value.replace(/,/g, '')))) {
-          worksheet[cellAddr] = { t: 'n', v: parseFloat(value.replace(/,/g, '')) };
-        } else {
-          worksheet[cellAddr] = { t: 's', v: String(value) };
-        }
-      }
-    }
+/**
+ * Write a value into a cell only when it differs from what the template holds,
+ * so untouched cells keep their formulas and formatting
+ */
+function writeCellIfChanged(worksheet: XLSX.WorkSheet, cellAddr: string, value: unknown): void {
+  const existing = worksheet[cellAddr] as XLSX.CellObject | undefined;
+
+  let next: XLSX.CellObject;
+  if (typeof value === 'number') {
+    next = { t: 'n', v: value };
+  } else if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value.replace(/,/g, '')))) {
+    next = { t: 'n', v: Number(value.replace(/,/g, '')) };
+  } else {
+    next = { t: 's', v: String(value) };
   }
 
-  // Apply specific VD59 updates if this is VD59 sheet
-  if (mkbdResult?.vd59Updates && correctedSheet.sheetName.toLowerCase().includes('vd59')) {
-    applyVD59SpecificUpdates(worksheet, mkbdResult.vd59Updates);
+  if (existing) {
+    const same = next.t === 'n'
+      ? typeof existing.v === 'number' && existing.v === next.v
+      : String(existing.v ?? '').trim() === String(next.v).trim();
+    if (same) return;
   }
+
+  // Keep the cell style/number format, drop the stale formula and cached text
+  const { f: _formula, w: _text, ...rest } = existing || ({} as XLSX.CellObject);
+  worksheet[cellAddr] = { ...rest, t: next.t, v: next.v };
+  extendSheetRange(worksheet, cellAddr);
+}
+
+function extendSheetRange(worksheet: XLSX.WorkSheet, cellAddr: string): void {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const cell = XLSX.utils.decode_cell(cellAddr);
+  range.e.r = Math.max(range.e.r, cell.r);
+  range.e.c = Math.max(range.e.c, cell.c);
+  worksheet['!ref'] = XLSX.utils.encode_range(range);
 }
 
 /**
- * Apply VD59 specific row updates by matching row labels
+ * Apply VD59 specific row updates at their source cell, or by matching row labels
  */
 function applyVD59SpecificUpdates(
   worksheet: XLSX.WorkSheet,
+  sheetName: string,
   updates: VD59Update[]
 ): void {
   const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
   
   for (const update of updates) {
+    // Exact cell known from provenance
+    if (update.cellAddress) {
+      const ref = parseCellRef(update.cellAddress);
+      if (ref.sheetName === null || ref.sheetName === sheetName) {
+        writeCellIfChanged(worksheet, ref.cell, update.newValue);
+      }
+      continue;
+    }
+
     const rowLabel = update.rowLabel || update.rowDescription || '';
     
     // Find row by label
@@ -306,7 +407,7 @@ function applyVD59SpecificUpdates(
           rowText += ' ' + cellValue;
           
           // Find target column (Jumlah or Total)
-          if (normalizeHeader(cellValue).includes(normalizeHeader(update.column))) {
+          if (normalizeHeaderName(cellValue).includes(normalizeHeaderName(update.column))) {
             targetCol = c;
           }
         }
@@ -337,16 +438,6 @@ function applyVD59SpecificUpdates(
   }
 }
 
-/**
- * Normalize header string for comparison
- */
-function normalizeHeader(header: string): string {
-  return header
-    .toLowerCase()
-    .replace(/[\s\-_]/g, '')
-    .replace(/[^a-z0-9]/g, '');
-}
-
 /**
  * Download Excel dari template asli dengan nilai terkoreksi
  */
@@ -354,13 +445,13 @@ export async function downloadFromTemplate(
   originalFile: File,
   correctedSheets: ProcessedSheet[],
   mkbdResult: MKBDCalculationResult | null,
-  fileName?: string
+  options: ExportOptions = {}
 ): Promise<void> {
   const blob = await generateFromTemplate(originalFile, correctedSheets, mkbdResult);
   
-  const baseName = originalFile.name.replace(/\.xlsx?$/i, '');
+  const baseName = formatReportLabel(options.reportHeader) ?? originalFile.name.replace(/\.xlsx?$/i, '');
   const defaultFileName = `${baseName}_CORRECTED.xlsx`;
-  const finalFileName = fileName || defaultFileName;
+  const finalFileName = options.fileName || defaultFileName;
 
   // Create download link
   const url = URL.createObjectURL(blob);
@@ -0,0 +1,224 @@
+// Extraction Profiles - Declarative per-form layouts (sheet matchers, header rows, markers, columns)
+import { z } from 'zod';
+import { ExtractionProfile, FormClassification } from './types';
+
+const STORAGE_KEY = 'etl_extraction_profiles';
+
+// Header row used when neither an indicator row nor a scored header row is found (row 7, below the letterhead)
+export const DEFAULT_FALLBACK_HEADER_ROW = 7;
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const regexSource = z
+  .string()
+  .min(1, 'Pola tidak boleh kosong')
+  .refine(isValidRegex, { message: 'Regex tidak valid' });
+
+export const extractionProfileSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_-]+$/i, 'ID hanya boleh huruf, angka, "_" atau "-"'),
+    name: z.string().min(1, 'Nama profil wajib diisi'),
+    formType: z.enum(['VD51', 'VD52', 'VD59', 'VD510', 'UNKNOWN']),
+    sheetMatchers: z.array(regexSource).default([]),
+    headerRows: z
+      .object({
+        start: z.number().int().min(1),
+        end: z.number().int().min(1),
+      })
+      .refine(rows => rows.end >= rows.start, { message: 'headerRows.end harus >= headerRows.start' })
+      .optional(),
+    startMarker: regexSource.optional(),
+    splitOnStartMarker: z.boolean().default(false),
+    stopMarkers: z.array(regexSource).default([]),
+    columns: z.array(z.string().min(1)).min(1).optional(),
+    labelColumn: z.string().min(1).optional(),
+    lineColumn: z.string().min(1).optional(),
+    fallbackHeaderRow: z.number().int().min(1).default(DEFAULT_FALLBACK_HEADER_ROW),
+  })
+  .refine(p => !p.splitOnStartMarker || !!p.startMarker, {
+    message: 'splitOnStartMarker membutuhkan startMarker',
+    path: ['startMarker'],
+  });
+
+// Generic layout: header found via the column indicator row, whole sheet is one table
+export const STANDARD_PROFILE: ExtractionProfile = {
+  id: 'standar',
+  name: 'Standar (deteksi otomatis)',
+  formType: 'UNKNOWN',
+  sheetMatchers: [],
+  splitOnStartMarker: false,
+  stopMarkers: [],
+  fallbackHeaderRow: DEFAULT_FALLBACK_HEADER_ROW,
+};
+
+export const BUILT_IN_PROFILES: ExtractionProfile[] = [
+  STANDARD_PROFILE,
+  {
+    id: 'vd510-ojk',
+    name: 'VD5.10 OJK (per Tabel 10A-10H)',
+    formType: 'VD510',
+    sheetMatchers: [],
+    startMarker: '^\\s*TABEL\\s*(10)\\s*([A-Z])\\b',
+    splitOnStartMarker: true,
+    stopMarkers: ['Apabila diperlukan'],
+    fallbackHeaderRow: DEFAULT_FALLBACK_HEADER_ROW,
+  },
+];
+
+export interface ProfileParseResult {
+  success: boolean;
+  profile: ExtractionProfile | null;
+  errors: string[];
+}
+
+/**
+ * Validate a profile object, returning readable errors per field
+ */
+export function validateProfile(input: unknown): ProfileParseResult {
+  const parsed = extractionProfileSchema.safeParse(input);
+  if (parsed.success) {
+    return { success: true, profile: parsed.data as ExtractionProfile, errors: [] };
+  }
+  return {
+    success: false,
+    profile: null,
+    errors: parsed.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    ),
+  };
+}
+
+/**
+ * Parse and validate profile JSON entered by the user
+ */
+export function parseProfileJson(text: string): ProfileParseResult {
+  try {
+    return validateProfile(JSON.parse(text));
+  } catch (error) {
+    return { success: false, profile: null, errors: [`JSON tidak valid: ${(error as Error).message}`] };
+  }
+}
+
+// ============ Local storage ============
+
+interface StoredProfiles {
+  custom: unknown[];
+  disabledIds: string[];
+}
+
+function readStore(): StoredProfiles {
+  if (typeof localStorage === 'undefined') return { custom: [], disabledIds: [] };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    return {
+      custom: Array.isArray(stored?.custom) ? stored.custom : [],
+      disabledIds: Array.isArray(stored?.disabledIds) ? stored.disabledIds : [],
+    };
+  } catch (error) {
+    console.warn('Could not read extraction profiles:', error);
+    return { custom: [], disabledIds: [] };
+  }
+}
+
+function writeStore(store: StoredProfiles): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+/**
+ * Custom profiles saved in this browser; entries that no longer validate are skipped
+ */
+export function getCustomProfiles(): ExtractionProfile[] {
+  return readStore()
+    .custom.map(entry => validateProfile(entry).profile)
+    .filter((profile): profile is ExtractionProfile => profile !== null);
+}
+
+export function isBuiltInProfile(id: string): boolean {
+  return BUILT_IN_PROFILES.some(p => p.id === id);
+}
+
+/**
+ * Add or replace a custom profile (matched by id)
+ */
+export function saveCustomProfile(profile: ExtractionProfile): void {
+  if (isBuiltInProfile(profile.id)) {
+    throw new Error(`ID "${profile.id}" dipakai oleh profil bawaan`);
+  }
+  const store = readStore();
+  const custom = getCustomProfiles().filter(p => p.id !== profile.id);
+  writeStore({ ...store, custom: [...custom, profile] });
+}
+
+export function deleteCustomProfile(id: string): void {
+  const store = readStore();
+  writeStore({
+    custom: getCustomProfiles().filter(p => p.id !== id),
+    disabledIds: store.disabledIds.filter(d => d !== id),
+  });
+}
+
+export function setProfileEnabled(id: string, enabled: boolean): void {
+  const store = readStore();
+  const disabledIds = store.disabledIds.filter(d => d !== id);
+  writeStore({ ...store, disabledIds: enabled ? disabledIds : [...disabledIds, id] });
+}
+
+/**
+ * Every known profile with its source and on/off state, custom profiles first
+ */
+export function listProfiles(): { profile: ExtractionProfile; builtIn: boolean; enabled: boolean }[] {
+  const { disabledIds } = readStore();
+  return [
+    ...getCustomProfiles().map(profile => ({ profile, builtIn: false })),
+    ...BUILT_IN_PROFILES.map(profile => ({ profile, builtIn: true })),
+  ].map(entry => ({ ...entry, enabled: !disabledIds.includes(entry.profile.id) }));
+}
+
+/**
+ * Enabled profiles in matching order (custom profiles override built-in ones)
+ */
+export function getActiveProfiles(): ExtractionProfile[] {
+  return listProfiles().filter(p => p.enabled).map(p => p.profile);
+}
+
+// ============ Matching ============
+
+/**
+ * Test a profile marker against a row's text
+ */
+export function matchMarker(marker: string, text: string): RegExpMatchArray | null {
+  return text.match(new RegExp(marker, 'i'));
+}
+
+/**
+ * Pick the profile for a sheet: an explicit sheet-name matcher wins, then the detected form.
+ * A sheet-name match also decides the form type, so unclassified layouts can be onboarded.
+ */
+export function selectProfile(
+  profiles: ExtractionProfile[],
+  sheetName: string,
+  classification: FormClassification
+): { profile: ExtractionProfile; classification: FormClassification } {
+  const byName = profiles.find(p => p.sheetMatchers.some(m => matchMarker(m, sheetName)));
+  if (byName) {
+    const sameForm = byName.formType === classification.formType;
+    return {
+      profile: byName,
+      classification: sameForm || byName.formType === 'UNKNOWN'
+        ? classification
+        : { formType: byName.formType, confidence: 1, matchedSignatures: [`Profil "${byName.name}"`] },
+    };
+  }
+
+  const byForm = profiles.find(p => p.formType === classification.formType);
+  return { profile: byForm ?? STANDARD_PROFILE, classification };
+}
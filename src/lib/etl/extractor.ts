@@ -1,55 +1,197 @@
 // Excel Extractor - Handles different extraction methods for various sheet types
 import * as XLSX from 'xlsx';
-import { SheetData, ProcessedSheet, ETLResult } from './types';
+import {
+  SheetData,
+  ProcessedSheet,
+  ETLResult,
+  FormClassification,
+  ETLStage,
+  ExtractOptions,
+  ExtractionProfile,
+  CleaningRuleSet,
+  EnrichmentOptions,
+  HeaderDetection,
+  HeaderRowOverride,
+  MKBDFormType,
+} from './types';
 import { sanitizeColumnNames, sanitizeTableName } from './sanitizer';
-import { cleanData, findDataStartRow } from './cleaner';
+import { cleanData } from './cleaner';
+import { selectCleaningRules } from './cleaningRules';
+import {
+  locateHeaderBlock,
+  fixedHeaderBlock,
+  flattenHeaderRows,
+  getSheetOrigin,
+  HeaderBlock,
+} from './headerFlattener';
 import { processEnrichmentPipeline } from './enrichment';
-import { isMasterLoaded } from './masterData';
+import { isMasterLoaded, getActiveMasterVersion, hasMasterValidityPeriods } from './masterData';
 import { applyMKBDCorrections } from './mkbdCalculator';
-// Sheet patterns that need special handling
-const VD510_SHEET_PATTERN = /vd510|vd5[\-_]?10|formulir\s*10/i;
-const STANDARD_SHEET_PATTERN = /vd5\d{1,2}|formulir\s*\d+/i;
+import { classifyForm } from './formClassifier';
+import { BUILT_IN_PROFILES, selectProfile, matchMarker } from './extractionProfiles';
+import { buildColumnSources, SOURCE_SHEET_FIELD, SOURCE_ROW_FIELD, FORMULAS_FIELD } from './provenance';
+import { verifyWorksheetFormulas } from './formulaVerifier';
+import { extractReportHeader, mergeReportHeaders, emptyReportHeader } from './reportHeader';
+import { applyColumnSchema, getSchemaMismatches } from './columnSchema';
+import { resolveFieldMapping, describeFieldIssues } from './fieldDictionary';
+import { detectLineColumn } from './lineNumbers';
+import {
+  scoreHeaderRows,
+  getTopCandidates,
+  getHeaderLayoutKey,
+  findOverrideRow,
+  needsHeaderConfirmation,
+} from './headerDetector';
 
-// Table markers for VD510 special extraction
-const TABLE_10C_START = 'TABEL 10C';
-const TABLE_10C_STOP_MARKERS = ['TABEL 10D', 'TABEL 10E', 'Apabila diperlukan'];
+// Rows [fromRow, toRow) of a sheet extracted as one table
+interface ExtractionRegion {
+  fromRow: number;
+  toRow: number;
+  // Region starts after a start marker (header search begins there instead of below the letterhead)
+  afterMarker: boolean;
+  subTableId?: string;
+}
+
+// What a region needs besides the profile to locate its header
+interface HeaderContext {
+  formType: MKBDFormType;
+  overrides?: HeaderRowOverride[];
+}
 
-export async function extractFromExcel(file: File): Promise<ETLResult> {
+export async function extractFromExcel(file: File, options: ExtractOptions = {}): Promise<ETLResult> {
+  const {
+    onProgress,
+    signal,
+    profiles = BUILT_IN_PROFILES,
+    cleaningRules,
+    headerOverrides,
+    codeMatchReviews,
+    nonGroupCodes,
+    groupLevel,
+    debtIssuerMappings,
+  } = options;
   const result: ETLResult = {
     success: true,
     sheets: [],
     errors: [],
     warnings: [],
+    formulaIssues: [],
+    reportHeader: emptyReportHeader(),
+    vd59Updates: [],
+  };
+
+  let sheetCount = 0;
+  const report = (stage: ETLStage, sheetIndex: number, sheetName?: string) => {
+    throwIfCancelled(signal);
+    onProgress?.({ stage, sheetName, sheetIndex, sheetCount, percent: stagePercent(stage, sheetIndex, sheetCount) });
   };
 
   try {
+    report('read', 0);
     const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+    // Keep formulas (cell.f) next to the cached values so they can be verified
+    const workbook = XLSX.read(arrayBuffer, { type: 'array', cellFormula: true });
+    sheetCount = workbook.SheetNames.length;
 
-    for (const sheetName of workbook.SheetNames) {
+    // Identify each form by its content, then pick the layout profile for it
+    const forms = workbook.SheetNames.map(sheetName => {
+      const sheetRows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, defval: null });
+      return { sheetRows, ...selectProfile(profiles, sheetName, classifyForm(sheetRows, sheetName)) };
+    });
+
+    // The letterhead (company, date, form, director) describes the whole report. It is read
+    // before any sheet is enriched, since groups are looked up as of the report date.
+    result.reportHeader = mergeReportHeaders(
+      forms.map(({ sheetRows, classification }) => extractReportHeader(sheetRows, classification.formType))
+    );
+    if (!result.reportHeader.reportDate && isMasterLoaded() && hasMasterValidityPeriods()) {
+      result.warnings.push('Tanggal laporan tidak ditemukan, grup emiten dicocokkan dengan master data yang berlaku hari ini');
+    }
+
+    for (const [sheetIndex, sheetName] of workbook.SheetNames.entries()) {
       try {
+        report('sanitize', sheetIndex, sheetName);
         const worksheet = workbook.Sheets[sheetName];
-        
-        let sheetData: SheetData;
-        
-        // Determine extraction method based on sheet name
-        if (VD510_SHEET_PATTERN.test(sheetName)) {
-          sheetData = extractVD510Special(worksheet, sheetName);
-          result.warnings.push(`Sheet "${sheetName}" diproses dengan metode khusus (Tabel 10C)`);
-        } else {
-          sheetData = extractStandard(worksheet, sheetName);
+        const { profile, classification } = forms[sheetIndex];
+
+        const formulaIssues = verifyWorksheetFormulas(workbook, sheetName);
+        if (formulaIssues.length > 0) {
+          result.formulaIssues.push(...formulaIssues);
+          const mismatches = formulaIssues.filter(i => i.type === 'mismatch').length;
+          result.warnings.push(
+            `Sheet "${sheetName}": ${mismatches} rumus tidak cocok dengan nilai tersimpan, ` +
+            `${formulaIssues.length - mismatches} total tanpa rumus`
+          );
         }
 
-        if (sheetData.rows.length === 0) {
-          result.warnings.push(`Sheet "${sheetName}" tidak memiliki data setelah pembersihan`);
-          continue;
+        const sheetDataList = extractWithProfile(
+          worksheet,
+          sheetName,
+          profile,
+          { formType: classification.formType, overrides: headerOverrides },
+          result.warnings
+        );
+        const tableIds = sheetDataList.map(t => t.subTableId).filter(Boolean);
+        if (tableIds.length > 0) {
+          result.warnings.push(
+            `Sheet "${sheetName}" dipecah per tabel (profil "${profile.name}"): ${tableIds.map(id => `Tabel ${id}`).join(', ')}`
+          );
         }
 
-        // Process and clean the data
-        const processedSheet = processSheetData(sheetData, file.name);
-        result.sheets.push(processedSheet);
+        for (const sheetData of sheetDataList) {
+          if (sheetData.rows.length === 0) {
+            result.warnings.push(`Sheet "${sheetData.sheetName}" tidak memiliki data setelah pembersihan`);
+            continue;
+          }
+
+          // Process and clean the data
+          const processedSheet = processSheetData(
+            sheetData,
+            file.name,
+            classification,
+            profile,
+            selectCleaningRules(cleaningRules, classification.formType),
+            {
+              reportDate: result.reportHeader.reportDate,
+              codeMatchReviews,
+              nonGroupCodes,
+              groupLevel,
+              debtIssuerMappings,
+            },
+            (stage) => report(stage, sheetIndex, sheetName)
+          );
+          result.sheets.push(processedSheet);
+
+          if (needsHeaderConfirmation(processedSheet.headerDetection)) {
+            const { headerRow, confidence } = processedSheet.headerDetection!;
+            result.warnings.push(
+              `Sheet "${processedSheet.sheetName}": baris header ditebak di baris ${headerRow} ` +
+              `(keyakinan ${Math.round(confidence * 100)}%), periksa dan pilih baris header bila salah`
+            );
+          }
+
+          if (processedSheet.formType === 'VD59' && !processedSheet.lineColumn) {
+            result.warnings.push(
+              `Sheet "${processedSheet.sheetName}": kolom Baris tidak ditemukan, baris VD59 dicari dari teksnya`
+            );
+          }
+
+          const fieldIssues = describeFieldIssues(processedSheet.fieldMapping.issues);
+          if (fieldIssues.length > 0) {
+            result.warnings.push(`Sheet "${processedSheet.sheetName}": ${fieldIssues.join('; ')}`);
+          }
+
+          const mismatches = getSchemaMismatches(processedSheet.columnSchema);
+          if (mismatches.length > 0) {
+            result.warnings.push(
+              `Sheet "${processedSheet.sheetName}": nilai tidak sesuai tipe kolom - ` +
+              mismatches.map(m => `${m.header} (${m.type}): ${m.mismatchCount}`).join(', ')
+            );
+          }
+        }
         
       } catch (sheetError) {
+        if (isCancelledError(sheetError)) throw sheetError;
         result.warnings.push(`Gagal memproses sheet "${sheetName}": ${sheetError}`);
       }
     }
@@ -62,11 +204,15 @@ export async function extractFromExcel(file: File): Promise<ETLResult> {
     // Force-correct perhitungan lintas sheet (VD510 & VD59) sesuai rule audit.
     // Ini dilakukan setelah enrichment + cleaning agar kolom tambahan (mis. GRUP_NILAI_PASAR_WAJAR) tersedia.
     if (result.success && result.sheets.length > 0) {
+      report('correct', sheetCount);
       const corrected = applyMKBDCorrections(result.sheets);
       result.sheets = corrected.sheets;
+      result.vd59Updates = corrected.vd59Updates;
     }
 
+    report('done', sheetCount);
   } catch (error) {
+    if (isCancelledError(error)) throw error;
     result.success = false;
     result.errors.push(`Gagal membaca file Excel: ${error}`);
   }
@@ -74,8 +220,43 @@ export async function extractFromExcel(file: File): Promise<ETLResult> {
   return result;
 }
 
-function extractStandard(worksheet: XLSX.WorkSheet, sheetName: string): SheetData {
-  // Convert to JSON with all options
+/**
+ * Overall progress: reading takes the first 10%, sheets share 10-90%, corrections the rest
+ */
+function stagePercent(stage: ETLStage, sheetIndex: number, sheetCount: number): number {
+  if (stage === 'read') return 0;
+  if (stage === 'correct') return 90;
+  if (stage === 'done') return 100;
+
+  const stepInSheet = { sanitize: 0, clean: 1, enrich: 2 }[stage];
+  const sheetShare = 80 / Math.max(sheetCount, 1);
+  return Math.round(10 + sheetShare * (sheetIndex + stepInSheet / 3));
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Proses ekstraksi dibatalkan', 'AbortError');
+  }
+}
+
+/**
+ * Check if an error comes from a cancelled extraction
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Extract a worksheet as laid out by its profile: one SheetData per region
+ * (the whole sheet, the rows after the start marker, or one per sub-table)
+ */
+function extractWithProfile(
+  worksheet: XLSX.WorkSheet,
+  sheetName: string,
+  profile: ExtractionProfile,
+  headerContext: HeaderContext,
+  warnings: string[]
+): SheetData[] {
   const rawData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
     header: 1,
     defval: null,
@@ -83,132 +264,287 @@ function extractStandard(worksheet: XLSX.WorkSheet, sheetName: string): SheetDat
   });
 
   if (rawData.length === 0) {
-    return { sheetName, headers: [], rows: [], originalHeaders: [], rowCount: 0 };
+    return [{
+      sheetName,
+      sourceSheetName: sheetName,
+      headers: [],
+      rows: [],
+      originalHeaders: [],
+      headerPaths: [],
+      columnSources: {},
+      rowCount: 0,
+    }];
   }
 
-  // Find where data actually starts (skip letterhead)
-  const dataStartRow = findDataStartRow(rawData);
-  
-  // The header row is typically at dataStartRow, data starts at dataStartRow + 1
-  const headerRowIndex = Math.min(dataStartRow, rawData.length - 1);
-  const headerRow = rawData[headerRowIndex] as (string | number | null)[];
-  
-  // Sanitize headers
-  const { sanitizedHeaders, warnings } = sanitizeColumnNames(headerRow);
-  
-  // Extract data rows
-  const dataRows = rawData.slice(headerRowIndex + 1);
-  
-  // Convert to objects
-  const rows = dataRows.map((row) => {
-    const rowArray = row as unknown[];
-    const obj: Record<string, unknown> = {};
-    sanitizedHeaders.forEach((header, idx) => {
-      obj[header] = rowArray[idx] ?? null;
-    });
-    return obj;
-  });
+  const regions = findRegions(rawData, profile);
+  if (profile.startMarker && !regions.some(r => r.afterMarker)) {
+    warnings.push(`Sheet "${sheetName}": penanda awal profil "${profile.name}" tidak ditemukan, seluruh sheet diekstrak`);
+  }
 
-  return {
-    sheetName,
-    headers: sanitizedHeaders,
-    originalHeaders: headerRow.map(h => String(h ?? '')),
-    rows,
-    rowCount: rows.length,
-  };
+  return regions.map(region => extractRegion(worksheet, rawData, sheetName, profile, region, headerContext, warnings));
 }
 
-function extractVD510Special(worksheet: XLSX.WorkSheet, sheetName: string): SheetData {
-  // Convert entire sheet to array
-  const rawData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
-    header: 1,
-    defval: null,
-    blankrows: true,
-  });
+function rowText(row: unknown[] | undefined): string {
+  return (row || [])
+    .filter(c => c !== null && c !== undefined)
+    .map(c => String(c))
+    .join(' ');
+}
 
-  // Find TABEL 10C start
-  let table10CStart = -1;
-  let table10CEnd = rawData.length;
+/**
+ * Split the sheet into regions using the profile's start and stop markers.
+ * A region runs until the next start marker (when splitting) or the first stop marker.
+ */
+function findRegions(rawData: unknown[][], profile: ExtractionProfile): ExtractionRegion[] {
+  const isStop = (text: string) => profile.stopMarkers.some(m => matchMarker(m, text));
+  const regions: ExtractionRegion[] = [];
+  let open: ExtractionRegion | null = null;
 
   for (let i = 0; i < rawData.length; i++) {
-    const rowText = (rawData[i] as unknown[])
-      .filter(c => c !== null && c !== undefined)
-      .map(c => String(c))
-      .join(' ');
-
-    // Find start marker
-    if (table10CStart === -1 && rowText.toUpperCase().includes(TABLE_10C_START)) {
-      table10CStart = i;
-      continue;
+    const text = rowText(rawData[i]);
+    const startMatch = profile.startMarker ? matchMarker(profile.startMarker, text) : null;
+    const canStart = startMatch && (profile.splitOnStartMarker || regions.length === 0);
+
+    // Close the open region at the next start marker or a stop marker
+    if (open && (canStart || isStop(text))) {
+      open.toRow = i;
+      open = null;
     }
 
-    // Find end marker (after we found start)
-    if (table10CStart !== -1) {
-      for (const stopMarker of TABLE_10C_STOP_MARKERS) {
-        if (rowText.toUpperCase().includes(stopMarker.toUpperCase())) {
-          table10CEnd = i;
-          break;
-        }
-      }
-      if (table10CEnd !== rawData.length) break;
+    if (canStart) {
+      const groups = startMatch.slice(1).filter(Boolean);
+      open = {
+        fromRow: i + 1,
+        toRow: rawData.length,
+        afterMarker: true,
+        subTableId: profile.splitOnStartMarker
+          ? (groups.length > 0 ? groups.join('') : startMatch[0]).replace(/\s+/g, '').toUpperCase()
+          : undefined,
+      };
+      regions.push(open);
     }
   }
 
-  if (table10CStart === -1) {
-    // Fallback to standard extraction if TABEL 10C not found
-    return extractStandard(worksheet, sheetName);
+  if (regions.length > 0) return regions;
+
+  // No start marker: the whole sheet, cut at the first stop marker
+  const stopRow = rawData.findIndex(row => isStop(rowText(row)));
+  return [{ fromRow: 0, toRow: stopRow === -1 ? rawData.length : stopRow, afterMarker: false }];
+}
+
+function extractRegion(
+  worksheet: XLSX.WorkSheet,
+  rawData: unknown[][],
+  sheetName: string,
+  profile: ExtractionProfile,
+  region: ExtractionRegion,
+  headerContext: HeaderContext,
+  warnings: string[]
+): SheetData {
+  const { fromRow, toRow, subTableId } = region;
+  const label = subTableId ? `${sheetName}_TABEL_${subTableId}` : sheetName;
+  const layoutKey = getHeaderLayoutKey(headerContext.formType, label);
+  const overrideRow = findOverrideRow(rawData, headerContext.overrides, layoutKey, fromRow, toRow);
+
+  // Find the header block (skip letterhead, include stacked/merged header rows)
+  let headerBlock: HeaderBlock;
+  if (profile.headerRows) {
+    headerBlock = fixedHeaderBlock(
+      rawData,
+      fromRow + profile.headerRows.start - 1,
+      fromRow + profile.headerRows.end - 1
+    );
+  } else if (overrideRow !== null) {
+    // The user picked this header row for the layout earlier
+    headerBlock = fixedHeaderBlock(rawData, overrideRow, overrideRow, 'override');
+  } else if (region.afterMarker) {
+    // Header starts right after the marker and may span several rows
+    headerBlock = locateHeaderBlock(worksheet, rawData, { fromRow, toRow });
+  } else {
+    headerBlock = locateHeaderBlock(worksheet, rawData, undefined, profile.fallbackHeaderRow - 1);
   }
 
-  // Extract only TABEL 10C data
-  // Header is typically the row after the title
-  const headerRowIndex = table10CStart + 1;
-  const headerRow = rawData[headerRowIndex] as (string | number | null)[];
-  
-  // Sanitize headers
-  const { sanitizedHeaders } = sanitizeColumnNames(headerRow);
-  
-  // Extract data rows (from after header to before end marker)
-  const dataRows = rawData.slice(headerRowIndex + 1, table10CEnd);
-  
-  // Convert to objects
-  const rows = dataRows.map((row) => {
-    const rowArray = row as unknown[];
-    const obj: Record<string, unknown> = {};
-    sanitizedHeaders.forEach((header, idx) => {
-      obj[header] = rowArray[idx] ?? null;
-    });
-    return obj;
-  });
+  const { names, paths } = flattenHeaderRows(
+    worksheet,
+    rawData,
+    headerBlock.startRow,
+    headerBlock.endRow
+  );
+
+  // Sanitize composite headers, then keep the profile's columns
+  const { sanitizedHeaders } = sanitizeColumnNames(names);
+  const origin = getSheetOrigin(worksheet);
+  const columnIndexes = selectColumns(profile.columns, sanitizedHeaders, paths, origin.c, label, warnings);
+  const headers = columnIndexes.map(idx => sanitizedHeaders[idx]);
+
+  const findProfileColumn = (column: string | undefined): string | undefined => {
+    if (!column) return undefined;
+    const [idx] = selectColumns([column], sanitizedHeaders, paths, origin.c, label, warnings);
+    return idx !== undefined ? sanitizedHeaders[idx] : undefined;
+  };
+  const labelColumn = findProfileColumn(profile.labelColumn);
+  const lineColumn = findProfileColumn(profile.lineColumn);
+
+  // Extract data rows, keeping the worksheet row each one came from
+  const rows = buildRowsWithProvenance(
+    worksheet,
+    rawData,
+    headerBlock.dataStartRow,
+    toRow,
+    headers,
+    columnIndexes,
+    sheetName
+  );
 
   return {
-    sheetName: `${sheetName}_TABEL_10C`,
-    headers: sanitizedHeaders,
-    originalHeaders: headerRow.map(h => String(h ?? '')),
+    sheetName: label,
+    sourceSheetName: sheetName,
+    headers,
+    originalHeaders: columnIndexes.map(idx => paths[idx].join(' > ')),
+    headerPaths: columnIndexes.map(idx => paths[idx]),
+    columnSources: buildColumnSources(headers, origin.c, columnIndexes),
     rows,
     rowCount: rows.length,
+    subTableId,
+    labelColumn,
+    lineColumn,
+    headerDetection: buildHeaderDetection(rawData, headerBlock, layoutKey, fromRow, toRow, origin.r),
+    rowRange: {
+      startRow: headerBlock.startRow + origin.r + 1,
+      endRow: toRow + origin.r,
+    },
+  };
+}
+
+/**
+ * Describe how the header was found, with the best scored rows to choose from
+ */
+function buildHeaderDetection(
+  rawData: unknown[][],
+  headerBlock: HeaderBlock,
+  layoutKey: string,
+  fromRow: number,
+  toRow: number,
+  originRow: number
+): HeaderDetection {
+  return {
+    method: headerBlock.method,
+    confidence: headerBlock.confidence,
+    headerRow: headerBlock.startRow + originRow + 1,
+    layoutKey,
+    candidates: getTopCandidates(scoreHeaderRows(rawData, fromRow, toRow)).map(c => ({
+      row: c.index + originRow + 1,
+      score: c.score,
+      cells: c.cells,
+    })),
   };
 }
 
-function processSheetData(sheetData: SheetData, fileName: string): ProcessedSheet {
+/**
+ * Indexes of the columns a profile keeps. Entries are Excel column letters ("B")
+ * or header names, compared without case, spacing or punctuation.
+ */
+function selectColumns(
+  columns: string[] | undefined,
+  headers: string[],
+  paths: string[][],
+  firstColumn: number,
+  sheetLabel: string,
+  warnings: string[]
+): number[] {
+  if (!columns) return headers.map((_, idx) => idx);
+
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const indexes: number[] = [];
+
+  for (const column of columns) {
+    const idx = /^[A-Z]{1,3}$/.test(column)
+      ? XLSX.utils.decode_col(column) - firstColumn
+      : headers.findIndex((h, i) =>
+          normalize(h) === normalize(column) || normalize(paths[i].join(' ')) === normalize(column)
+        );
+
+    if (idx < 0 || idx >= headers.length) {
+      warnings.push(`Sheet "${sheetLabel}": kolom profil "${column}" tidak ditemukan`);
+    } else if (!indexes.includes(idx)) {
+      indexes.push(idx);
+    }
+  }
+
+  return indexes;
+}
+
+/**
+ * Convert raw rows [fromRow, toRow) to objects tagged with their source sheet and Excel row.
+ * columnIndexes[i] is the raw column of headers[i]. Formula cells also keep their formula text.
+ */
+function buildRowsWithProvenance(
+  worksheet: XLSX.WorkSheet,
+  rawData: unknown[][],
+  fromRow: number,
+  toRow: number,
+  headers: string[],
+  columnIndexes: number[],
+  sourceSheetName: string
+): Record<string, unknown>[] {
+  const origin = getSheetOrigin(worksheet);
+  const rows: Record<string, unknown>[] = [];
+  for (let i = fromRow; i < toRow; i++) {
+    const rowArray = (rawData[i] || []) as unknown[];
+    const obj: Record<string, unknown> = {};
+    const formulas: Record<string, string> = {};
+    headers.forEach((header, idx) => {
+      obj[header] = rowArray[columnIndexes[idx]] ?? null;
+      const cell = worksheet[XLSX.utils.encode_cell({ r: origin.r + i, c: origin.c + columnIndexes[idx] })];
+      if (cell?.f) formulas[header] = cell.f;
+    });
+    obj[SOURCE_SHEET_FIELD] = sourceSheetName;
+    obj[SOURCE_ROW_FIELD] = origin.r + i + 1;
+    if (Object.keys(formulas).length > 0) obj[FORMULAS_FIELD] = formulas;
+    rows.push(obj);
+  }
+  return rows;
+}
+
+function processSheetData(
+  sheetData: SheetData,
+  fileName: string,
+  classification: FormClassification,
+  profile: ExtractionProfile,
+  cleaningRules: CleaningRuleSet,
+  enrichmentOptions: EnrichmentOptions,
+  onStage?: (stage: ETLStage) => void
+): ProcessedSheet {
   // Clean the data
-  const { cleanedData, removedColumns } = cleanData(sheetData.rows, sheetData.headers);
+  onStage?.('clean');
+  const { cleanedData, removedColumns, log: cleaningLog } = cleanData(sheetData.rows, sheetData.headers, cleaningRules);
   
   // Filter out removed columns from headers
   let finalHeaders = sheetData.headers.filter(h => !removedColumns.includes(h));
   let processedData = cleanedData;
+
+  // Resolve the canonical fields once; enrichment and the MKBD rules read this mapping
+  let fieldMapping = resolveFieldMapping(finalHeaders, classification.formType);
   
   // Apply enrichment if master data is loaded
   let enrichmentStats = null;
+  let masterVersionId: string | undefined;
   if (isMasterLoaded()) {
-    const enrichmentResult = processEnrichmentPipeline(cleanedData, finalHeaders);
+    masterVersionId = getActiveMasterVersion()?.id;
+    onStage?.('enrich');
+    const enrichmentResult = processEnrichmentPipeline(cleanedData, finalHeaders, fieldMapping, enrichmentOptions);
     processedData = enrichmentResult.processedData;
     finalHeaders = enrichmentResult.newHeaders;
+    fieldMapping = enrichmentResult.fieldMapping;
     enrichmentStats = enrichmentResult.stats;
   }
 
+  // Type every column once, so consumers don't re-parse text cells
+  const { data: typedData, columnSchema } = applyColumnSchema(processedData, finalHeaders);
+
   // Add metadata columns
   const uploadDate = new Date().toISOString();
-  const dataWithMetadata = processedData.map((row) => ({
+  const dataWithMetadata = typedData.map((row) => ({
     ...row,
     _fileName: fileName,
     _uploadDate: uploadDate,
@@ -217,14 +553,33 @@ function processSheetData(sheetData: SheetData, fileName: string): ProcessedShee
   return {
     sheetName: sheetData.sheetName,
     tableName: sanitizeTableName(sheetData.sheetName),
-    headers: [...finalHeaders, '_fileName', '_uploadDate'],
+    formType: classification.formType,
+    formConfidence: classification.confidence,
+    subTableId: sheetData.subTableId,
+    sourceSheetName: sheetData.sourceSheetName,
+    columnSources: sheetData.columnSources,
+    originalHeaders: Object.fromEntries(sheetData.headers.map((h, idx) => [h, sheetData.headerPaths[idx] ?? []])),
+    labelColumn: sheetData.labelColumn && finalHeaders.includes(sheetData.labelColumn)
+      ? sheetData.labelColumn
+      : undefined,
+    lineColumn: sheetData.lineColumn && finalHeaders.includes(sheetData.lineColumn)
+      ? sheetData.lineColumn
+      : detectLineColumn(finalHeaders, typedData),
+    headerDetection: sheetData.headerDetection,
+    headers: [...finalHeaders, SOURCE_SHEET_FIELD, SOURCE_ROW_FIELD, '_fileName', '_uploadDate'],
+    columnSchema,
+    fieldMapping,
+    cleaningLog,
     data: dataWithMetadata,
     metadata: {
       fileName,
       uploadDate,
       originalRowCount: sheetData.rowCount,
       cleanedRowCount: cleanedData.length,
+      sourceRowRange: sheetData.rowRange,
+      extractionProfileId: profile.id,
       enrichmentStats,
+      masterVersionId,
     },
   };
 }
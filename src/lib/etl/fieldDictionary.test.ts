@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeFieldIssues,
+  headerNamesField,
+  normalizeHeaderName,
+  resolveFieldMapping,
+  withDerivedColumns,
+} from './fieldDictionary';
+
+describe('resolveFieldMapping', () => {
+  it('maps each header to the field it names most specifically', () => {
+    const { columns, issues } = resolveFieldMapping(
+      ['Kode', 'Nama_Efek', 'Nilai_Pasar_Wajar', 'Grup_Nilai_Pasar_Wajar', 'Nilai Rangking Liabilities'],
+      'VD510'
+    );
+
+    expect(columns).toEqual({
+      KODE_EFEK: 'Kode',
+      NAMA_EFEK: 'Nama_Efek',
+      NILAI_PASAR_WAJAR: 'Nilai_Pasar_Wajar',
+      GRUP_NILAI_PASAR_WAJAR: 'Grup_Nilai_Pasar_Wajar',
+      NILAI_RANKING_LIABILITIES: 'Nilai Rangking Liabilities',
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('takes the closing balance, not the opening or previous one', () => {
+    const { columns } = resolveFieldMapping(['Saldo Awal', 'Saldo Bulan Lalu', 'Saldo Bulan Ini'], 'VD51');
+    expect(columns.SALDO).toBe('Saldo Bulan Ini');
+  });
+
+  it('reports equally good columns as ambiguous instead of guessing', () => {
+    const { columns, issues } = resolveFieldMapping(['Saldo Akhir', 'Saldo Bulan Ini'], 'VD51');
+
+    expect(columns.SALDO).toBeUndefined();
+    expect(issues).toEqual([{ field: 'SALDO', kind: 'ambiguous', candidates: ['Saldo Akhir', 'Saldo Bulan Ini'] }]);
+  });
+
+  it('reports missing columns only for the forms that need them', () => {
+    expect(resolveFieldMapping(['Uraian', 'Keterangan'], 'VD59').issues).toEqual([
+      { field: 'JUMLAH', kind: 'missing', candidates: [] },
+      { field: 'TOTAL', kind: 'missing', candidates: [] },
+    ]);
+    expect(resolveFieldMapping(['Uraian', 'Keterangan'], 'VD51').issues.map(i => i.field)).toEqual(['SALDO']);
+    expect(resolveFieldMapping(['Uraian', 'Keterangan']).issues).toEqual([]);
+  });
+
+  it('ignores metadata columns', () => {
+    expect(resolveFieldMapping(['_kode', 'Kode Saham']).columns.KODE_EFEK).toBe('Kode Saham');
+  });
+});
+
+describe('withDerivedColumns', () => {
+  it('adds pipeline columns and drops their issues', () => {
+    const mapping = resolveFieldMapping(['Grup', 'Group', 'Jumlah'], 'VD59');
+    expect(mapping.issues.map(i => i.field)).toEqual(['GRUP_EMITEN', 'TOTAL']);
+
+    const derived = withDerivedColumns(mapping, { GRUP_EMITEN: 'GRUP_EMITEN' });
+    expect(derived.columns).toEqual({ JUMLAH: 'Jumlah', GRUP_EMITEN: 'GRUP_EMITEN' });
+    expect(derived.issues.map(i => i.field)).toEqual(['TOTAL']);
+  });
+});
+
+describe('header helpers', () => {
+  it('tells whether a header names a field on its own', () => {
+    expect(headerNamesField('Kode', 'KODE_EFEK')).toBe(true);
+    expect(headerNamesField('Kode Efek', 'KODE_EFEK')).toBe(true);
+    expect(headerNamesField('Kode Akun Pos', 'KODE_EFEK')).toBe(false);
+    expect(headerNamesField('Saldo Awal', 'SALDO')).toBe(false);
+  });
+
+  it('normalizes headers to lowercase letters and digits', () => {
+    expect(normalizeHeaderName('Nilai_Pasar Wajar (Rp)')).toBe('nilaipasarwajarrp');
+  });
+
+  it('describes issues with the field labels', () => {
+    expect(
+      describeFieldIssues([
+        { field: 'TOTAL', kind: 'missing', candidates: [] },
+        { field: 'SALDO', kind: 'ambiguous', candidates: ['A', 'B'] },
+      ])
+    ).toEqual(['kolom Total tidak ditemukan', 'kolom Saldo ambigu (A, B), tidak dipilih otomatis']);
+  });
+});
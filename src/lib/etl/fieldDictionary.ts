@@ -0,0 +1,208 @@
+// Field Dictionary - Canonical fields with their Indonesian and English header synonyms
+import { CanonicalField, FieldMapping, FieldMappingIssue, MKBDFormType, ProcessedSheet } from './types';
+import { isMetadataField } from './provenance';
+
+export interface FieldDefinition {
+  field: CanonicalField;
+  label: string;
+  // Phrases that may appear anywhere in a header ("Saldo Bulan Ini" holds "saldo")
+  synonyms: string[];
+  // Names the whole header must equal; for words too generic to match inside a header
+  exactNames?: string[];
+  // Headers with any of these words never hold the field
+  excludeWords?: string[];
+  // Forms whose calculations need the field; a missing column is reported for them
+  requiredFor?: MKBDFormType[];
+}
+
+export const FIELD_DICTIONARY: FieldDefinition[] = [
+  {
+    field: 'KODE_EFEK',
+    label: 'Kode Efek',
+    synonyms: ['kode efek', 'kode saham', 'kode obligasi', 'stock code', 'security code', 'ticker', 'symbol'],
+    exactNames: ['kode', 'code'],
+  },
+  {
+    field: 'NAMA_EFEK',
+    label: 'Nama Efek',
+    synonyms: ['nama efek', 'jenis efek', 'nama saham', 'nama akun', 'security name'],
+  },
+  {
+    field: 'NILAI_PASAR_WAJAR',
+    label: 'Nilai Pasar Wajar',
+    synonyms: ['nilai pasar wajar', 'nilai pasar', 'nilai wajar', 'market value', 'fair value'],
+    exactNames: ['npw'],
+  },
+  {
+    field: 'GRUP_NILAI_PASAR_WAJAR',
+    label: 'Grup Nilai Pasar Wajar',
+    synonyms: ['grup nilai pasar wajar', 'group market value', 'group fair value'],
+  },
+  {
+    field: 'GRUP_EMITEN',
+    label: 'Grup Emiten',
+    synonyms: ['grup emiten', 'grup afiliasi', 'afiliasi', 'issuer group'],
+    exactNames: ['grup', 'group'],
+  },
+  {
+    field: 'NILAI_RANKING_LIABILITIES',
+    label: 'Nilai Ranking Liabilities',
+    synonyms: [
+      'nilai ranking liabilities',
+      'nilai rangking liabilities',
+      'ranking liabilities',
+      'rangking liabilities',
+      'ranking liabilitas',
+      'rangking liabilitas',
+    ],
+    requiredFor: ['VD510'],
+  },
+  {
+    field: 'SALDO',
+    label: 'Saldo',
+    synonyms: ['saldo', 'balance'],
+    // The closing balance, not the opening or the previous period's comparative column
+    excludeWords: ['awal', 'lalu', 'sebelumnya', 'opening', 'previous', 'prior'],
+    requiredFor: ['VD51', 'VD52'],
+  },
+  {
+    field: 'JUMLAH',
+    label: 'Jumlah',
+    synonyms: ['jumlah', 'amount'],
+    requiredFor: ['VD59'],
+  },
+  {
+    field: 'TOTAL',
+    label: 'Total',
+    synonyms: [],
+    exactNames: ['total'],
+    requiredFor: ['VD59'],
+  },
+];
+
+// An exact match outranks any phrase found inside a longer header
+const EXACT_MATCH_BONUS = 100;
+
+/**
+ * Header text reduced to lowercase letters and digits, for comparing headers
+ */
+export function normalizeHeaderName(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) return true;
+  }
+  return false;
+}
+
+/**
+ * How well a header names a field: 0 for no match, longer phrases score higher,
+ * exact matches highest
+ */
+function matchStrength(headerWords: string[], definition: FieldDefinition): number {
+  if (definition.excludeWords?.some(word => headerWords.includes(word))) return 0;
+
+  const isExact = (name: string) => toWords(name).join(' ') === headerWords.join(' ');
+  let strength = 0;
+  for (const name of definition.exactNames ?? []) {
+    if (isExact(name)) strength = Math.max(strength, EXACT_MATCH_BONUS + toWords(name).length);
+  }
+  for (const synonym of definition.synonyms) {
+    const phrase = toWords(synonym);
+    if (isExact(synonym)) strength = Math.max(strength, EXACT_MATCH_BONUS + phrase.length);
+    else if (containsPhrase(headerWords, phrase)) strength = Math.max(strength, phrase.length);
+  }
+  return strength;
+}
+
+/**
+ * Whether a header, taken on its own, names the field (e.g. "Kode" names KODE_EFEK)
+ */
+export function headerNamesField(header: string, field: CanonicalField): boolean {
+  const definition = FIELD_DICTIONARY.find(d => d.field === field);
+  return !!definition && matchStrength(toWords(header), definition) > 0;
+}
+
+/**
+ * Map the canonical fields to a sheet's headers. Each header belongs to the field it
+ * names most specifically ("Grup_Nilai_Pasar_Wajar" is not a Nilai Pasar Wajar column);
+ * a field with several equally good columns is reported as ambiguous rather than guessed.
+ */
+export function resolveFieldMapping(headers: string[], formType: MKBDFormType = 'UNKNOWN'): FieldMapping {
+  const candidates = new Map<CanonicalField, { header: string; strength: number }[]>();
+
+  for (const header of headers) {
+    if (isMetadataField(header)) continue;
+    const words = toWords(header);
+    const strengths = FIELD_DICTIONARY.map(definition => matchStrength(words, definition));
+    const best = Math.max(...strengths);
+    if (best === 0) continue;
+
+    FIELD_DICTIONARY.forEach((definition, idx) => {
+      if (strengths[idx] !== best) return;
+      const list = candidates.get(definition.field) ?? [];
+      list.push({ header, strength: best });
+      candidates.set(definition.field, list);
+    });
+  }
+
+  const columns: FieldMapping['columns'] = {};
+  const issues: FieldMappingIssue[] = [];
+
+  for (const definition of FIELD_DICTIONARY) {
+    const matches = candidates.get(definition.field) ?? [];
+    const top = Math.max(0, ...matches.map(m => m.strength));
+    const best = matches.filter(m => m.strength === top).map(m => m.header);
+
+    if (best.length === 1) {
+      columns[definition.field] = best[0];
+    } else if (best.length > 1) {
+      issues.push({ field: definition.field, kind: 'ambiguous', candidates: best });
+    } else if (definition.requiredFor?.includes(formType)) {
+      issues.push({ field: definition.field, kind: 'missing', candidates: [] });
+    }
+  }
+
+  return { columns, issues };
+}
+
+/**
+ * Add columns created by the pipeline itself (enrichment), replacing any issue of those fields
+ */
+export function withDerivedColumns(
+  mapping: FieldMapping,
+  derived: Partial<Record<CanonicalField, string>>
+): FieldMapping {
+  return {
+    columns: { ...mapping.columns, ...derived },
+    issues: mapping.issues.filter(issue => !(issue.field in derived)),
+  };
+}
+
+/**
+ * Header holding a canonical field on a sheet, or undefined when it was not resolved
+ */
+export function getFieldColumn(sheet: ProcessedSheet, field: CanonicalField): string | undefined {
+  return sheet.fieldMapping.columns[field];
+}
+
+export function getFieldLabel(field: CanonicalField): string {
+  return FIELD_DICTIONARY.find(d => d.field === field)?.label ?? field;
+}
+
+/**
+ * One readable line per mapping issue, for extraction warnings
+ */
+export function describeFieldIssues(issues: FieldMappingIssue[]): string[] {
+  return issues.map(issue =>
+    issue.kind === 'missing'
+      ? `kolom ${getFieldLabel(issue.field)} tidak ditemukan`
+      : `kolom ${getFieldLabel(issue.field)} ambigu (${issue.candidates.join(', ')}), tidak dipilih otomatis`
+  );
+}
@@ -0,0 +1,117 @@
+// Form Classifier - Identifies MKBD forms (VD51, VD52, VD59, VD510, ...) by sheet content
+import { MKBDFormType, FormClassification, ProcessedSheet } from './types';
+
+interface FormSignature {
+  label: string;
+  pattern: RegExp;
+  weight: number;
+}
+
+type ClassifiedForm = Exclude<MKBDFormType, 'UNKNOWN'>;
+
+// Signature labels that appear in the body of each official form.
+// Strong, form-specific labels carry more weight than generic ones.
+const FORM_SIGNATURES: Record<ClassifiedForm, FormSignature[]> = {
+  VD51: [
+    { label: 'TOTAL ASET LANCAR', pattern: /total\s*aset\s*lancar/i, weight: 5 },
+    { label: 'KAS DAN SETARA KAS', pattern: /kas\s*(dan|&)?\s*setara\s*kas/i, weight: 2 },
+    { label: 'PIUTANG NASABAH', pattern: /piutang\s*nasabah/i, weight: 2 },
+    { label: 'PORTOFOLIO EFEK', pattern: /portofolio\s*efek/i, weight: 1 },
+    { label: 'TOTAL ASET', pattern: /total\s*aset(?!\s*lancar)/i, weight: 1 },
+  ],
+  VD52: [
+    { label: 'TOTAL LIABILITAS', pattern: /total\s*liabilitas/i, weight: 4 },
+    { label: 'TOTAL EKUITAS', pattern: /total\s*ekuitas/i, weight: 4 },
+    { label: 'UTANG SUB-ORDINASI', pattern: /utang\s*sub[-\s]?ordinasi/i, weight: 2 },
+    { label: 'LIABILITAS DAN EKUITAS', pattern: /liabilitas\s*(dan|&)\s*ekuitas/i, weight: 2 },
+  ],
+  VD59: [
+    { label: 'NILAI MKBD YANG DIWAJIBKAN', pattern: /nilai\s*mkbd\s*yang\s*diwajibkan/i, weight: 5 },
+    { label: 'MODAL KERJA BERSIH DISESUAIKAN', pattern: /modal\s*kerja\s*bersih\s*disesuaikan/i, weight: 5 },
+    { label: 'LEBIH (KURANG) MKBD', pattern: /lebih\s*\(?kurang\)?\s*mkbd/i, weight: 4 },
+    { label: 'TOTAL MODAL KERJA', pattern: /total\s*modal\s*kerja/i, weight: 2 },
+  ],
+  VD510: [
+    { label: 'TABEL 10C', pattern: /tabel\s*10\s*c\b/i, weight: 5 },
+    { label: 'TABEL 10', pattern: /tabel\s*10\s*[a-h]\b/i, weight: 3 },
+    { label: 'NILAI RANGKING LIABILITIES', pattern: /nilai\s*rang?king\s*liabilit/i, weight: 3 },
+    { label: 'REVERSE REPO', pattern: /reverse\s*repo/i, weight: 1 },
+    { label: 'PENJAMINAN EMISI', pattern: /penjaminan\s*emisi/i, weight: 1 },
+  ],
+};
+
+// Sheet-name hints are kept only as a weak tie-breaker, never as the sole signal
+const SHEET_NAME_HINTS: Record<ClassifiedForm, RegExp> = {
+  VD51: /vd5[-_.\s]?1(?!\d)|formulir[-_\s]*1(?!\d)/i,
+  VD52: /vd5[-_.\s]?2(?!\d)|formulir[-_\s]*2(?!\d)/i,
+  VD59: /vd5[-_.\s]?9(?!\d)|formulir[-_\s]*9(?!\d)/i,
+  VD510: /vd5[-_.\s]?10(?!\d)|formulir[-_\s]*10(?!\d)/i,
+};
+
+const SHEET_NAME_HINT_WEIGHT = 2;
+
+// Minimum share of a form's signature weight required to accept a classification
+const MIN_CONFIDENCE = 0.25;
+
+/**
+ * Classify a worksheet by fingerprinting its text content against form signatures
+ */
+export function classifyForm(rawData: unknown[][], sheetName = ''): FormClassification {
+  const sheetText = rawData
+    .map(row => (row || [])
+      .filter(c => typeof c === 'string')
+      .join(' '))
+    .join('\n')
+    .replace(/[ \t]+/g, ' ');
+
+  let best: FormClassification = { formType: 'UNKNOWN', confidence: 0, matchedSignatures: [] };
+
+  for (const [formType, signatures] of Object.entries(FORM_SIGNATURES)) {
+    const maxScore = signatures.reduce((sum, s) => sum + s.weight, 0) + SHEET_NAME_HINT_WEIGHT;
+    const matchedSignatures: string[] = [];
+    let score = 0;
+
+    for (const signature of signatures) {
+      if (signature.pattern.test(sheetText)) {
+        score += signature.weight;
+        matchedSignatures.push(signature.label);
+      }
+    }
+
+    // Only trust the sheet name once the content already points to this form
+    if (score > 0 && SHEET_NAME_HINTS[formType as ClassifiedForm].test(sheetName)) {
+      score += SHEET_NAME_HINT_WEIGHT;
+      matchedSignatures.push(`Nama sheet "${sheetName}"`);
+    }
+
+    const confidence = score / maxScore;
+    if (confidence > best.confidence) {
+      best = { formType: formType as MKBDFormType, confidence, matchedSignatures };
+    }
+  }
+
+  if (best.confidence < MIN_CONFIDENCE) {
+    return { ...best, formType: 'UNKNOWN' };
+  }
+
+  return best;
+}
+
+/**
+ * Find the processed sheet for a form, preferring the most confident classification
+ */
+export function findSheetByForm(
+  sheets: ProcessedSheet[],
+  formType: MKBDFormType
+): ProcessedSheet | undefined {
+  return sheets
+    .filter(s => s.formType === formType)
+    .sort((a, b) => b.formConfidence - a.formConfidence)[0];
+}
+
+/**
+ * All processed sheets of a form (e.g. every VD510 sub-table)
+ */
+export function findSheetsByForm(sheets: ProcessedSheet[], formType: MKBDFormType): ProcessedSheet[] {
+  return sheets.filter(s => s.formType === formType);
+}
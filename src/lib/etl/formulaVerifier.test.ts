@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { evaluateFormula, verifyWorksheetFormulas } from './formulaVerifier';
+
+function workbookOf(sheets: Record<string, XLSX.WorkSheet>): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, sheet] of Object.entries(sheets)) XLSX.utils.book_append_sheet(workbook, sheet, name);
+  return workbook;
+}
+
+function withFormulas(rows: unknown[][], formulas: Record<string, string>): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  for (const [address, formula] of Object.entries(formulas)) sheet[address].f = formula;
+  return sheet;
+}
+
+describe('evaluateFormula', () => {
+  const workbook = workbookOf({
+    VD59: XLSX.utils.aoa_to_sheet([[10, 20, 'teks'], [30, 40, null]]),
+    'Data Lain': XLSX.utils.aoa_to_sheet([[5]]),
+  });
+
+  it('evaluates arithmetic with precedence and percentages', () => {
+    expect(evaluateFormula('=A1+B1*2', workbook, 'VD59')).toBe(50);
+    expect(evaluateFormula('=(A1+B1)*2', workbook, 'VD59')).toBe(60);
+    expect(evaluateFormula('=2^3-1', workbook, 'VD59')).toBe(7);
+    expect(evaluateFormula('=A2*10%', workbook, 'VD59')).toBeCloseTo(3);
+  });
+
+  it('evaluates SUM, MAX, MIN and IF over ranges, skipping text cells', () => {
+    expect(evaluateFormula('=SUM(A1:C2)', workbook, 'VD59')).toBe(100);
+    expect(evaluateFormula('=MAX(A1:B2)', workbook, 'VD59')).toBe(40);
+    expect(evaluateFormula('=MIN(A1:B2,5)', workbook, 'VD59')).toBe(5);
+    expect(evaluateFormula('=IF(A1>B1,1,2)', workbook, 'VD59')).toBe(2);
+  });
+
+  it('follows references to other sheets', () => {
+    expect(evaluateFormula("='Data Lain'!A1*2", workbook, 'VD59')).toBe(10);
+  });
+
+  it('gives null for formulas outside the supported subset', () => {
+    expect(evaluateFormula('=VLOOKUP(A1,A1:B2,2,FALSE)', workbook, 'VD59')).toBeNull();
+    expect(evaluateFormula('=C1+1', workbook, 'VD59')).toBeNull();
+    expect(evaluateFormula('=Tidak_Ada!A1', workbook, 'VD59')).toBeNull();
+  });
+});
+
+describe('verifyWorksheetFormulas', () => {
+  it('reports cached values that differ from the formula result', () => {
+    const sheet = withFormulas([[100, 200, 300], [1, 2, 4]], { C1: 'A1+B1', C2: 'A2+B2' });
+    const issues = verifyWorksheetFormulas(workbookOf({ VD59: sheet }), 'VD59');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      type: 'mismatch',
+      cellAddress: 'VD59!C2',
+      formula: 'A2+B2',
+      cachedValue: 4,
+      computedValue: 3,
+    });
+  });
+
+  it('flags totals typed in a column that is otherwise computed', () => {
+    const sheet = withFormulas(
+      [
+        ['Saham A', 100, 110],
+        ['Saham B', 200, 220],
+        ['Total', 300, 330],
+      ],
+      { C1: 'B1*1.1', C2: 'B2*1.1' }
+    );
+    const issues = verifyWorksheetFormulas(workbookOf({ 'VD5 9': sheet }), 'VD5 9');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'hardcoded-total', cellAddress: "'VD5 9'!C3", cachedValue: 330 });
+  });
+
+  it('reports nothing for a sheet without formulas', () => {
+    const sheet = XLSX.utils.aoa_to_sheet([['Total', 300]]);
+    expect(verifyWorksheetFormulas(workbookOf({ VD59: sheet }), 'VD59')).toEqual([]);
+  });
+});
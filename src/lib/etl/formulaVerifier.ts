@@ -0,0 +1,369 @@
+// Formula Verifier - Re-evaluates worksheet formulas and checks them against cached values
+import * as XLSX from 'xlsx';
+import { FormulaIssue } from './types';
+import { formatCellRef } from './provenance';
+
+// Rows whose label marks a total, which is expected to be a formula
+const TOTAL_LABEL_PATTERN = /\b(sub\s*)?total\b|\bjumlah\b/i;
+
+// Allowed difference between the cached value and the re-evaluated formula
+const RELATIVE_TOLERANCE = 1e-6;
+
+/**
+ * Thrown for formulas outside the supported subset (text, lookups, named ranges, errors ...).
+ * Such cells are skipped instead of being reported.
+ */
+class UnsupportedFormulaError extends Error {}
+
+type FormulaValue = number | number[];
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'ref'; sheet: string | null; start: string; end: string | null }
+  | { kind: 'func'; name: string }
+  | { kind: 'bool'; value: number }
+  | { kind: 'op'; value: string };
+
+const REF_PATTERN = /^(?:('(?:[^']|'')+'|[A-Za-z0-9_.]+)!)?(\$?[A-Z]{1,3}\$?\d+)(?::(\$?[A-Z]{1,3}\$?\d+))?/;
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*/;
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '(', ')', ',', '=', '<', '>', '%'];
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let rest = formula.trim().replace(/^=/, '');
+
+  while (rest.length > 0) {
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      rest = rest.slice(whitespace[0].length);
+      continue;
+    }
+
+    const ref = rest.match(REF_PATTERN);
+    if (ref && rest[ref[0].length] !== '(') {
+      const sheet = ref[1] ? ref[1].replace(/^'|'$/g, '').replace(/''/g, "'") : null;
+      tokens.push({
+        kind: 'ref',
+        sheet,
+        start: ref[2].replace(/\$/g, ''),
+        end: ref[3] ? ref[3].replace(/\$/g, '') : null,
+      });
+      rest = rest.slice(ref[0].length);
+      continue;
+    }
+
+    const number = rest.match(NUMBER_PATTERN);
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]) });
+      rest = rest.slice(number[0].length);
+      continue;
+    }
+
+    const name = rest.match(NAME_PATTERN);
+    if (name) {
+      const upper = name[0].toUpperCase().replace(/^_XLFN\./, '');
+      rest = rest.slice(name[0].length);
+      if (rest.trimStart().startsWith('(')) {
+        tokens.push({ kind: 'func', name: upper });
+      } else if (upper === 'TRUE' || upper === 'FALSE') {
+        tokens.push({ kind: 'bool', value: upper === 'TRUE' ? 1 : 0 });
+      } else {
+        throw new UnsupportedFormulaError(`Nama "${name[0]}" tidak didukung`);
+      }
+      continue;
+    }
+
+    const op = OPERATORS.find(o => rest.startsWith(o));
+    if (!op) {
+      throw new UnsupportedFormulaError(`Karakter "${rest[0]}" tidak didukung`);
+    }
+    tokens.push({ kind: 'op', value: op });
+    rest = rest.slice(op.length);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent evaluator for arithmetic, comparisons, SUM, MAX, MIN and IF
+ */
+class FormulaEvaluator {
+  private pos = 0;
+
+  constructor(
+    private tokens: Token[],
+    private workbook: XLSX.WorkBook,
+    private sheetName: string
+  ) {}
+
+  evaluate(): number {
+    const value = this.scalar(this.comparison());
+    if (this.pos < this.tokens.length) {
+      throw new UnsupportedFormulaError('Sisa token tidak terbaca');
+    }
+    return value;
+  }
+
+  private peekOp(...ops: string[]): string | null {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'op' && ops.includes(token.value) ? token.value : null;
+  }
+
+  private expectOp(op: string): void {
+    if (!this.peekOp(op)) throw new UnsupportedFormulaError(`"${op}" diharapkan`);
+    this.pos++;
+  }
+
+  private scalar(value: FormulaValue): number {
+    if (Array.isArray(value)) throw new UnsupportedFormulaError('Rentang di luar fungsi');
+    return value;
+  }
+
+  private comparison(): FormulaValue {
+    let left = this.additive();
+    let op: string | null;
+    while ((op = this.peekOp('=', '<>', '<', '>', '<=', '>='))) {
+      this.pos++;
+      const a = this.scalar(left);
+      const b = this.scalar(this.additive());
+      const result = {
+        '=': a === b,
+        '<>': a !== b,
+        '<': a < b,
+        '>': a > b,
+        '<=': a <= b,
+        '>=': a >= b,
+      }[op];
+      left = result ? 1 : 0;
+    }
+    return left;
+  }
+
+  private additive(): FormulaValue {
+    let left = this.term();
+    let op: string | null;
+    while ((op = this.peekOp('+', '-'))) {
+      this.pos++;
+      const right = this.scalar(this.term());
+      left = op === '+' ? this.scalar(left) + right : this.scalar(left) - right;
+    }
+    return left;
+  }
+
+  private term(): FormulaValue {
+    let left = this.power();
+    let op: string | null;
+    while ((op = this.peekOp('*', '/'))) {
+      this.pos++;
+      const right = this.scalar(this.power());
+      if (op === '/' && right === 0) throw new UnsupportedFormulaError('#DIV/0!');
+      left = op === '*' ? this.scalar(left) * right : this.scalar(left) / right;
+    }
+    return left;
+  }
+
+  private power(): FormulaValue {
+    let left = this.unary();
+    while (this.peekOp('^')) {
+      this.pos++;
+      left = Math.pow(this.scalar(left), this.scalar(this.unary()));
+    }
+    return left;
+  }
+
+  private unary(): FormulaValue {
+    const op = this.peekOp('+', '-');
+    if (op) {
+      this.pos++;
+      const value = this.scalar(this.unary());
+      return op === '-' ? -value : value;
+    }
+
+    let value = this.primary();
+    while (this.peekOp('%')) {
+      this.pos++;
+      value = this.scalar(value) / 100;
+    }
+    return value;
+  }
+
+  private primary(): FormulaValue {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new UnsupportedFormulaError('Rumus tidak lengkap');
+
+    switch (token.kind) {
+      case 'number':
+      case 'bool':
+        return token.value;
+      case 'ref':
+        return token.end
+          ? this.rangeValues(token.sheet, token.start, token.end)
+          : this.cellValue(token.sheet, token.start);
+      case 'func':
+        return this.callFunction(token.name);
+      case 'op':
+        if (token.value === '(') {
+          const value = this.comparison();
+          this.expectOp(')');
+          return value;
+        }
+    }
+    throw new UnsupportedFormulaError('Token tidak terduga');
+  }
+
+  private callFunction(name: string): number {
+    this.expectOp('(');
+    const args: FormulaValue[] = [];
+    if (!this.peekOp(')')) {
+      args.push(this.comparison());
+      while (this.peekOp(',')) {
+        this.pos++;
+        args.push(this.comparison());
+      }
+    }
+    this.expectOp(')');
+
+    const numbers = args.flat();
+    switch (name) {
+      case 'SUM':
+        return numbers.reduce((sum, n) => sum + n, 0);
+      case 'MAX':
+        return numbers.length > 0 ? Math.max(...numbers) : 0;
+      case 'MIN':
+        return numbers.length > 0 ? Math.min(...numbers) : 0;
+      case 'IF': {
+        if (args.length < 2 || args.length > 3) throw new UnsupportedFormulaError('IF butuh 2-3 argumen');
+        const condition = this.scalar(args[0]);
+        return condition !== 0 ? this.scalar(args[1]) : args.length === 3 ? this.scalar(args[2]) : 0;
+      }
+      default:
+        throw new UnsupportedFormulaError(`Fungsi ${name} tidak didukung`);
+    }
+  }
+
+  private getSheet(sheet: string | null): XLSX.WorkSheet {
+    const worksheet = this.workbook.Sheets[sheet ?? this.sheetName];
+    if (!worksheet) throw new UnsupportedFormulaError(`Sheet "${sheet}" tidak ditemukan`);
+    return worksheet;
+  }
+
+  // A single referenced cell: blank counts as 0, text must be numeric
+  private cellValue(sheet: string | null, address: string): number {
+    const cell = this.getSheet(sheet)[address] as XLSX.CellObject | undefined;
+    if (!cell || cell.t === 'z' || cell.v === undefined || cell.v === null || cell.v === '') return 0;
+    if (cell.t === 'n') return cell.v as number;
+    if (cell.t === 'b') return cell.v ? 1 : 0;
+    if (cell.t === 's') {
+      const parsed = Number(String(cell.v).trim());
+      if (String(cell.v).trim() !== '' && isFinite(parsed)) return parsed;
+    }
+    throw new UnsupportedFormulaError(`Nilai sel ${address} bukan angka`);
+  }
+
+  // Range arguments keep only numeric cells, as SUM/MAX/MIN do in Excel
+  private rangeValues(sheet: string | null, start: string, end: string): number[] {
+    const worksheet = this.getSheet(sheet);
+    const range = XLSX.utils.decode_range(`${start}:${end}`);
+    const values: number[] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+        if (cell?.t === 'n') values.push(cell.v as number);
+      }
+    }
+    return values;
+  }
+}
+
+/**
+ * Evaluate a formula against the workbook's cached cell values.
+ * Returns null for formulas outside the supported subset.
+ */
+export function evaluateFormula(
+  formula: string,
+  workbook: XLSX.WorkBook,
+  sheetName: string
+): number | null {
+  try {
+    return new FormulaEvaluator(tokenize(formula), workbook, sheetName).evaluate();
+  } catch (error) {
+    if (error instanceof UnsupportedFormulaError) return null;
+    throw error;
+  }
+}
+
+function rowLabel(worksheet: XLSX.WorkSheet, r: number, range: XLSX.Range): string {
+  const parts: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+    if (cell?.t === 's') parts.push(String(cell.v));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Check every formula of a worksheet against its cached value, and flag numeric cells
+ * on total rows that are typed in although their column is otherwise computed
+ */
+export function verifyWorksheetFormulas(workbook: XLSX.WorkBook, sheetName: string): FormulaIssue[] {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet?.['!ref']) return [];
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const issues: FormulaIssue[] = [];
+  const formulaColumns = new Set<number>();
+
+  // Pass 1: re-evaluate formulas
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const address = XLSX.utils.encode_cell({ r, c });
+      const cell = worksheet[address] as XLSX.CellObject | undefined;
+      if (!cell?.f) continue;
+
+      formulaColumns.add(c);
+      if (cell.t !== 'n') continue;
+
+      const cachedValue = cell.v as number;
+      const computedValue = evaluateFormula(cell.f, workbook, sheetName);
+      if (computedValue === null) continue;
+
+      const tolerance = RELATIVE_TOLERANCE * Math.max(1, Math.abs(cachedValue));
+      if (Math.abs(computedValue - cachedValue) > tolerance) {
+        issues.push({
+          type: 'mismatch',
+          sheetName,
+          cellAddress: formatCellRef(sheetName, XLSX.utils.encode_col(c), r + 1),
+          formula: cell.f,
+          cachedValue,
+          computedValue,
+          message: `Nilai tersimpan ${cachedValue.toLocaleString('id-ID')} tidak sama dengan hasil =${cell.f} (${computedValue.toLocaleString('id-ID')})`,
+        });
+      }
+    }
+  }
+
+  // Pass 2: totals without a formula in columns that are computed elsewhere
+  if (formulaColumns.size === 0) return issues;
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const label = rowLabel(worksheet, r, range);
+    if (!TOTAL_LABEL_PATTERN.test(label)) continue;
+
+    for (const c of formulaColumns) {
+      const address = XLSX.utils.encode_cell({ r, c });
+      const cell = worksheet[address] as XLSX.CellObject | undefined;
+      if (!cell || cell.f || cell.t !== 'n') continue;
+
+      issues.push({
+        type: 'hardcoded-total',
+        sheetName,
+        cellAddress: formatCellRef(sheetName, XLSX.utils.encode_col(c), r + 1),
+        cachedValue: cell.v as number,
+        message: `Total "${label.trim().slice(0, 60)}" diketik manual, bukan rumus`,
+      });
+    }
+  }
+
+  return issues;
+}
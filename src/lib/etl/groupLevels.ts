@@ -0,0 +1,81 @@
+// Group Levels - Drill-down of group totals from UBO to group, sub-group and issuer,
+// and the saved choice of the level ranking liabilities aggregate on
+import { GROUP_LEVEL_COLUMNS } from './enrichment';
+import { GroupLevel, ProcessedSheet } from './types';
+import { getSettingsDatabase, APP_STATE_STORE } from './settingsDb';
+
+const GROUP_LEVEL_KEY = 'groupLevel';
+
+export const GROUP_LEVEL_LABELS: Record<GroupLevel, string> = {
+  afiliasiUtama: 'Afiliasi Utama',
+  subAfiliasi: 'Sub-Afiliasi',
+  uboTokohKunci: 'UBO / Tokoh Kunci',
+};
+
+export interface GroupTreeNode {
+  // Unique among its siblings
+  key: string;
+  name: string;
+  level: GroupLevel | 'issuer';
+  total: number;
+  rowCount: number;
+  children: GroupTreeNode[];
+}
+
+// Top-down order of the drill-down
+const TREE_LEVELS: GroupLevel[] = ['uboTokohKunci', 'afiliasiUtama', 'subAfiliasi'];
+
+function sortTree(nodes: GroupTreeNode[]): GroupTreeNode[] {
+  nodes.sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+  nodes.forEach(node => sortTree(node.children));
+  return nodes;
+}
+
+/**
+ * Market value of an enriched sheet as a tree: UBO, then Afiliasi Utama, Sub-Afiliasi
+ * and the issuers, each node holding the total of the rows below it, largest first
+ */
+export function buildGroupHierarchy(sheet: ProcessedSheet): GroupTreeNode[] {
+  const stats = sheet.metadata.enrichmentStats;
+  if (!stats?.kodeEfekColumn || !stats.nilaiPasarColumn) return [];
+
+  const roots: GroupTreeNode[] = [];
+  const child = (siblings: GroupTreeNode[], key: string, name: string, level: GroupTreeNode['level']) => {
+    let node = siblings.find(n => n.key === key);
+    if (!node) {
+      node = { key, name, level, total: 0, rowCount: 0, children: [] };
+      siblings.push(node);
+    }
+    return node;
+  };
+
+  for (const row of sheet.data) {
+    const kode = String(row[stats.kodeEfekColumn] ?? '').trim().toUpperCase();
+    if (!kode) continue;
+    const value = Number(row['NILAI_PASAR_WAJAR_CLEAN']) || 0;
+
+    let siblings = roots;
+    for (const level of TREE_LEVELS) {
+      const name = String(row[GROUP_LEVEL_COLUMNS[level].name] || 'Non-Grup');
+      const node = child(siblings, name, name, level);
+      node.total += value;
+      node.rowCount++;
+      siblings = node.children;
+    }
+    const issuer = child(siblings, kode, String(row['NAMA_EMITEN_MASTER'] || kode), 'issuer');
+    issuer.total += value;
+    issuer.rowCount++;
+  }
+
+  return sortTree(roots);
+}
+
+export async function loadGroupLevel(): Promise<GroupLevel> {
+  const db = await getSettingsDatabase();
+  return (await db.get(APP_STATE_STORE, GROUP_LEVEL_KEY)) ?? 'afiliasiUtama';
+}
+
+export async function saveGroupLevel(level: GroupLevel): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.put(APP_STATE_STORE, level, GROUP_LEVEL_KEY);
+}
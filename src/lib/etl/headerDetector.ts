@@ -0,0 +1,160 @@
+// Header Detector - Ranks candidate header rows and remembers the user's choice per form layout
+import { HeaderDetection, HeaderRowOverride, MKBDFormType } from './types';
+import { sanitizeTableName } from './sanitizer';
+import { getSettingsDatabase, HEADER_OVERRIDES_STORE } from './settingsDb';
+
+// Below this confidence the user is asked to confirm the header row
+export const LOW_HEADER_CONFIDENCE = 0.6;
+
+const MAX_ROWS_TO_SCAN = 20;
+// Rows below a candidate that are checked for numbers
+const ROWS_BELOW = 5;
+const MAX_CANDIDATES = 5;
+// Score lead over the runner-up at which the best row is fully trusted
+const CERTAIN_MARGIN = 0.4;
+
+const WEIGHTS = { textDensity: 0.45, uniqueness: 0.2, numericBelow: 0.35 };
+
+// Column indicator cells (A, B, 1, (2)) are not header text
+const INDICATOR_CELL = /^\(?([A-Za-z]|\d{1,2})\)?$/;
+const NUMERIC_CELL = /^\(?-?(rp\.?)?\s*[\d.,\s]+%?\)?$/i;
+
+export interface ScoredHeaderRow {
+  // Zero-based index into rawData
+  index: number;
+  score: number;
+  cells: string[];
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+function filledCells(row: unknown[] | undefined): string[] {
+  return (row || []).map(cellText).filter(c => c !== '');
+}
+
+const isNumericCell = (value: unknown) =>
+  typeof value === 'number' || NUMERIC_CELL.test(cellText(value));
+
+const isTextCell = (text: string) => !NUMERIC_CELL.test(text) && !INDICATOR_CELL.test(text);
+
+/**
+ * Mean share of numeric cells over the first non-empty rows below a candidate
+ */
+function numericDensityBelow(rawData: unknown[][], index: number, toRow: number): number {
+  const ratios: number[] = [];
+  for (let r = index + 1; r < toRow && ratios.length < ROWS_BELOW; r++) {
+    const values = (rawData[r] || []).filter(v => cellText(v) !== '');
+    if (values.length === 0) continue;
+    ratios.push(values.filter(isNumericCell).length / values.length);
+  }
+  return ratios.length === 0 ? 0 : ratios.reduce((a, b) => a + b, 0) / ratios.length;
+}
+
+/**
+ * Score rows [fromRow, toRow) as header candidates: a header is wide, textual and
+ * unique, and sits on top of numeric rows. Best first; ties go to the earlier row.
+ */
+export function scoreHeaderRows(rawData: unknown[][], fromRow = 0, toRow = rawData.length): ScoredHeaderRow[] {
+  const lastRow = Math.min(toRow, rawData.length, fromRow + MAX_ROWS_TO_SCAN);
+  const width = Math.max(1, ...rawData.slice(fromRow, lastRow).map(row => filledCells(row).length));
+  const scored: ScoredHeaderRow[] = [];
+
+  for (let i = fromRow; i < lastRow; i++) {
+    const cells = filledCells(rawData[i]);
+    const textCells = cells.filter(isTextCell);
+    // Titles and letterhead lines have a single value; indicator rows have no text
+    if (textCells.length < 2) continue;
+
+    const textDensity = textCells.length / width;
+    const uniqueness = new Set(textCells.map(c => c.toLowerCase())).size / textCells.length;
+    const numericBelow = numericDensityBelow(rawData, i, toRow);
+    const score =
+      WEIGHTS.textDensity * textDensity + WEIGHTS.uniqueness * uniqueness + WEIGHTS.numericBelow * numericBelow;
+
+    scored.push({ index: i, score: Math.round(score * 100) / 100, cells });
+  }
+
+  return scored.sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Pick the header row of rows [fromRow, toRow). Confidence combines the best score
+ * with its lead over the runner-up; without candidates the fallback row is used.
+ */
+export function detectHeaderRow(
+  rawData: unknown[][],
+  fromRow: number,
+  toRow: number,
+  fallbackRow: number
+): { index: number; confidence: number; candidates: ScoredHeaderRow[] } {
+  const candidates = scoreHeaderRows(rawData, fromRow, toRow);
+  const [best, runnerUp] = candidates;
+  if (!best) return { index: fallbackRow, confidence: 0, candidates };
+
+  const margin = best.score - (runnerUp?.score ?? 0);
+  const confidence = Math.min(1, best.score) * Math.min(1, 0.5 + margin / CERTAIN_MARGIN);
+  return { index: best.index, confidence: Math.round(confidence * 100) / 100, candidates };
+}
+
+export function needsHeaderConfirmation(detection: HeaderDetection | undefined): boolean {
+  return !!detection && detection.confidence < LOW_HEADER_CONFIDENCE && detection.candidates.length > 0;
+}
+
+export function getTopCandidates(candidates: ScoredHeaderRow[]): ScoredHeaderRow[] {
+  return candidates.slice(0, MAX_CANDIDATES);
+}
+
+// ============ Manual overrides ============
+
+/**
+ * Layout a header choice is remembered for: the form type and the (sub-)table name
+ */
+export function getHeaderLayoutKey(formType: MKBDFormType, sheetLabel: string): string {
+  return `${formType}:${sanitizeTableName(sheetLabel)}`;
+}
+
+/**
+ * Text of a header row, compared without case or spacing
+ */
+export function headerRowSignature(cells: unknown[]): string {
+  return filledCells(cells).map(c => c.toLowerCase()).join('|');
+}
+
+/**
+ * Row in [fromRow, toRow) chosen by the user for this layout, found by its text.
+ * Null when there is no choice or the layout no longer has that header row.
+ */
+export function findOverrideRow(
+  rawData: unknown[][],
+  overrides: HeaderRowOverride[] = [],
+  layoutKey: string,
+  fromRow: number,
+  toRow: number
+): number | null {
+  const override = overrides.find(o => o.layoutKey === layoutKey);
+  if (!override) return null;
+
+  const lastRow = Math.min(toRow, rawData.length, fromRow + MAX_ROWS_TO_SCAN);
+  for (let i = fromRow; i < lastRow; i++) {
+    if (headerRowSignature(rawData[i] || []) === override.headerSignature) return i;
+  }
+  return null;
+}
+
+export async function loadHeaderOverrides(): Promise<HeaderRowOverride[]> {
+  const db = await getSettingsDatabase();
+  return db.getAll(HEADER_OVERRIDES_STORE);
+}
+
+export async function saveHeaderOverride(override: HeaderRowOverride): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.put(HEADER_OVERRIDES_STORE, { ...override, updatedAt: new Date().toISOString() });
+}
+
+export async function deleteHeaderOverride(layoutKey: string): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.delete(HEADER_OVERRIDES_STORE, layoutKey);
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { fixedHeaderBlock, flattenHeaderRows, getMergedRows, isIndicatorRow, locateHeaderBlock } from './headerFlattener';
+
+// A form with a title, a two-level header ("Saldo" over two months) and an indicator row
+const FORM_ROWS: unknown[][] = [
+  ['LAPORAN VD5.9', null, null, null],
+  ['No', 'Kode Efek', 'Saldo', null],
+  [null, null, 'Bulan Ini', 'Bulan Lalu'],
+  ['A', 'B', 'C', 'D'],
+  [1, 'BBCA', 1000, 900],
+  [2, 'BBRI', 2000, 1800],
+];
+
+function formSheet(): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet(FORM_ROWS);
+  sheet['!merges'] = [
+    XLSX.utils.decode_range('A1:D1'),
+    XLSX.utils.decode_range('A2:A3'),
+    XLSX.utils.decode_range('B2:B3'),
+    XLSX.utils.decode_range('C2:D2'),
+  ];
+  return sheet;
+}
+
+describe('isIndicatorRow', () => {
+  it('accepts increasing letters or numbers', () => {
+    expect(isIndicatorRow(['A', 'B', 'C'])).toBe(true);
+    expect(isIndicatorRow(['(1)', '(2)', null, '(3)'])).toBe(true);
+  });
+
+  it('rejects data rows of small numbers and header text', () => {
+    expect(isIndicatorRow([3, 1, 2])).toBe(false);
+    expect(isIndicatorRow(['No', 'Kode Efek', 'Saldo'])).toBe(false);
+    expect(isIndicatorRow(['A'])).toBe(false);
+  });
+});
+
+describe('getMergedRows', () => {
+  it('fills merged ranges with their top-left value', () => {
+    const rows = getMergedRows(formSheet(), FORM_ROWS, 1, 2);
+    expect(rows[0]).toEqual(['No', 'Kode Efek', 'Saldo', 'Saldo']);
+    expect(rows[1]).toEqual(['No', 'Kode Efek', 'Bulan Ini', 'Bulan Lalu']);
+  });
+
+  it('maps merges of a sheet that does not start at A1', () => {
+    const sheet: XLSX.WorkSheet = {
+      C5: { t: 's', v: 'Saldo' },
+      '!ref': 'C5:D5',
+      '!merges': [XLSX.utils.decode_range('C5:D5')],
+    };
+    expect(getMergedRows(sheet, [['Saldo', null]], 0, 0)).toEqual([['Saldo', 'Saldo']]);
+  });
+});
+
+describe('locateHeaderBlock', () => {
+  it('closes the header block at the indicator row', () => {
+    expect(locateHeaderBlock(formSheet(), FORM_ROWS)).toMatchObject({
+      startRow: 1,
+      endRow: 2,
+      dataStartRow: 4,
+      method: 'indicator',
+    });
+  });
+
+  it('takes the first row of a sub-table range as its header', () => {
+    expect(locateHeaderBlock(formSheet(), FORM_ROWS, { fromRow: 4, toRow: 5 })).toMatchObject({
+      startRow: 4,
+      endRow: 4,
+      dataStartRow: 5,
+      method: 'profile',
+    });
+  });
+});
+
+describe('fixedHeaderBlock', () => {
+  it('skips an indicator row right below the header', () => {
+    expect(fixedHeaderBlock(FORM_ROWS, 1, 2)).toMatchObject({ startRow: 1, endRow: 2, dataStartRow: 4 });
+    expect(fixedHeaderBlock(FORM_ROWS, 3, 3)).toMatchObject({ dataStartRow: 4 });
+  });
+
+  it('clamps rows beyond the data', () => {
+    expect(fixedHeaderBlock(FORM_ROWS, 10, 12)).toMatchObject({ startRow: 5, endRow: 5 });
+  });
+});
+
+describe('flattenHeaderRows', () => {
+  it('joins stacked headers without repeating vertically merged text', () => {
+    const { names, paths } = flattenHeaderRows(formSheet(), FORM_ROWS, 1, 2);
+    expect(names).toEqual(['No', 'Kode Efek', 'Saldo Bulan Ini', 'Saldo Bulan Lalu']);
+    expect(paths[2]).toEqual(['Saldo', 'Bulan Ini']);
+  });
+
+  it('leaves out indicator cells and names empty columns null', () => {
+    const rows = [['Nama', null], ['A', null]];
+    const { names } = flattenHeaderRows(XLSX.utils.aoa_to_sheet(rows), rows, 0, 1);
+    expect(names).toEqual(['Nama', null]);
+  });
+});
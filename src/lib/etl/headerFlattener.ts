@@ -0,0 +1,207 @@
+// Header Flattener - Combines stacked and merged header rows into composite column names
+import * as XLSX from 'xlsx';
+import { detectHeaderRow } from './headerDetector';
+import { HeaderDetectionMethod } from './types';
+
+export interface HeaderBlock {
+  startRow: number;
+  endRow: number;
+  dataStartRow: number;
+  method: HeaderDetectionMethod;
+  confidence: number;
+}
+
+export interface FlattenedHeaders {
+  names: (string | null)[];
+  paths: string[][];
+}
+
+// VD5x forms use at most a group header, a sub-header and a column indicator row
+const MAX_HEADER_LEVELS = 3;
+const MAX_ROWS_TO_SCAN = 20;
+
+// Column indicator cells: A, B, C ... or 1, 2, 3 ... optionally in parentheses
+const INDICATOR_CELL_PATTERN = /^\(?([A-Za-z]|\d{1,2})\)?$/;
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Return a copy of rawData rows [fromRow, toRow] with every merged range
+ * filled with the value of its top-left cell
+ */
+export function getMergedRows(
+  worksheet: XLSX.WorkSheet,
+  rawData: unknown[][],
+  fromRow: number,
+  toRow: number
+): unknown[][] {
+  const origin = getSheetOrigin(worksheet);
+  const rows = rawData.slice(fromRow, toRow + 1).map(row => [...(row || [])]);
+
+  for (const merge of worksheet['!merges'] || []) {
+    const mergeStartRow = merge.s.r - origin.r;
+    const mergeEndRow = merge.e.r - origin.r;
+    if (mergeEndRow < fromRow || mergeStartRow > toRow) continue;
+
+    const anchorCol = merge.s.c - origin.c;
+    const value = rawData[mergeStartRow]?.[anchorCol] ?? null;
+    if (value === null || cellText(value) === '') continue;
+
+    for (let r = Math.max(mergeStartRow, fromRow); r <= Math.min(mergeEndRow, toRow); r++) {
+      const row = rows[r - fromRow];
+      for (let c = anchorCol; c <= merge.e.c - origin.c; c++) {
+        row[c] = value;
+      }
+    }
+  }
+
+  return rows;
+}
+
+// Position of an indicator in its sequence: A -> 1, (3) -> 3
+function indicatorOrdinal(text: string): number {
+  const value = text.match(INDICATOR_CELL_PATTERN)![1];
+  return /\d/.test(value) ? Number(value) : value.toUpperCase().charCodeAt(0) - 64;
+}
+
+/**
+ * Check if a row is the letter/number column indicator row (A, B, C ... or 1, 2, 3 ...).
+ * Indicators run in increasing order, which tells them apart from data rows of small numbers.
+ */
+export function isIndicatorRow(row: unknown[]): boolean {
+  const cells = (row || []).map(cellText).filter(c => c !== '');
+  if (cells.length < 2) return false;
+
+  const indicators = cells.filter(c => INDICATOR_CELL_PATTERN.test(c));
+  if (indicators.length < 2 || indicators.length / cells.length < 0.6) return false;
+
+  const ordinals = indicators.map(indicatorOrdinal);
+  return ordinals.every((ordinal, idx) => idx === 0 || ordinal > ordinals[idx - 1]);
+}
+
+function looksLikeHeaderRow(row: unknown[]): boolean {
+  const cells = (row || []).filter(c => cellText(c) !== '');
+  // A title merged across the whole width collapses to one distinct value
+  if (new Set(cells.map(cellText)).size < 2) return false;
+
+  const textCount = cells.filter(c => typeof c === 'string' && !/^[\d.,\-\s]+$/.test(c)).length;
+  return textCount / cells.length >= 0.75;
+}
+
+/**
+ * Locate the (possibly multi-level) header block of a form sheet.
+ * The column indicator row closes the header block; the stacked header rows sit above it.
+ * Whole sheets without an indicator row get the best scored row (see headerDetector);
+ * fallbackHeaderRow (zero-based) applies when no row qualifies.
+ */
+export function locateHeaderBlock(
+  worksheet: XLSX.WorkSheet,
+  rawData: unknown[][],
+  range?: { fromRow: number; toRow: number },
+  fallbackHeaderRow?: number
+): HeaderBlock {
+  const fromRow = range?.fromRow ?? 0;
+  const toRow = Math.min(range?.toRow ?? rawData.length, rawData.length);
+
+  let indicatorRow = -1;
+  for (let i = fromRow + 1; i < Math.min(toRow, fromRow + MAX_ROWS_TO_SCAN); i++) {
+    if (isIndicatorRow(rawData[i])) {
+      indicatorRow = i;
+      break;
+    }
+  }
+
+  if (indicatorRow !== -1) {
+    const firstCandidate = Math.max(fromRow, indicatorRow - MAX_HEADER_LEVELS);
+    const merged = getMergedRows(worksheet, rawData, firstCandidate, indicatorRow - 1);
+
+    let startRow = indicatorRow;
+    for (let r = indicatorRow - 1; r >= firstCandidate; r--) {
+      if (!looksLikeHeaderRow(merged[r - firstCandidate])) break;
+      startRow = r;
+    }
+
+    if (startRow < indicatorRow) {
+      return { startRow, endRow: indicatorRow - 1, dataStartRow: indicatorRow + 1, method: 'indicator', confidence: 1 };
+    }
+
+    // No header text above the indicators: the header is the row right after them
+    const headerRow = Math.min(indicatorRow + 1, toRow - 1);
+    return { startRow: headerRow, endRow: headerRow, dataStartRow: headerRow + 1, method: 'indicator', confidence: 1 };
+  }
+
+  // Sub-tables start with their header right after the marker
+  if (range) {
+    return { startRow: fromRow, endRow: fromRow, dataStartRow: fromRow + 1, method: 'profile', confidence: 1 };
+  }
+
+  // Whole sheets: rank the rows below the letterhead
+  const detected = detectHeaderRow(rawData, fromRow, toRow, fallbackHeaderRow ?? 0);
+  const headerRow = Math.min(detected.index, rawData.length - 1);
+  return {
+    startRow: headerRow,
+    endRow: headerRow,
+    dataStartRow: headerRow + 1,
+    method: 'scored',
+    confidence: detected.confidence,
+  };
+}
+
+/**
+ * Header block at fixed rows [startRow, endRow]; a column indicator row right below is skipped
+ */
+export function fixedHeaderBlock(
+  rawData: unknown[][],
+  startRow: number,
+  endRow: number,
+  method: HeaderDetectionMethod = 'profile'
+): HeaderBlock {
+  const lastRow = Math.max(rawData.length - 1, 0);
+  const start = Math.min(startRow, lastRow);
+  const end = Math.min(Math.max(endRow, start), lastRow);
+  const dataStartRow = isIndicatorRow(rawData[end + 1]) ? end + 2 : end + 1;
+  return { startRow: start, endRow: end, dataStartRow, method, confidence: 1 };
+}
+
+/**
+ * Zero-based row/column of the first cell covered by rawData (the top-left of !ref)
+ */
+export function getSheetOrigin(worksheet: XLSX.WorkSheet): { r: number; c: number } {
+  return XLSX.utils.decode_range(worksheet['!ref'] || 'A1').s;
+}
+
+/**
+ * Flatten header rows [startRow, endRow] into one composite name per column,
+ * e.g. group header "Saldo" over sub-header "Bulan Ini" becomes "Saldo Bulan Ini"
+ */
+export function flattenHeaderRows(
+  worksheet: XLSX.WorkSheet,
+  rawData: unknown[][],
+  startRow: number,
+  endRow: number
+): FlattenedHeaders {
+  const rows = getMergedRows(worksheet, rawData, startRow, endRow);
+  const width = Math.max(0, ...rows.map(r => r.length));
+
+  const names: (string | null)[] = [];
+  const paths: string[][] = [];
+
+  for (let c = 0; c < width; c++) {
+    const path: string[] = [];
+    for (const row of rows) {
+      const text = cellText(row[c]);
+      // Vertically merged cells repeat the same text on every level
+      if (text === '' || text === path[path.length - 1]) continue;
+      if (rows.length > 1 && INDICATOR_CELL_PATTERN.test(text)) continue;
+      path.push(text);
+    }
+
+    paths.push(path);
+    names.push(path.length > 0 ? path.join(' ') : null);
+  }
+
+  return { names, paths };
+}
@@ -1,10 +1,29 @@
 // ETL System - Main entry point
 export * from './types';
 export * from './extractor';
+export * from './workerClient';
+export * from './batch';
+export * from './formClassifier';
+export * from './extractionProfiles';
+export * from './headerFlattener';
+export * from './headerDetector';
+export * from './provenance';
+export * from './formulaVerifier';
+export * from './reportHeader';
+export * from './columnSchema';
+export * from './lineNumbers';
+export * from './fieldDictionary';
 export * from './mkbdCalculator';
 export * from './sanitizer';
 export * from './cleaner';
+export * from './cleaningRules';
 export * from './database';
 export * from './masterData';
+export * from './masterValidation';
+export * from './masterImport';
+export * from './masterDiff';
+export * from './codeMatcher';
+export * from './unmatchedCodes';
 export * from './enrichment';
+export * from './groupLevels';
 export * from './excelExporter';
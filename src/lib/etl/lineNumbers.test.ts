@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { detectLineColumn, getLine, getLineIndex, getLineNumber, getLineRange, parseLineNumber } from './lineNumbers';
+import { ProcessedSheet } from './types';
+
+const lines = (numbers: unknown[]) => numbers.map((no, idx) => ({ No: no, Uraian: `Pos ${idx}`, Jumlah: idx * 10 }));
+
+describe('parseLineNumber', () => {
+  it('reads integers, numeric strings and "12." as line numbers', () => {
+    expect(parseLineNumber(12)).toBe(12);
+    expect(parseLineNumber(' 12 ')).toBe(12);
+    expect(parseLineNumber('12.')).toBe(12);
+  });
+
+  it('rejects zero, fractions and text', () => {
+    expect(parseLineNumber(0)).toBeNull();
+    expect(parseLineNumber(1.5)).toBeNull();
+    expect(parseLineNumber('12.5')).toBeNull();
+    expect(parseLineNumber('A')).toBeNull();
+    expect(parseLineNumber(null)).toBeNull();
+  });
+});
+
+describe('detectLineColumn', () => {
+  it('prefers a "Baris" header holding line numbers', () => {
+    const data = [{ BARIS: '1', Jumlah: 1 }, { BARIS: '2', Jumlah: 2 }];
+    expect(detectLineColumn(['BARIS', 'Jumlah'], data)).toBe('BARIS');
+  });
+
+  it('detects an unnamed column of strictly increasing line numbers', () => {
+    const data = lines([100, 101, 102, '104', 105, '']);
+    expect(detectLineColumn(['Uraian', 'No', 'Jumlah'], data)).toBe('No');
+  });
+
+  it('ignores columns that are not increasing or too short', () => {
+    expect(detectLineColumn(['No', 'Uraian'], lines([1, 2, 3, 2, 5, 6]))).toBeUndefined();
+    expect(detectLineColumn(['No', 'Uraian'], lines([1, 2, 3]))).toBeUndefined();
+  });
+
+  it('never picks a metadata column', () => {
+    const data = [1, 2, 3, 4, 5].map(n => ({ _sourceRow: n, Uraian: 'x' }));
+    expect(detectLineColumn(['_sourceRow', 'Uraian'], data)).toBeUndefined();
+  });
+});
+
+describe('line addressing', () => {
+  // Line 102 was removed by cleaning
+  const sheet = { lineColumn: 'No', data: lines([100, 101, '103', 104]) } as unknown as ProcessedSheet;
+
+  it('finds rows by their official line number rather than position', () => {
+    expect(getLineIndex(sheet, 103)).toBe(2);
+    expect(getLine(sheet, 104)?.Uraian).toBe('Pos 3');
+    expect(getLineNumber(sheet, sheet.data[2])).toBe(103);
+  });
+
+  it('leaves removed lines absent instead of shifting the next ones', () => {
+    expect(getLine(sheet, 102)).toBeUndefined();
+    expect(getLineRange(sheet, 101, 103).map(row => row.No)).toEqual([101, '103']);
+  });
+
+  it('returns nothing when the sheet has no line column', () => {
+    const plain = { data: sheet.data } as unknown as ProcessedSheet;
+    expect(getLineIndex(plain, 100)).toBeNull();
+    expect(getLineNumber(plain, plain.data[0])).toBeNull();
+    expect(getLineRange(plain, 100, 104)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+// Line Numbers - Addresses rows by the form's official line number ("Baris") instead of array position
+import { ProcessedSheet } from './types';
+import { isMetadataField } from './provenance';
+
+// Header of the official line-number column, after sanitizing ("BARIS", "NO_BARIS")
+const LINE_HEADER = /^(no[_\s.]*)?baris$|^line([_\s]*no)?$/i;
+
+// A column without that header needs this many increasing line numbers to count
+const MIN_DETECTED_LINES = 5;
+const MIN_LINE_RATIO = 0.8;
+
+/**
+ * Read a line number cell (12, "12", "12.") as a positive integer
+ */
+export function parseLineNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : null;
+  }
+  const match = String(value ?? '').trim().match(/^(\d{1,4})\.?$/);
+  return match && +match[1] > 0 ? +match[1] : null;
+}
+
+function hasIncreasingLines(values: unknown[]): boolean {
+  const filled = values.filter(v => v !== null && v !== undefined && String(v).trim() !== '');
+  const lines = filled.map(parseLineNumber).filter((n): n is number => n !== null);
+  if (lines.length < MIN_DETECTED_LINES || lines.length / filled.length < MIN_LINE_RATIO) return false;
+  return lines.every((line, idx) => idx === 0 || line > lines[idx - 1]);
+}
+
+/**
+ * Find the line-number column: a "Baris" header holding line numbers, otherwise
+ * the first column whose values are strictly increasing line numbers
+ */
+export function detectLineColumn(headers: string[], data: Record<string, unknown>[]): string | undefined {
+  const columns = headers.filter(h => !isMetadataField(h));
+  const valuesOf = (header: string) => data.map(row => row[header]);
+
+  const named = columns.find(h => LINE_HEADER.test(h) && valuesOf(h).some(v => parseLineNumber(v) !== null));
+  return named ?? columns.find(h => hasIncreasingLines(valuesOf(h)));
+}
+
+/**
+ * Official line number of a row, or null when the sheet has no line column
+ */
+export function getLineNumber(sheet: ProcessedSheet, row: Record<string, unknown>): number | null {
+  return sheet.lineColumn ? parseLineNumber(row[sheet.lineColumn]) : null;
+}
+
+/**
+ * Index in sheet.data of the row with the given official line number
+ */
+export function getLineIndex(sheet: ProcessedSheet, line: number): number | null {
+  if (!sheet.lineColumn) return null;
+  const idx = sheet.data.findIndex(row => getLineNumber(sheet, row) === line);
+  return idx === -1 ? null : idx;
+}
+
+/**
+ * Row with the given official line number, e.g. getLine(vd59, 104)
+ */
+export function getLine(sheet: ProcessedSheet, line: number): Record<string, unknown> | undefined {
+  const idx = getLineIndex(sheet, line);
+  return idx === null ? undefined : sheet.data[idx];
+}
+
+/**
+ * Rows whose official line number lies in [from, to]; rows removed by cleaning are simply absent
+ */
+export function getLineRange(sheet: ProcessedSheet, from: number, to: number): Record<string, unknown>[] {
+  return sheet.data.filter(row => {
+    const line = getLineNumber(sheet, row);
+    return line !== null && line >= from && line <= to;
+  });
+}
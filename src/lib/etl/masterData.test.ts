@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EmitenMaster, clearMasterData, lookupEmitenAnyPeriod, readDebtIssuerMappings, setMasterData } from './masterData';
+
+const emiten = (kode: string, afiliasiUtama: string, validFrom: string | null, validTo: string | null): EmitenMaster => ({
+  kode,
+  namaEmiten: `PT ${kode} Tbk`,
+  afiliasiUtama,
+  subAfiliasi: '',
+  uboTokohKunci: '',
+  kategori: '',
+  validFrom,
+  validTo,
+});
+
+const csv = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('debt issuer mappings against a master with validity periods', () => {
+  beforeEach(() => {
+    setMasterData([
+      // Delisted: only listed in a past period
+      emiten('OLDI', 'Lama', '2020-01-01', '2021-12-31'),
+      emiten('BBRI', 'BUMN', null, '2025-02-23'),
+      emiten('BBRI', 'Danantara', '2025-02-24', null),
+      // Listed from a future date only
+      emiten('NEWI', 'Baru', '2999-01-01', null),
+    ]);
+    return () => clearMasterData();
+  });
+
+  it('finds the entry valid today, otherwise the latest period', () => {
+    expect(lookupEmitenAnyPeriod('bbri')?.afiliasiUtama).toBe('Danantara');
+    expect(lookupEmitenAnyPeriod('OLDI')?.afiliasiUtama).toBe('Lama');
+    expect(lookupEmitenAnyPeriod('NEWI')?.afiliasiUtama).toBe('Baru');
+    expect(lookupEmitenAnyPeriod('ZZZZ')).toBeNull();
+  });
+
+  it('accepts issuers listed in any period and reports unknown ones', () => {
+    const { mappings, issues } = readDebtIssuerMappings(
+      'obligasi.csv',
+      csv('Kode Efek,Kode Emiten,Nama Instrumen\nOLDI01,OLDI,Obligasi Lama\nNEWI01,newi,Obligasi Baru\nXXXX01,ZZZZ,\n')
+    );
+
+    expect(mappings.map(m => [m.kodeEfek, m.kodeEmiten])).toEqual([
+      ['OLDI01', 'OLDI'],
+      ['NEWI01', 'NEWI'],
+      ['XXXX01', 'ZZZZ'],
+    ]);
+    expect(issues).toEqual(['Baris 4: emiten ZZZZ untuk XXXX01 tidak ada di master data']);
+  });
+
+  it('skips incomplete and repeated instrument codes', () => {
+    const { mappings, issues } = readDebtIssuerMappings(
+      'obligasi.csv',
+      csv('Kode Obligasi,Kode Penerbit\nBBRI01,BBRI\nBBRI 01,BBRI\n,BBRI\n')
+    );
+
+    expect(mappings).toHaveLength(1);
+    expect(issues).toEqual([
+      'Baris 3: BBRI 01 sudah dipetakan di baris sebelumnya, dilewati',
+      'Baris 4: kode efek atau kode emiten kosong, dilewati',
+    ]);
+  });
+});
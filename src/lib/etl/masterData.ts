@@ -1,5 +1,8 @@
 // Master Data Manager - Handles emiten reference data for grouping and aggregation
 import * as XLSX from 'xlsx';
+import { getSettingsDatabase, MASTER_VERSIONS_STORE, APP_STATE_STORE } from './settingsDb';
+import { normalizeHeaderName } from './fieldDictionary';
+import { DebtIssuerMapping } from './types';
 
 export interface EmitenMaster {
   kode: string;
@@ -8,132 +11,56 @@ export interface EmitenMaster {
   subAfiliasi: string;
   uboTokohKunci: string;
   kategori: string;
+  // Period (yyyy-mm-dd, inclusive) the membership applies to; null is open-ended
+  validFrom?: string | null;
+  validTo?: string | null;
 }
 
-// In-memory storage for master data
-let masterDataCache: Map<string, EmitenMaster> = new Map();
-let isMasterDataLoaded = false;
+// One loaded master file, kept as a snapshot so earlier versions can be re-activated
+export interface MasterDataVersion {
+  id: string;
+  sourceFileName: string;
+  loadedAt: string;
+  rowCount: number;
+  // Date (yyyy-mm-dd) from which the list applies, when the user gave one
+  effectiveFrom: string | null;
+}
 
-/**
- * Parse master data from Excel file
- */
-export async function loadMasterDataFromFile(file: File): Promise<{
-  success: boolean;
-  count: number;
-  errors: string[];
-}> {
-  const errors: string[] = [];
-  
-  try {
-    const arrayBuffer = await file.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    
-    // Assume first sheet contains the data
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-    
-    // Convert to JSON with headers
-    const rawData = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet);
-    
-    // Clear existing cache
-    masterDataCache.clear();
-    
-    // Parse each row
-    for (const row of rawData) {
-      const kode = normalizeKode(row['Kode'] as string);
-      
-      if (!kode) {
-        continue; // Skip rows without code
-      }
-      
-      const emiten: EmitenMaster = {
-        kode,
-        namaEmiten: String(row['Nama Emiten'] || ''),
-        afiliasiUtama: String(row['Afiliasi Utama'] || ''),
-        subAfiliasi: String(row['Sub-Afiliasi'] || ''),
-        uboTokohKunci: String(row['UBO / Tokoh Kunci'] || ''),
-        kategori: String(row['Kategori'] || ''),
-      };
-      
-      masterDataCache.set(kode, emiten);
-    }
-    
-    isMasterDataLoaded = true;
-    
-    return {
-      success: true,
-      count: masterDataCache.size,
-      errors,
-    };
-  } catch (error) {
-    errors.push(`Gagal memuat master data: ${error}`);
-    return {
-      success: false,
-      count: 0,
-      errors,
-    };
-  }
+interface MasterDataSnapshot extends MasterDataVersion {
+  entries: EmitenMaster[];
+  // Fingerprint of the entries (see hashEntries); missing on versions stored before it was kept
+  contentHash?: string;
 }
 
-/**
- * Load master data from pre-bundled file in public folder
- */
-export async function loadMasterDataFromPublic(): Promise<{
+export interface MasterLoadResult {
   success: boolean;
   count: number;
   errors: string[];
-}> {
-  const errors: string[] = [];
-  
-  try {
-    const response = await fetch('/data/master-emiten.xlsx');
-    if (!response.ok) {
-      throw new Error('Master data file not found');
-    }
-    
-    const arrayBuffer = await response.arrayBuffer();
-    const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-    
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-    const rawData = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet);
-    
-    masterDataCache.clear();
-    
-    for (const row of rawData) {
-      const kode = normalizeKode(row['Kode'] as string);
-      
-      if (!kode) continue;
-      
-      const emiten: EmitenMaster = {
-        kode,
-        namaEmiten: String(row['Nama Emiten'] || ''),
-        afiliasiUtama: String(row['Afiliasi Utama'] || ''),
-        subAfiliasi: String(row['Sub-Afiliasi'] || ''),
-        uboTokohKunci: String(row['UBO / Tokoh Kunci'] || ''),
-        kategori: String(row['Kategori'] || ''),
-      };
-      
-      masterDataCache.set(kode, emiten);
-    }
-    
-    isMasterDataLoaded = true;
-    
-    return {
-      success: true,
-      count: masterDataCache.size,
-      errors,
-    };
-  } catch (error) {
-    errors.push(`Gagal memuat master data: ${error}`);
-    return {
-      success: false,
-      count: 0,
-      errors,
-    };
-  }
+  version?: MasterDataVersion;
 }
 
+const ACTIVE_VERSION_KEY = 'activeMasterVersionId';
+export const DEFAULT_MASTER_FILE_NAME = 'master-emiten.xlsx';
+// Source name of versions created in the master data editor
+export const EDITOR_SOURCE_NAME = 'Perubahan manual';
+
+// Standard column headers of a master file, in file order
+export const MASTER_COLUMN_HEADERS: [keyof EmitenMaster, string][] = [
+  ['kode', 'Kode'],
+  ['namaEmiten', 'Nama Emiten'],
+  ['afiliasiUtama', 'Afiliasi Utama'],
+  ['subAfiliasi', 'Sub-Afiliasi'],
+  ['uboTokohKunci', 'UBO / Tokoh Kunci'],
+  ['kategori', 'Kategori'],
+  ['validFrom', 'Berlaku Dari'],
+  ['validTo', 'Berlaku Sampai'],
+];
+
+// In-memory storage for master data; a code has one entry per validity period, oldest first
+let masterDataCache: Map<string, EmitenMaster[]> = new Map();
+let isMasterDataLoaded = false;
+let activeVersion: MasterDataVersion | null = null;
+
 /**
  * Normalize stock code for consistent lookup
  */
@@ -142,19 +69,65 @@ function normalizeKode(kode: unknown): string {
   return String(kode).trim().toUpperCase();
 }
 
+function addToCache(emiten: EmitenMaster): void {
+  const entries = masterDataCache.get(emiten.kode) ?? [];
+  entries.push(emiten);
+  entries.sort((a, b) => (a.validFrom ?? '').localeCompare(b.validFrom ?? ''));
+  masterDataCache.set(emiten.kode, entries);
+}
+
+function isValidOn(emiten: EmitenMaster, date: string): boolean {
+  return (!emiten.validFrom || emiten.validFrom <= date) && (!emiten.validTo || emiten.validTo >= date);
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Lookup emiten by stock code as of a date (yyyy-mm-dd, default today).
+ * Of overlapping periods the one that started last wins.
+ */
+export function lookupEmiten(kode: string, asOf?: string | null): EmitenMaster | null {
+  const entries = masterDataCache.get(normalizeKode(kode));
+  if (!entries) return null;
+
+  const date = asOf || today();
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (isValidOn(entries[i], date)) return entries[i];
+  }
+  return null;
+}
+
+/**
+ * Entry of a code valid today, otherwise its latest period; null for codes the master
+ * does not list in any period. For checks that do not depend on a report date.
+ */
+export function lookupEmitenAnyPeriod(kode: string): EmitenMaster | null {
+  const entries = masterDataCache.get(normalizeKode(kode));
+  if (!entries?.length) return null;
+  return lookupEmiten(kode) ?? entries[entries.length - 1];
+}
+
 /**
- * Lookup emiten by stock code
+ * The entry of every code in a master list that applies on a date (default today),
+ * chosen like lookupEmiten does
  */
-export function lookupEmiten(kode: string): EmitenMaster | null {
-  const normalizedKode = normalizeKode(kode);
-  return masterDataCache.get(normalizedKode) || null;
+export function entriesAsOf(entries: EmitenMaster[], asOf?: string | null): Map<string, EmitenMaster> {
+  const date = asOf || today();
+  const sorted = [...entries].sort((a, b) => (a.validFrom ?? '').localeCompare(b.validFrom ?? ''));
+  const result = new Map<string, EmitenMaster>();
+  for (const entry of sorted) {
+    if (isValidOn(entry, date)) result.set(normalizeKode(entry.kode), entry);
+  }
+  return result;
 }
 
 /**
- * Get group name (Afiliasi Utama) for a stock code
+ * Get group name (Afiliasi Utama) for a stock code as of a date
  */
-export function getGroupName(kode: string): string {
-  const emiten = lookupEmiten(kode);
+export function getGroupName(kode: string, asOf?: string | null): string {
+  const emiten = lookupEmiten(kode, asOf);
   return emiten?.afiliasiUtama || 'Non-Grup';
 }
 
@@ -166,10 +139,17 @@ export function isMasterLoaded(): boolean {
 }
 
 /**
- * Get all master data entries
+ * Whether any entry is limited to a period, so lookups depend on the date
+ */
+export function hasMasterValidityPeriods(): boolean {
+  return getAllMasterData().some(e => e.validFrom || e.validTo);
+}
+
+/**
+ * Get all master data entries, every validity period of a code included
  */
 export function getAllMasterData(): EmitenMaster[] {
-  return Array.from(masterDataCache.values());
+  return Array.from(masterDataCache.values()).flat();
 }
 
 /**
@@ -183,7 +163,7 @@ export function getMasterDataStats(): {
   const categories: Record<string, number> = {};
   const groups = new Set<string>();
   
-  for (const emiten of masterDataCache.values()) {
+  for (const emiten of getAllMasterData()) {
     groups.add(emiten.afiliasiUtama);
     categories[emiten.kategori] = (categories[emiten.kategori] || 0) + 1;
   }
@@ -195,10 +175,340 @@ export function getMasterDataStats(): {
   };
 }
 
+/**
+ * Replace master data with already parsed entries (e.g. inside the extraction worker)
+ */
+export function setMasterData(entries: EmitenMaster[], version: MasterDataVersion | null = null): void {
+  masterDataCache = new Map();
+  entries.forEach(e => addToCache({ ...e, kode: normalizeKode(e.kode) }));
+  isMasterDataLoaded = true;
+  activeVersion = version;
+}
+
 /**
  * Clear master data cache
  */
 export function clearMasterData(): void {
   masterDataCache.clear();
   isMasterDataLoaded = false;
+  activeVersion = null;
+}
+
+/**
+ * Version the in-memory master data came from; null for data that was never stored
+ */
+export function getActiveMasterVersion(): MasterDataVersion | null {
+  return activeVersion;
+}
+
+// ============ Saving & export ============
+
+/**
+ * Replace the master data with the given entries (an import or the editor's changes)
+ * and store them as a new active version
+ */
+export async function saveMasterDataVersion(
+  entries: EmitenMaster[],
+  sourceFileName: string = EDITOR_SOURCE_NAME,
+  effectiveFrom: string | null = null
+): Promise<MasterLoadResult> {
+  const errors: string[] = [];
+  setMasterData(entries.map(e => ({
+    ...e,
+    kode: normalizeKode(e.kode),
+    validFrom: e.validFrom || null,
+    validTo: e.validTo || null,
+  })));
+  const version = await storeMasterVersion(sourceFileName, effectiveFrom, errors);
+  return { success: true, count: getAllMasterData().length, errors, version };
+}
+
+/**
+ * Master entries as a file with the same columns the loader reads
+ */
+export function exportMasterData(entries: EmitenMaster[], format: 'xlsx' | 'csv'): Blob {
+  const rows = entries.map(entry =>
+    Object.fromEntries(MASTER_COLUMN_HEADERS.map(([key, header]) => [header, entry[key] ?? '']))
+  );
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: MASTER_COLUMN_HEADERS.map(([, header]) => header) });
+
+  if (format === 'csv') {
+    return new Blob([XLSX.utils.sheet_to_csv(worksheet)], { type: 'text/csv;charset=utf-8' });
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Master Emiten');
+  const wbout = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([wbout], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+/**
+ * Download master entries to the browser
+ */
+export function downloadMasterData(entries: EmitenMaster[], format: 'xlsx' | 'csv'): void {
+  const url = URL.createObjectURL(exportMasterData(entries, format));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `master-emiten_${new Date().toISOString().split('T')[0]}.${format}`;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ============ Versions (IndexedDB) ============
+
+/**
+ * FNV-1a hash of the entries, to recognise a list that is already stored
+ */
+function hashEntries(entries: EmitenMaster[]): string {
+  const text = JSON.stringify(entries);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Snapshot the freshly parsed cache as a new version and make it the active one.
+ * A stored version with the same source, start date and entries (e.g. the default file
+ * loaded again on reset) is reactivated instead of being stored twice.
+ * The data stays usable when storing fails; the failure is added to errors.
+ */
+async function storeMasterVersion(
+  sourceFileName: string,
+  effectiveFrom: string | null,
+  errors: string[]
+): Promise<MasterDataVersion> {
+  const entries = getAllMasterData();
+  const contentHash = hashEntries(entries);
+  let version: MasterDataVersion = {
+    id: `master_${Date.now()}`,
+    sourceFileName,
+    loadedAt: new Date().toISOString(),
+    rowCount: entries.length,
+    effectiveFrom: effectiveFrom || null,
+  };
+  activeVersion = version;
+
+  try {
+    const db = await getSettingsDatabase();
+    const stored: MasterDataSnapshot[] = await db.getAll(MASTER_VERSIONS_STORE);
+    const identical = stored.find(snapshot =>
+      snapshot.sourceFileName === version.sourceFileName &&
+      snapshot.effectiveFrom === version.effectiveFrom &&
+      (snapshot.contentHash ?? hashEntries(snapshot.entries)) === contentHash &&
+      JSON.stringify(snapshot.entries) === JSON.stringify(entries)
+    );
+
+    if (identical) {
+      version = toVersion(identical);
+      activeVersion = version;
+    } else {
+      const snapshot: MasterDataSnapshot = { ...version, entries, contentHash };
+      await db.put(MASTER_VERSIONS_STORE, snapshot);
+    }
+    await db.put(APP_STATE_STORE, version.id, ACTIVE_VERSION_KEY);
+  } catch (error) {
+    errors.push(`Versi master data tidak tersimpan: ${error}`);
+  }
+
+  return version;
+}
+
+function toVersion(snapshot: MasterDataSnapshot): MasterDataVersion {
+  const { entries: _entries, contentHash: _contentHash, ...version } = snapshot;
+  return version;
+}
+
+/**
+ * Stored master versions, newest first
+ */
+export async function listMasterVersions(): Promise<MasterDataVersion[]> {
+  const db = await getSettingsDatabase();
+  const snapshots: MasterDataSnapshot[] = await db.getAll(MASTER_VERSIONS_STORE);
+  return snapshots.map(toVersion).sort((a, b) => b.loadedAt.localeCompare(a.loadedAt));
+}
+
+/**
+ * Load a stored version into memory and remember it as the active one
+ */
+export async function activateMasterVersion(id: string): Promise<MasterDataVersion | null> {
+  const db = await getSettingsDatabase();
+  const snapshot: MasterDataSnapshot | undefined = await db.get(MASTER_VERSIONS_STORE, id);
+  if (!snapshot) return null;
+
+  const version = toVersion(snapshot);
+  setMasterData(snapshot.entries, version);
+  await db.put(APP_STATE_STORE, id, ACTIVE_VERSION_KEY);
+  return version;
+}
+
+/**
+ * Restore the version that was active in the previous session; null when none is stored
+ */
+export async function loadActiveMasterVersion(): Promise<MasterDataVersion | null> {
+  const db = await getSettingsDatabase();
+  const id: string | undefined = await db.get(APP_STATE_STORE, ACTIVE_VERSION_KEY);
+  return id ? activateMasterVersion(id) : null;
+}
+
+/**
+ * Remove a stored version; the active version cannot be deleted
+ */
+export async function deleteMasterVersion(id: string): Promise<void> {
+  if (activeVersion?.id === id) {
+    throw new Error('Versi aktif tidak dapat dihapus');
+  }
+  const db = await getSettingsDatabase();
+  await db.delete(MASTER_VERSIONS_STORE, id);
+}
+
+// ============ Debt instrument issuers ============
+
+const DEBT_MAPPINGS_KEY = 'debtIssuerMappings';
+
+// Standard column headers of a debt issuer mapping file, in file order
+export const DEBT_MAPPING_COLUMN_HEADERS: [keyof DebtIssuerMapping, string][] = [
+  ['kodeEfek', 'Kode Efek'],
+  ['kodeEmiten', 'Kode Emiten'],
+  ['namaInstrumen', 'Nama Instrumen'],
+  ['jenis', 'Jenis'],
+];
+
+// Header names recognised per field when importing, besides the standard headers
+const DEBT_MAPPING_SYNONYMS: Record<keyof DebtIssuerMapping, string[]> = {
+  kodeEfek: ['Kode Efek', 'Kode Obligasi', 'Kode Sukuk', 'Kode Instrumen', 'Seri', 'Series', 'Bond Code'],
+  kodeEmiten: ['Kode Emiten', 'Kode Penerbit', 'Kode Saham', 'Issuer Code', 'Penerbit', 'Emiten'],
+  namaInstrumen: ['Nama Instrumen', 'Nama Efek', 'Nama Obligasi', 'Nama Sukuk', 'Instrument Name'],
+  jenis: ['Jenis', 'Jenis Efek', 'Tipe', 'Type'],
+};
+
+/**
+ * Instrument code reduced for comparison: uppercase letters and digits only,
+ * so "BBRI 01 A CN2" and "BBRI01ACN2" are the same code
+ */
+function compactCode(code: unknown): string {
+  return normalizeKode(code).replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Lookup of debt instrument codes: an exact code first, otherwise the longest series
+ * prefix the code starts with
+ */
+export function createDebtIssuerLookup(mappings: DebtIssuerMapping[]): (code: string) => DebtIssuerMapping | null {
+  const exact = new Map(mappings.map(m => [compactCode(m.kodeEfek), m]));
+  const prefixes = [...exact.entries()].filter(([key]) => key).sort(([a], [b]) => b.length - a.length);
+
+  return (code) => {
+    const key = compactCode(code);
+    if (!key) return null;
+    return exact.get(key) ?? prefixes.find(([prefix]) => key.startsWith(prefix))?.[1] ?? null;
+  };
+}
+
+/**
+ * Read a debt issuer mapping from the first sheet of an XLSX or CSV file.
+ * Rows without both codes or repeating an instrument code are skipped; issuer codes
+ * missing from every period of the loaded master are kept and reported.
+ */
+export function readDebtIssuerMappings(
+  fileName: string,
+  buffer: ArrayBuffer
+): { mappings: DebtIssuerMapping[]; issues: string[] } {
+  const isCsv = fileName.toLowerCase().endsWith('.csv');
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', raw: isCsv });
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[workbook.SheetNames[0]], {
+    defval: null,
+  });
+  const headers = [...new Set(rows.slice(0, 50).flatMap(row => Object.keys(row)))];
+
+  const columns = {} as Record<keyof DebtIssuerMapping, string | undefined>;
+  for (const [field] of DEBT_MAPPING_COLUMN_HEADERS) {
+    const names = DEBT_MAPPING_SYNONYMS[field].map(normalizeHeaderName);
+    columns[field] = names
+      .map(name => headers.find(h => normalizeHeaderName(h) === name && !Object.values(columns).includes(h)))
+      .find(Boolean);
+  }
+  if (!columns.kodeEfek || !columns.kodeEmiten) {
+    throw new Error('Kolom Kode Efek dan Kode Emiten tidak ditemukan');
+  }
+
+  const mappings: DebtIssuerMapping[] = [];
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  const read = (row: Record<string, unknown>, field: keyof DebtIssuerMapping) =>
+    columns[field] ? String(row[columns[field]!] ?? '').trim() : '';
+
+  rows.forEach((row, idx) => {
+    const rowNumber = idx + 2;
+    const kodeEfek = normalizeKode(read(row, 'kodeEfek'));
+    const kodeEmiten = normalizeKode(read(row, 'kodeEmiten'));
+    if (!kodeEfek && !kodeEmiten) return;
+    if (!kodeEfek || !kodeEmiten) {
+      issues.push(`Baris ${rowNumber}: kode efek atau kode emiten kosong, dilewati`);
+      return;
+    }
+    if (seen.has(compactCode(kodeEfek))) {
+      issues.push(`Baris ${rowNumber}: ${kodeEfek} sudah dipetakan di baris sebelumnya, dilewati`);
+      return;
+    }
+    seen.add(compactCode(kodeEfek));
+    // Reports are grouped as of their own date, so an issuer listed in any period is valid
+    if (isMasterDataLoaded && !lookupEmitenAnyPeriod(kodeEmiten)) {
+      issues.push(`Baris ${rowNumber}: emiten ${kodeEmiten} untuk ${kodeEfek} tidak ada di master data`);
+    }
+    mappings.push({ kodeEfek, kodeEmiten, namaInstrumen: read(row, 'namaInstrumen'), jenis: read(row, 'jenis') });
+  });
+
+  return { mappings, issues };
+}
+
+/**
+ * Debt issuer mapping as a file with the columns readDebtIssuerMappings reads
+ */
+export function exportDebtIssuerMappings(mappings: DebtIssuerMapping[], format: 'xlsx' | 'csv'): Blob {
+  const rows = mappings.map(mapping =>
+    Object.fromEntries(DEBT_MAPPING_COLUMN_HEADERS.map(([key, header]) => [header, mapping[key] ?? '']))
+  );
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: DEBT_MAPPING_COLUMN_HEADERS.map(([, header]) => header) });
+
+  if (format === 'csv') {
+    return new Blob([XLSX.utils.sheet_to_csv(worksheet)], { type: 'text/csv;charset=utf-8' });
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Emiten Obligasi');
+  const wbout = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([wbout], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+/**
+ * Download the debt issuer mapping to the browser
+ */
+export function downloadDebtIssuerMappings(mappings: DebtIssuerMapping[], format: 'xlsx' | 'csv'): void {
+  const url = URL.createObjectURL(exportDebtIssuerMappings(mappings, format));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `emiten-obligasi_${new Date().toISOString().split('T')[0]}.${format}`;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export async function loadDebtIssuerMappings(): Promise<DebtIssuerMapping[]> {
+  const db = await getSettingsDatabase();
+  return (await db.get(APP_STATE_STORE, DEBT_MAPPINGS_KEY)) ?? [];
+}
+
+export async function saveDebtIssuerMappings(mappings: DebtIssuerMapping[]): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.put(APP_STATE_STORE, mappings, DEBT_MAPPINGS_KEY);
 }
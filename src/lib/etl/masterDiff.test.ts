@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { diffMasterData, estimateGroupImpact, isMasterDiffEmpty } from './masterDiff';
+import { EmitenMaster, clearMasterData, setMasterData } from './masterData';
+import { processEnrichmentPipeline } from './enrichment';
+import { CodeMatchReview, DebtIssuerMapping, GroupLevel, ProcessedSheet } from './types';
+
+const emiten = (kode: string, afiliasiUtama: string, extra: Partial<EmitenMaster> = {}): EmitenMaster => ({
+  kode,
+  namaEmiten: `PT ${kode} Tbk`,
+  afiliasiUtama,
+  subAfiliasi: '',
+  uboTokohKunci: '',
+  kategori: 'Saham',
+  validFrom: null,
+  validTo: null,
+  ...extra,
+});
+
+const MASTER = [
+  emiten('BBRI', 'BUMN', { subAfiliasi: 'Bank BUMN' }),
+  emiten('BMRI', 'BUMN', { subAfiliasi: 'Bank BUMN' }),
+  emiten('TLKM', 'BUMN', { subAfiliasi: 'Telekomunikasi' }),
+  emiten('ASII', 'Astra'),
+];
+
+const DEBT_MAPPINGS: DebtIssuerMapping[] = [{ kodeEfek: 'OBASII01', kodeEmiten: 'ASII', namaInstrumen: '', jenis: '' }];
+
+const ROWS = [
+  { Kode: 'BBRI', Nilai: 100 },
+  { Kode: 'BBRI-W2', Nilai: 10 },
+  { Kode: 'BMRI', Nilai: 200 },
+  { Kode: 'TLKM', Nilai: 300 },
+  { Kode: 'OBASII01A', Nilai: 50 },
+  { Kode: 'ZZZZ', Nilai: 5 },
+];
+
+/**
+ * A sheet enriched with the loaded master the way the extraction pipeline does it
+ */
+function enrichedSheet(
+  groupLevel: GroupLevel = 'afiliasiUtama',
+  codeMatchReviews: CodeMatchReview[] = []
+): ProcessedSheet {
+  const { processedData, fieldMapping, stats } = processEnrichmentPipeline(
+    ROWS,
+    ['Kode', 'Nilai'],
+    { columns: { KODE_EFEK: 'Kode', NILAI_PASAR_WAJAR: 'Nilai' }, issues: [] },
+    { reportDate: '2024-12-31', groupLevel, codeMatchReviews, debtIssuerMappings: DEBT_MAPPINGS }
+  );
+  return {
+    sheetName: 'VD59',
+    data: processedData,
+    fieldMapping,
+    metadata: { enrichmentStats: stats },
+  } as unknown as ProcessedSheet;
+}
+
+describe('diffMasterData', () => {
+  it('lists added, removed, renamed, regrouped and recategorised codes', () => {
+    const next = [
+      emiten('BBRI', 'Danantara', { subAfiliasi: 'Bank BUMN' }),
+      emiten('BMRI', 'BUMN', { subAfiliasi: 'Bank BUMN', namaEmiten: 'PT Bank Mandiri (Persero) Tbk' }),
+      emiten('TLKM', 'BUMN', { subAfiliasi: 'Telekomunikasi', kategori: 'Obligasi' }),
+      emiten('GOTO', 'GoTo'),
+    ];
+    const diff = diffMasterData(MASTER, next);
+
+    expect(diff.added.map(e => e.kode)).toEqual(['GOTO']);
+    expect(diff.removed.map(e => e.kode)).toEqual(['ASII']);
+    expect(diff.renamed).toEqual([{ kode: 'BMRI', before: 'PT BMRI Tbk', after: 'PT Bank Mandiri (Persero) Tbk' }]);
+    expect(diff.groupChanged).toEqual([{ kode: 'BBRI', before: 'BUMN', after: 'Danantara' }]);
+    expect(diff.kategoriChanged).toEqual([{ kode: 'TLKM', before: 'Saham', after: 'Obligasi' }]);
+  });
+
+  it('compares the entries valid on the given date', () => {
+    const next = [
+      ...MASTER.filter(e => e.kode !== 'BBRI'),
+      emiten('BBRI', 'BUMN', { subAfiliasi: 'Bank BUMN', validTo: '2025-02-23' }),
+      emiten('BBRI', 'Danantara', { subAfiliasi: 'Bank BUMN', validFrom: '2025-02-24' }),
+    ];
+    expect(isMasterDiffEmpty(diffMasterData(MASTER, next, '2024-12-31'))).toBe(true);
+    expect(diffMasterData(MASTER, next, '2025-06-30').groupChanged).toHaveLength(1);
+  });
+
+  it('is empty for identical lists', () => {
+    expect(isMasterDiffEmpty(diffMasterData(MASTER, [...MASTER]))).toBe(true);
+  });
+});
+
+describe('estimateGroupImpact', () => {
+  beforeEach(() => {
+    setMasterData(MASTER);
+    return () => clearMasterData();
+  });
+
+  it('shows no impact for an identical master, including non-exact and debt matches', () => {
+    const impact = estimateGroupImpact([enrichedSheet()], MASTER, { debtIssuerMappings: DEBT_MAPPINGS });
+    expect(impact).toEqual([]);
+  });
+
+  it('moves the value of every code matched to a regrouped issuer', () => {
+    const next = MASTER.map(e => (e.kode === 'BBRI' ? { ...e, afiliasiUtama: 'Danantara' } : e));
+    const impact = estimateGroupImpact([enrichedSheet()], next, { debtIssuerMappings: DEBT_MAPPINGS });
+
+    expect(impact).toEqual([
+      { group: 'BUMN', before: 610, after: 500, delta: -110 },
+      { group: 'Danantara', before: 0, after: 110, delta: 110 },
+    ]);
+  });
+
+  it('totals at the level the sheet ranks liabilities on', () => {
+    const next = MASTER.map(e => (e.kode === 'BMRI' ? { ...e, subAfiliasi: 'Telekomunikasi' } : e));
+
+    expect(estimateGroupImpact([enrichedSheet()], next, { debtIssuerMappings: DEBT_MAPPINGS })).toEqual([]);
+    expect(estimateGroupImpact([enrichedSheet('subAfiliasi')], next, { debtIssuerMappings: DEBT_MAPPINGS })).toEqual([
+      { group: 'BUMN / Bank BUMN', before: 310, after: 110, delta: -200 },
+      { group: 'BUMN / Telekomunikasi', before: 300, after: 500, delta: 200 },
+    ]);
+  });
+
+  it('matches codes with the same reviews the sheet was enriched with', () => {
+    const reviews: CodeMatchReview[] = [{ inputCode: 'BBRI-W2', matchedKode: 'BBRI', decision: 'rejected' }];
+    const sheet = enrichedSheet('afiliasiUtama', reviews);
+
+    const options = { codeMatchReviews: reviews, debtIssuerMappings: DEBT_MAPPINGS };
+    expect(estimateGroupImpact([sheet], MASTER, options)).toEqual([]);
+    expect(estimateGroupImpact([sheet], MASTER, { debtIssuerMappings: DEBT_MAPPINGS })).toEqual([
+      { group: 'BUMN', before: 600, after: 610, delta: 10 },
+      { group: 'Non-Grup', before: 15, after: 5, delta: -10 },
+    ]);
+  });
+});
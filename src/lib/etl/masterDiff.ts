@@ -0,0 +1,107 @@
+// Master Diff - What changes when a new master list replaces the active one, and what it does to group totals
+import { EmitenMaster, entriesAsOf } from './masterData';
+import { groupColumns, groupKey, parseNumericValue } from './enrichment';
+import { createCodeMatcher } from './codeMatcher';
+import { EnrichmentOptions, ProcessedSheet } from './types';
+
+export interface MasterFieldChange {
+  kode: string;
+  before: string;
+  after: string;
+}
+
+export interface MasterDiff {
+  added: EmitenMaster[];
+  removed: EmitenMaster[];
+  // namaEmiten changed
+  renamed: MasterFieldChange[];
+  // afiliasiUtama changed: the issuer moved to another group
+  groupChanged: MasterFieldChange[];
+  kategoriChanged: MasterFieldChange[];
+}
+
+export interface GroupImpact {
+  group: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/**
+ * Compare two master lists code by code, each taken as of a date (default today)
+ */
+export function diffMasterData(
+  previous: EmitenMaster[],
+  next: EmitenMaster[],
+  asOf?: string | null
+): MasterDiff {
+  const before = entriesAsOf(previous, asOf);
+  const after = entriesAsOf(next, asOf);
+  const diff: MasterDiff = { added: [], removed: [], renamed: [], groupChanged: [], kategoriChanged: [] };
+
+  for (const [kode, entry] of after) {
+    const old = before.get(kode);
+    if (!old) {
+      diff.added.push(entry);
+      continue;
+    }
+    if (old.namaEmiten.trim() !== entry.namaEmiten.trim()) {
+      diff.renamed.push({ kode, before: old.namaEmiten, after: entry.namaEmiten });
+    }
+    if (old.afiliasiUtama.trim() !== entry.afiliasiUtama.trim()) {
+      diff.groupChanged.push({ kode, before: old.afiliasiUtama, after: entry.afiliasiUtama });
+    }
+    if (old.kategori.trim() !== entry.kategori.trim()) {
+      diff.kategoriChanged.push({ kode, before: old.kategori, after: entry.kategori });
+    }
+  }
+  for (const [kode, entry] of before) {
+    if (!after.has(kode)) diff.removed.push(entry);
+  }
+
+  return diff;
+}
+
+export function isMasterDiffEmpty(diff: MasterDiff): boolean {
+  return Object.values(diff).every(list => list.length === 0);
+}
+
+/**
+ * Group market value totals of the loaded sheets now and after re-grouping them with
+ * the next master list, at the level each sheet ranks liabilities on. Codes are matched
+ * to the next list the way enrichment matches them, with the same code reviews and debt
+ * issuer mapping. Only groups whose total changes are returned, largest change first.
+ * Each sheet is re-grouped as of the date it was enriched at.
+ */
+export function estimateGroupImpact(
+  sheets: ProcessedSheet[],
+  next: EmitenMaster[],
+  options: Pick<EnrichmentOptions, 'codeMatchReviews' | 'debtIssuerMappings'> = {}
+): GroupImpact[] {
+  const totals = new Map<string, { before: number; after: number }>();
+  const add = (group: string, key: 'before' | 'after', value: number) => {
+    const entry = totals.get(group) ?? { before: 0, after: 0 };
+    entry[key] += value;
+    totals.set(group, entry);
+  };
+
+  for (const sheet of sheets) {
+    const stats = sheet.metadata.enrichmentStats;
+    if (!stats?.kodeEfekColumn || !stats.nilaiPasarColumn) continue;
+
+    const matchCode = createCodeMatcher(stats.asOfDate, options.codeMatchReviews, options.debtIssuerMappings, next);
+    const namaColumn = sheet.fieldMapping.columns.NAMA_EFEK;
+    const level = stats.groupLevel ?? 'afiliasiUtama';
+    for (const row of sheet.data) {
+      const value = parseNumericValue(row['NILAI_PASAR_WAJAR_CLEAN'] ?? row[stats.nilaiPasarColumn]);
+      const match = matchCode(row[stats.kodeEfekColumn], namaColumn ? row[namaColumn] : null);
+      add(groupKey(row, level), 'before', value);
+      add(groupKey(groupColumns(match?.emiten ?? null), level), 'after', value);
+    }
+  }
+
+  return [...totals.entries()]
+    .map(([group, { before, after }]) => ({ group, before, after, delta: after - before }))
+    .filter(impact => Math.abs(impact.delta) > 0.005)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
@@ -0,0 +1,213 @@
+// Master Import - Reads master emiten lists from XLSX, CSV or JSON through a configurable column mapping
+import * as XLSX from 'xlsx';
+import {
+  EmitenMaster,
+  MasterLoadResult,
+  MASTER_COLUMN_HEADERS,
+  DEFAULT_MASTER_FILE_NAME,
+  saveMasterDataVersion,
+} from './masterData';
+import { normalizeHeaderName } from './fieldDictionary';
+import { parseReportDate } from './reportHeader';
+import { getSettingsDatabase, APP_STATE_STORE } from './settingsDb';
+
+export type MasterField = keyof EmitenMaster;
+
+// Source column per master field; unmapped fields stay empty
+export type MasterColumnMapping = Partial<Record<MasterField, string>>;
+
+export interface MasterSourceTable {
+  // Sheet name, or the file name for CSV and JSON
+  name: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+  // Row number of rows[0] in the source, for messages (2 below a header row)
+  firstRow: number;
+}
+
+export interface MasterImportSource {
+  fileName: string;
+  tables: MasterSourceTable[];
+}
+
+export interface MasterRowIssue {
+  row: number;
+  message: string;
+  // Skipped rows are not imported; the others are imported with the field left empty
+  skipped: boolean;
+}
+
+const MAPPING_KEY = 'masterImportMapping';
+
+// Header names recognised per field, besides the standard master file headers
+const FIELD_SYNONYMS: Record<MasterField, string[]> = {
+  kode: ['Kode Efek', 'Kode Saham', 'Kode Emiten', 'Kode', 'Stock Code', 'Ticker', 'Symbol'],
+  namaEmiten: ['Nama Emiten', 'Nama Perusahaan', 'Emiten', 'Issuer', 'Issuer Name', 'Company Name'],
+  afiliasiUtama: ['Afiliasi Utama', 'Afiliasi', 'Grup', 'Group', 'Grup Usaha', 'Konglomerasi', 'Business Group'],
+  subAfiliasi: ['Sub-Afiliasi', 'Sub Afiliasi', 'Sub Grup', 'Sub Group'],
+  uboTokohKunci: ['UBO / Tokoh Kunci', 'UBO', 'Tokoh Kunci', 'Beneficial Owner', 'Ultimate Beneficial Owner'],
+  kategori: ['Kategori', 'Category', 'Sektor', 'Sector'],
+  validFrom: ['Berlaku Dari', 'Valid From', 'Tanggal Mulai', 'Start Date'],
+  validTo: ['Berlaku Sampai', 'Valid To', 'Tanggal Akhir', 'End Date'],
+};
+
+export const MASTER_FIELD_LABELS: Record<MasterField, string> = Object.fromEntries(MASTER_COLUMN_HEADERS) as Record<
+  MasterField,
+  string
+>;
+
+function tableFromRows(name: string, rows: Record<string, unknown>[], firstRow: number): MasterSourceTable {
+  const headers = [...new Set(rows.slice(0, 50).flatMap(row => Object.keys(row)))];
+  return { name, headers, rows, firstRow };
+}
+
+/**
+ * Read a master file into tables: every sheet of a workbook, or the single list of
+ * a CSV or JSON file (an array of objects, or an object holding one)
+ */
+export function readMasterSource(fileName: string, buffer: ArrayBuffer): MasterImportSource {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  if (extension === 'json') {
+    const parsed = JSON.parse(new TextDecoder().decode(buffer));
+    const list = Array.isArray(parsed) ? parsed : Object.values(parsed ?? {}).find(Array.isArray);
+    if (!Array.isArray(list)) {
+      throw new Error('File JSON tidak berisi daftar emiten');
+    }
+    const rows = list.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+    return { fileName, tables: [tableFromRows(fileName, rows, 1)] };
+  }
+
+  // CSV cells are kept as text so codes like "0001" keep their leading zeros
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', raw: extension === 'csv' });
+  const tables = workbook.SheetNames.map(sheetName => {
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheetName], { defval: null });
+    return tableFromRows(extension === 'csv' ? fileName : sheetName, rows, 2);
+  });
+  return { fileName, tables };
+}
+
+/**
+ * Column mapping for a table: the saved mapping where its columns exist, otherwise
+ * the header that names the field
+ */
+export function suggestMasterMapping(headers: string[], saved: MasterColumnMapping | null = null): MasterColumnMapping {
+  const mapping: MasterColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const [field] of MASTER_COLUMN_HEADERS) {
+    const savedHeader = saved?.[field];
+    if (savedHeader && headers.includes(savedHeader)) {
+      mapping[field] = savedHeader;
+      used.add(savedHeader);
+    }
+  }
+
+  for (const [field] of MASTER_COLUMN_HEADERS) {
+    if (mapping[field]) continue;
+    const names = FIELD_SYNONYMS[field].map(normalizeHeaderName);
+    // Earlier synonyms are more specific ("Kode Efek" before "Kode")
+    for (const name of names) {
+      const header = headers.find(h => !used.has(h) && normalizeHeaderName(h) === name);
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/**
+ * Convert table rows to master entries through the mapping. Rows without a code
+ * or with a period that ends before it starts are skipped; unreadable dates are left open.
+ */
+export function parseMasterRows(
+  table: MasterSourceTable,
+  mapping: MasterColumnMapping
+): { entries: EmitenMaster[]; issues: MasterRowIssue[] } {
+  const entries: EmitenMaster[] = [];
+  const issues: MasterRowIssue[] = [];
+  const read = (row: Record<string, unknown>, field: MasterField) =>
+    mapping[field] ? row[mapping[field]!] : null;
+
+  table.rows.forEach((row, idx) => {
+    const rowNumber = table.firstRow + idx;
+    if (Object.values(row).every(value => cellText(value) === '')) return;
+
+    const kode = cellText(read(row, 'kode')).toUpperCase();
+    if (!kode) {
+      issues.push({ row: rowNumber, message: 'kode kosong', skipped: true });
+      return;
+    }
+
+    const readDate = (field: 'validFrom' | 'validTo') => {
+      const raw = read(row, field);
+      if (cellText(raw) === '') return null;
+      const date = parseReportDate(raw);
+      if (!date) {
+        issues.push({ row: rowNumber, message: `${kode}: ${MASTER_FIELD_LABELS[field]} "${cellText(raw)}" tidak dikenali`, skipped: false });
+      }
+      return date;
+    };
+    const validFrom = readDate('validFrom');
+    const validTo = readDate('validTo');
+    if (validFrom && validTo && validFrom > validTo) {
+      issues.push({ row: rowNumber, message: `${kode}: periode berakhir sebelum dimulai`, skipped: true });
+      return;
+    }
+
+    entries.push({
+      kode,
+      namaEmiten: cellText(read(row, 'namaEmiten')),
+      afiliasiUtama: cellText(read(row, 'afiliasiUtama')),
+      subAfiliasi: cellText(read(row, 'subAfiliasi')),
+      uboTokohKunci: cellText(read(row, 'uboTokohKunci')),
+      kategori: cellText(read(row, 'kategori')),
+      validFrom,
+      validTo,
+    });
+  });
+
+  return { entries, issues };
+}
+
+export async function loadMasterImportMapping(): Promise<MasterColumnMapping | null> {
+  const db = await getSettingsDatabase();
+  return (await db.get(APP_STATE_STORE, MAPPING_KEY)) ?? null;
+}
+
+export async function saveMasterImportMapping(mapping: MasterColumnMapping): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.put(APP_STATE_STORE, mapping, MAPPING_KEY);
+}
+
+/**
+ * Load master data from pre-bundled file in public folder and store it as a new active version
+ */
+export async function loadMasterDataFromPublic(): Promise<MasterLoadResult> {
+  try {
+    const response = await fetch(`/data/${DEFAULT_MASTER_FILE_NAME}`);
+    if (!response.ok) {
+      throw new Error('Master data file not found');
+    }
+
+    const source = readMasterSource(DEFAULT_MASTER_FILE_NAME, await response.arrayBuffer());
+    const [table] = source.tables;
+    const { entries } = parseMasterRows(table, suggestMasterMapping(table.headers));
+    return saveMasterDataVersion(entries, DEFAULT_MASTER_FILE_NAME);
+  } catch (error) {
+    return {
+      success: false,
+      count: 0,
+      errors: [`Gagal memuat master data: ${error}`],
+    };
+  }
+}
@@ -0,0 +1,89 @@
+// Master Validation - Checks edited master emiten data before it becomes a new version
+import { EmitenMaster } from './masterData';
+
+export type MasterIssueKind = 'blank_code' | 'duplicate_code' | 'blank_group' | 'similar_group';
+
+export interface MasterIssue {
+  kind: MasterIssueKind;
+  // Blank codes block saving; the other issues are warnings
+  severity: 'error' | 'warning';
+  message: string;
+  // Positions in the validated list
+  indexes: number[];
+}
+
+// Words that only say "this is a group"; "Grup Salim" and "Salim Group" name the same group
+const GROUP_FILLER_WORDS = new Set(['grup', 'group', 'kelompok', 'konglomerasi', 'pt', 'tbk', 'the']);
+
+/**
+ * Group name reduced for comparison: lowercase words without filler words, in sorted order
+ */
+export function groupNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !GROUP_FILLER_WORDS.has(word))
+    .sort()
+    .join('');
+}
+
+function periodsOverlap(a: EmitenMaster, b: EmitenMaster): boolean {
+  const startsBeforeEnd = (x: EmitenMaster, y: EmitenMaster) => !x.validFrom || !y.validTo || x.validFrom <= y.validTo;
+  return startsBeforeEnd(a, b) && startsBeforeEnd(b, a);
+}
+
+/**
+ * Validate master entries: blank codes, codes listed twice for overlapping periods,
+ * blank groups and group names that differ only in wording or filler words
+ */
+export function validateMasterEntries(entries: EmitenMaster[]): MasterIssue[] {
+  const issues: MasterIssue[] = [];
+  const byKode = new Map<string, number[]>();
+
+  entries.forEach((entry, idx) => {
+    const kode = entry.kode.trim().toUpperCase();
+    if (!kode) {
+      issues.push({ kind: 'blank_code', severity: 'error', message: `Emiten "${entry.namaEmiten || '(tanpa nama)'}" tidak memiliki kode`, indexes: [idx] });
+      return;
+    }
+    byKode.set(kode, [...(byKode.get(kode) ?? []), idx]);
+
+    if (!entry.afiliasiUtama.trim()) {
+      issues.push({ kind: 'blank_group', severity: 'warning', message: `${kode}: afiliasi utama kosong`, indexes: [idx] });
+    }
+  });
+
+  for (const [kode, indexes] of byKode) {
+    const overlapping = indexes.filter(i =>
+      indexes.some(j => j !== i && periodsOverlap(entries[i], entries[j]))
+    );
+    if (overlapping.length > 0) {
+      issues.push({
+        kind: 'duplicate_code',
+        severity: 'warning',
+        message: `${kode} tercantum ${overlapping.length} kali untuk periode yang sama`,
+        indexes: overlapping,
+      });
+    }
+  }
+
+  const namesByKey = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    const name = entry.afiliasiUtama.trim();
+    const key = groupNameKey(name);
+    if (!key) continue;
+    namesByKey.set(key, (namesByKey.get(key) ?? new Set()).add(name));
+  }
+  for (const names of namesByKey.values()) {
+    if (names.size < 2) continue;
+    const variants = [...names];
+    issues.push({
+      kind: 'similar_group',
+      severity: 'warning',
+      message: `Nama grup mirip: ${variants.map(n => `"${n}"`).join(', ')}`,
+      indexes: entries.flatMap((e, idx) => (names.has(e.afiliasiUtama.trim()) ? [idx] : [])),
+    });
+  }
+
+  return issues;
+}
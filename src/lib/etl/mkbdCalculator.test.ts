@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { applyMKBDCorrections, calculateVD510AllTables, extractReportedRankingLiabilities } from './mkbdCalculator';
+import { restoreRemovedRows } from './cleaner';
+import { ProcessedSheet } from './types';
+
+/**
+ * A VD510 sub-table as extraction leaves it: form columns with their Excel column,
+ * plus metadata and enrichment columns
+ */
+function vd510Table(
+  subTableId: string,
+  data: Record<string, unknown>[],
+  columns: ProcessedSheet['fieldMapping']['columns']
+): ProcessedSheet {
+  return {
+    sheetName: `VD510 Tabel ${subTableId}`,
+    sourceSheetName: 'VD510',
+    subTableId,
+    formType: 'VD510',
+    headers: Object.keys(data[0] ?? {}),
+    columnSources: { Uraian: 'B', Kode: 'C', Nilai: 'D', RL: 'E' },
+    fieldMapping: { columns, issues: [] },
+    data,
+  } as unknown as ProcessedSheet;
+}
+
+const metadata = (sourceRow: number, fileName = 'laporan_des.xlsx') => ({
+  _sourceRow: sourceRow,
+  _fileName: fileName,
+  _sourceSheet: 'VD510',
+  _uploadDate: '2024-12-31T10:00:00.000Z',
+});
+
+describe('extractReportedRankingLiabilities', () => {
+  const reverseRepo = (fileName: string, grup = 'Non-Grup') =>
+    vd510Table(
+      '10A',
+      [
+        { Uraian: 'Reverse repo A', Kode: 'X1', RL: 300, GRUP_EMITEN: grup, ...metadata(12, fileName) },
+        { Uraian: 'Reverse repo B', Kode: 'X2', RL: 0, GRUP_EMITEN: grup, ...metadata(13, fileName) },
+        { Uraian: 'Jumlah', Kode: null, RL: 300, GRUP_EMITEN: 'Non-Grup', ...metadata(14, fileName) },
+      ],
+      { KODE_EFEK: 'Kode', NILAI_RANKING_LIABILITIES: 'RL' }
+    );
+
+  it('takes the reported ranking liabilities of item rows, not of the table total', () => {
+    const details = extractReportedRankingLiabilities(reverseRepo('laporan_des.xlsx'));
+
+    expect(details).toHaveLength(1);
+    expect(details[0]).toMatchObject({
+      tableId: '10A',
+      kodeEfek: 'X1',
+      namaEfek: 'Reverse repo A X1',
+      nilaiRankingLiabilities: 300,
+      cellAddress: 'VD510!E12',
+    });
+  });
+
+  it('ignores "Total" in the file name and the issuer group', () => {
+    const details = extractReportedRankingLiabilities(
+      reverseRepo('Laporan Total Desember.xlsx', 'Total Bangun Persada')
+    );
+    expect(details.map(d => d.nilaiRankingLiabilities)).toEqual([300]);
+    expect(details[0].namaEfek).not.toMatch(/Laporan|Persada|VD510/);
+  });
+
+  it('names the item after the issuer name column when the table has one', () => {
+    const sheet = vd510Table(
+      '10B',
+      [{ Uraian: 'Penjaminan emisi', Kode: 'ABCD', Nama: 'PT ABCD Tbk', RL: 150, ...metadata(20) }],
+      { KODE_EFEK: 'Kode', NAMA_EFEK: 'Nama', NILAI_RANKING_LIABILITIES: 'RL' }
+    );
+    expect(extractReportedRankingLiabilities(sheet)[0].namaEfek).toBe('PT ABCD Tbk');
+  });
+
+  it('returns nothing for a table without a ranking liabilities column', () => {
+    const sheet = vd510Table('10D', [{ Uraian: 'Item', RL: 100, ...metadata(5) }], {});
+    expect(extractReportedRankingLiabilities(sheet)).toEqual([]);
+  });
+});
+
+describe('calculateVD510AllTables', () => {
+  it('recalculates Tabel 10C from group values and takes the other tables as reported', () => {
+    const portfolio = vd510Table(
+      '10C',
+      [
+        { Kode: 'BBRI', Nilai: 1000, GRUP_NILAI_PASAR_WAJAR: 5000, GRUP_EMITEN: 'BUMN', ...metadata(30) },
+        { Kode: 'ZZZZ', Nilai: 0, GRUP_NILAI_PASAR_WAJAR: 0, GRUP_EMITEN: 'Non-Grup', ...metadata(31) },
+      ],
+      {
+        KODE_EFEK: 'Kode',
+        NILAI_PASAR_WAJAR: 'Nilai',
+        GRUP_NILAI_PASAR_WAJAR: 'GRUP_NILAI_PASAR_WAJAR',
+        GRUP_EMITEN: 'GRUP_EMITEN',
+      }
+    );
+    const reported = vd510Table(
+      '10A',
+      [{ Uraian: 'Reverse repo', Kode: 'X1', RL: 300, ...metadata(12) }],
+      { KODE_EFEK: 'Kode', NILAI_RANKING_LIABILITIES: 'RL' }
+    );
+
+    const details = calculateVD510AllTables([portfolio, reported], 10000);
+
+    expect(details.map(d => [d.tableId, d.kodeEfek, d.nilaiRankingLiabilities])).toEqual([
+      ['10C', 'BBRI', 3000],
+      ['10A', 'X1', 300],
+    ]);
+    expect(details[0]).toMatchObject({ grupEmiten: 'BUMN', batas20Persen: 2000, persentaseTerhadapModal: 50 });
+  });
+});
+
+describe('applyMKBDCorrections', () => {
+  const PORTFOLIO_COLUMNS = {
+    KODE_EFEK: 'Kode',
+    NILAI_PASAR_WAJAR: 'Nilai',
+    GRUP_NILAI_PASAR_WAJAR: 'GRUP_NILAI_PASAR_WAJAR',
+    NILAI_RANKING_LIABILITIES: 'RL',
+  };
+
+  const formSheet = (formType: string, data: Record<string, unknown>[], extra: object = {}) =>
+    ({
+      sheetName: formType,
+      sourceSheetName: formType,
+      formType,
+      formConfidence: 1,
+      headers: Object.keys(data[0]),
+      columnSources: { Uraian: 'B', Saldo: 'C', Jumlah: 'D' },
+      fieldMapping: { columns: { SALDO: 'Saldo', JUMLAH: 'Jumlah' }, issues: [] },
+      data,
+      metadata: {},
+      ...extra,
+    }) as unknown as ProcessedSheet;
+
+  function workbook(portfolio: ProcessedSheet): ProcessedSheet[] {
+    return [
+      formSheet('VD51', [{ Uraian: 'TOTAL ASET LANCAR', Saldo: 50000 }]),
+      formSheet('VD52', [
+        { Uraian: 'TOTAL LIABILITAS', Saldo: 20000 },
+        { Uraian: 'TOTAL EKUITAS', Saldo: 10000 },
+      ]),
+      portfolio,
+      vd510Table('10A', [{ Uraian: 'Reverse repo', Kode: 'X1', RL: 300, ...metadata(12) }], {
+        KODE_EFEK: 'Kode',
+        NILAI_RANKING_LIABILITIES: 'RL',
+      }),
+      formSheet(
+        'VD59',
+        [
+          { Baris: 12, Uraian: 'Total ranking liabilities', Jumlah: 1, _sourceRow: 40 },
+          { Baris: 13, Uraian: 'Total modal kerja', Jumlah: 1, _sourceRow: 41 },
+        ],
+        { lineColumn: 'Baris' }
+      ),
+    ];
+  }
+
+  it('overwrites Tabel 10C ranking liabilities and the VD59 lines that depend on them', () => {
+    const portfolio = vd510Table(
+      '10C',
+      [
+        { Kode: 'BBRI', Nilai: 1000, GRUP_NILAI_PASAR_WAJAR: 5000, RL: 999, ...metadata(30) },
+        { Uraian: 'Total Portofolio', Kode: null, Nilai: null, GRUP_NILAI_PASAR_WAJAR: null, RL: 999, ...metadata(31) },
+      ],
+      PORTFOLIO_COLUMNS
+    );
+
+    const { sheets, vd59Updates } = applyMKBDCorrections(workbook(portfolio));
+    const corrected = sheets.find(s => s.subTableId === '10C')!;
+
+    expect(corrected.data.map(r => r.RL)).toEqual([3000, 3000]);
+    expect(portfolio.data[0].RL).toBe(999);
+    expect(vd59Updates.map(u => [u.line, u.newValue])).toEqual([
+      [12, 3300],
+      [13, 50000 - 20000 - 3300],
+    ]);
+    expect(sheets.find(s => s.formType === 'VD59')!.data.map(r => r.Jumlah)).toEqual([3300, 26700]);
+  });
+
+  it('gives a restored Tabel 10C row its recalculated ranking liabilities', () => {
+    const portfolio = {
+      ...vd510Table(
+        '10C',
+        [{ Kode: 'BBRI', Nilai: 1000, GRUP_NILAI_PASAR_WAJAR: 5000, RL: 3000, ...metadata(30) }],
+        PORTFOLIO_COLUMNS
+      ),
+      headers: ['Kode', 'Nilai', 'GRUP_NILAI_PASAR_WAJAR', 'RL'],
+      columnSchema: {},
+      cleaningLog: {
+        removedRows: [
+          {
+            id: 1,
+            rule: 'low-fill-row',
+            reason: 'test',
+            sourceRow: 31,
+            row: { Kode: 'ASII', Nilai: 4000, RL: 0, _sourceRow: 31 },
+          },
+        ],
+        removedColumns: [],
+      },
+      metadata: { fileName: 'laporan_des.xlsx', uploadDate: '2024-12-31T10:00:00.000Z', cleanedRowCount: 1 },
+    } as unknown as ProcessedSheet;
+
+    const { sheets, vd59Updates } = applyMKBDCorrections(workbook(restoreRemovedRows(portfolio, [1])));
+
+    expect(sheets.find(s => s.subTableId === '10C')!.data.map(r => [r.Kode, r.RL])).toEqual([
+      ['BBRI', 3000],
+      ['ASII', 2000],
+    ]);
+    expect(vd59Updates.find(u => u.line === 12)?.newValue).toBe(5300);
+  });
+});
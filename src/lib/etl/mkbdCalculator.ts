@@ -8,7 +8,11 @@ import {
   CalculationStep, 
   VD510CalculationDetail 
 } from './types';
-import { parseNumericValue } from './enrichment';
+import { ENRICHMENT_COLUMNS, parseNumericValue } from './enrichment';
+import { findSheetByForm, findSheetsByForm } from './formClassifier';
+import { getCellAddress, getSourceRow, isMetadataField } from './provenance';
+import { getLine, getLineIndex, getLineNumber, getLineRange } from './lineNumbers';
+import { getFieldColumn } from './fieldDictionary';
 
 export interface FormulaDefinition {
   id: string;
@@ -19,6 +23,23 @@ export interface FormulaDefinition {
   calculate: (inputs: Record<string, number>) => number;
 }
 
+// VD510 table whose ranking liabilities are recalculated from group market values
+const PORTFOLIO_TABLE_ID = '10C';
+
+// Official VD59 lines ("Baris") the rules read and write
+const VD59_LINES = {
+  totalRankingLiabilities: 12,
+  totalModalKerja: 13,
+  modalKerjaCarriedOver: 15,
+  modalKerjaBersih: 18,
+  modalKerjaBersihTotal: 20,
+  haircutFrom: 33,
+  haircutTo: 92,
+  mkbdDisesuaikan: 102,
+  mkbdDiwajibkan: 103,
+  lebihKurangMKBD: 104,
+};
+
 // Default formulas - can be replaced by user
 export const DEFAULT_FORMULAS: Record<string, FormulaDefinition> = {
   modalKerja: {
@@ -129,7 +150,7 @@ export function extractVD52Values(sheet: ProcessedSheet): Record<string, number>
 
 // Extract TOTAL LIABILITAS from VD52, row with "TOTAL LIABILITAS" and column "Saldo"
 export function extractVD52TotalLiabilitas(sheet: ProcessedSheet): number {
-  const saldoCol = findColumnOptional(sheet.headers, /saldo/i);
+  const saldoCol = getFieldColumn(sheet, 'SALDO');
 
   for (const row of sheet.data) {
     const rowText = Object.values(row)
@@ -150,7 +171,7 @@ export function extractVD52TotalLiabilitas(sheet: ProcessedSheet): number {
 
 // Extract TOTAL EKUITAS from VD52, row with "TOTAL EKUITAS" and column "Saldo"
 export function extractVD52TotalEkuitas(sheet: ProcessedSheet): number {
-  const saldoCol = findColumnOptional(sheet.headers, /saldo/i);
+  const saldoCol = getFieldColumn(sheet, 'SALDO');
 
   for (const row of sheet.data) {
     const rowText = Object.values(row)
@@ -199,7 +220,7 @@ export function extractVD53Values(sheet: ProcessedSheet): Record<string, number>
 
 // Extract TOTAL ASET LANCAR from VD51, row with "TOTAL ASET LANCAR" and column "Saldo"
 export function extractVD51TotalAsetLancar(sheet: ProcessedSheet): number {
-  const saldoCol = findColumnOptional(sheet.headers, /saldo/i);
+  const saldoCol = getFieldColumn(sheet, 'SALDO');
 
   for (const row of sheet.data) {
     const rowText = Object.values(row)
@@ -218,9 +239,13 @@ export function extractVD51TotalAsetLancar(sheet: ProcessedSheet): number {
   return 0;
 }
 
-// Extract NILAI MKBD YANG DIWAJIBKAN from VD59 (typically row 103)
+// Extract NILAI MKBD YANG DIWAJIBKAN from VD59 (line 103)
 export function extractVD59MKBDDiwajibkan(sheet: ProcessedSheet): number {
-  const totalCol = findColumnOptional(sheet.headers, /^total$/i);
+  const totalCol = getFieldColumn(sheet, 'TOTAL');
+  const line103 = getLine(sheet, VD59_LINES.mkbdDiwajibkan);
+  if (line103 && totalCol && line103[totalCol] !== null) {
+    return parseNumericValue(line103[totalCol]);
+  }
   
   for (const row of sheet.data) {
     const rowText = Object.values(row)
@@ -245,23 +270,27 @@ export function calculateVD510RankingLiabilities(
   const details: VD510CalculationDetail[] = [];
   const batas20Persen = totalEkuitas * 0.20;
 
-  // Find relevant columns - support GRUP_NILAI_PASAR_WAJAR from enrichment
-  const kodeEfekCol = findColumnByPattern(sheet.headers, /kode\s*efek/i);
-  const grupNilaiPasarCol = findColumnByPattern(sheet.headers, /grup[_\s]*nilai[_\s]*pasar[_\s]*wajar/i);
-  const nilaiPasarCol = grupNilaiPasarCol || findColumnByPattern(sheet.headers, /nilai\s*pasar\s*wajar/i);
-  const grupEmitenCol = findColumnByPattern(sheet.headers, /grup[_\s]*emiten/i);
+  // Columns from the field mapping; GRUP_NILAI_PASAR_WAJAR is added by enrichment
+  const kodeEfekCol = getFieldColumn(sheet, 'KODE_EFEK');
+  const namaEfekCol = getFieldColumn(sheet, 'NAMA_EFEK');
+  const grupNilaiPasarCol = getFieldColumn(sheet, 'GRUP_NILAI_PASAR_WAJAR');
+  const nilaiPasarCol = getFieldColumn(sheet, 'NILAI_PASAR_WAJAR');
+  const grupEmitenCol = getFieldColumn(sheet, 'GRUP_EMITEN');
+  const nilaiRLCol = getFieldColumn(sheet, 'NILAI_RANKING_LIABILITIES');
   
   // Calculate for each row
   let rowIndex = 0;
   for (const row of sheet.data) {
     rowIndex++;
-    const kodeEfek = String(row[kodeEfekCol] ?? '');
-    const namaEfek = String(row['Jenis_Efek'] ?? row['Nama_Akun'] ?? kodeEfek);
+    const kodeEfek = String(fieldValue(row, kodeEfekCol) ?? '');
+    const namaEfek = String(fieldValue(row, namaEfekCol) ?? kodeEfek);
     
     // Use GRUP_NILAI_PASAR_WAJAR if available, otherwise use nilaiPasarWajar
-    const grupNilaiPasarWajar = parseNumericValue(row['GRUP_NILAI_PASAR_WAJAR'] ?? row[nilaiPasarCol]);
-    const nilaiPasarWajar = parseNumericValue(row[nilaiPasarCol]);
-    const grupEmiten = String(row[grupEmitenCol] ?? row['GRUP_EMITEN'] ?? 'Non-Grup');
+    const nilaiPasarWajar = parseNumericValue(fieldValue(row, nilaiPasarCol));
+    const grupNilaiPasarWajar = grupNilaiPasarCol
+      ? parseNumericValue(row[grupNilaiPasarCol] ?? fieldValue(row, nilaiPasarCol))
+      : nilaiPasarWajar;
+    const grupEmiten = String(fieldValue(row, grupEmitenCol) ?? 'Non-Grup');
     
     // Skip empty rows and non-portfolio placeholders
     if (grupNilaiPasarWajar === 0 || kodeEfek.toLowerCase().includes('other')) {
@@ -280,6 +309,7 @@ export function calculateVD510RankingLiabilities(
     
     details.push({
       rowIndex,
+      tableId: sheet.subTableId ?? PORTFOLIO_TABLE_ID,
       kodeEfek,
       namaEfek,
       nilaiPasarWajar,
@@ -288,12 +318,66 @@ export function calculateVD510RankingLiabilities(
       batas20Persen,
       nilaiRankingLiabilities,
       formula,
+      cellAddress: nilaiRLCol ? getCellAddress(sheet, row, nilaiRLCol) ?? undefined : undefined,
+    });
+  }
+
+  return details;
+}
+
+// Collect ranking liabilities reported in the other VD510 tables (reverse repo, underwriting, ...)
+export function extractReportedRankingLiabilities(sheet: ProcessedSheet): VD510CalculationDetail[] {
+  const details: VD510CalculationDetail[] = [];
+  const nilaiRLCol = getFieldColumn(sheet, 'NILAI_RANKING_LIABILITIES');
+  if (!nilaiRLCol) return details;
+
+  const kodeEfekCol = getFieldColumn(sheet, 'KODE_EFEK');
+  const namaEfekCol = getFieldColumn(sheet, 'NAMA_EFEK');
+  const tableId = sheet.subTableId ?? '';
+
+  let rowIndex = 0;
+  for (const row of sheet.data) {
+    rowIndex++;
+    const label = getRowLabelText(sheet, row).replace(/\s+/g, ' ').trim();
+
+    // Table totals would double count the item rows
+    if (/\b(total|jumlah)\b/i.test(label)) continue;
+
+    const nilaiRankingLiabilities = parseNumericValue(row[nilaiRLCol]);
+    if (nilaiRankingLiabilities === 0) continue;
+
+    const kodeEfek = kodeEfekCol ? String(row[kodeEfekCol] ?? '') : '';
+    const namaEfek = String(fieldValue(row, namaEfekCol) ?? '').trim();
+    details.push({
+      rowIndex,
+      tableId,
+      kodeEfek,
+      namaEfek: namaEfek || label.slice(0, 80) || kodeEfek,
+      nilaiPasarWajar: 0,
+      grupEmiten: '',
+      persentaseTerhadapModal: 0,
+      batas20Persen: 0,
+      nilaiRankingLiabilities,
+      formula: `Dilaporkan pada Tabel ${tableId}`,
+      cellAddress: getCellAddress(sheet, row, nilaiRLCol) ?? undefined,
     });
   }
 
   return details;
 }
 
+// Ranking Liabilities from every VD510 table: Tabel 10C is recalculated, the others are taken as reported
+export function calculateVD510AllTables(
+  vd510Sheets: ProcessedSheet[],
+  totalEkuitas: number
+): VD510CalculationDetail[] {
+  return vd510Sheets.flatMap(sheet =>
+    (sheet.subTableId ?? PORTFOLIO_TABLE_ID) === PORTFOLIO_TABLE_ID
+      ? calculateVD510RankingLiabilities(sheet, totalEkuitas)
+      : extractReportedRankingLiabilities(sheet)
+  );
+}
+
 // Get Total Ranking Liabilities from row 33 (Total Portofolio)
 export function getTotalRankingLiabilitiesFromVD510(
   vd510Details: VD510CalculationDetail[]
@@ -311,42 +395,69 @@ function cloneSheet(sheet: ProcessedSheet): ProcessedSheet {
   };
 }
 
+const ENRICHMENT_COLUMN_SET = new Set(ENRICHMENT_COLUMNS);
+
+/**
+ * Text used to recognise a row: the profile's label column when known, otherwise the text
+ * cells of the form itself (not metadata such as the file name, nor the enrichment columns)
+ */
+function getRowLabelText(sheet: ProcessedSheet, row: Record<string, unknown>): string {
+  if (sheet.labelColumn) return String(row[sheet.labelColumn] ?? '');
+  return Object.entries(row)
+    .filter(([key, v]) => !isMetadataField(key) && !ENRICHMENT_COLUMN_SET.has(key) && typeof v === 'string')
+    .map(([, v]) => v)
+    .join(' ');
+}
+
+/**
+ * Row index of an official line number; sheets without a line column fall back to the row text.
+ * Positions in sheet.data are never used, since cleaning removes rows.
+ */
 function findRowIndexByText(
   sheet: ProcessedSheet,
   pattern: RegExp,
-  preferredRowNumber?: number
+  line?: number
 ): number | null {
-  // prefer exact row index (1-based) if provided and matches
-  if (preferredRowNumber && preferredRowNumber >= 1 && preferredRowNumber <= sheet.data.length) {
-    const idx = preferredRowNumber - 1;
-    const row = sheet.data[idx];
-    const rowText = Object.values(row)
-      .filter(v => typeof v === 'string')
-      .join(' ');
-    if (pattern.test(rowText)) return idx;
+  if (line !== undefined) {
+    const idx = getLineIndex(sheet, line);
+    if (idx !== null) return idx;
   }
 
   for (let i = 0; i < sheet.data.length; i++) {
-    const row = sheet.data[i];
-    const rowText = Object.values(row)
-      .filter(v => typeof v === 'string')
-      .join(' ');
-    if (pattern.test(rowText)) return i;
+    if (pattern.test(getRowLabelText(sheet, sheet.data[i]))) return i;
   }
 
   return null;
 }
 
+const MODAL_KERJA_BERSIH_TOTAL_TEXT = /total\s*modal\s*kerja\s*bersih\s*\(baris\s*18\)/i;
+const MKBD_DISESUAIKAN_TEXT = /total\s*modal\s*kerja\s*bersih\s*disesuaikan/i;
+
+/**
+ * VD59 haircut rows (lines 33-92). Without a line column they are the rows between
+ * the Modal Kerja Bersih total (line 20) and MKBD Disesuaikan (line 102).
+ */
+function getVD59HaircutRows(sheet: ProcessedSheet): Record<string, unknown>[] {
+  if (sheet.lineColumn) {
+    return getLineRange(sheet, VD59_LINES.haircutFrom, VD59_LINES.haircutTo);
+  }
+
+  const startIdx = findRowIndexByText(sheet, MODAL_KERJA_BERSIH_TOTAL_TEXT);
+  const endIdx = findRowIndexByText(sheet, MKBD_DISESUAIKAN_TEXT);
+  if (startIdx === null || endIdx === null || endIdx <= startIdx) return [];
+  return sheet.data.slice(startIdx + 1, endIdx);
+}
+
 function applyVD510Overwrite(
   sheet: ProcessedSheet,
   details: VD510CalculationDetail[],
   totalPortofolio: number
 ): { sheet: ProcessedSheet; updated: boolean } {
   const updatedSheet = cloneSheet(sheet);
-  const nilaiRLCol = findColumnOptional(updatedSheet.headers, /nilai\s*rangking\s*liabilit/i);
-  const kodeEfekCol = findColumnOptional(updatedSheet.headers, /kode\s*efek/i);
-  const grupNilaiCol = findColumnOptional(updatedSheet.headers, /grup[_\s]*nilai[_\s]*pasar[_\s]*wajar/i);
-  const nilaiPasarCol = findColumnOptional(updatedSheet.headers, /nilai\s*pasar\s*wajar/i);
+  const nilaiRLCol = getFieldColumn(updatedSheet, 'NILAI_RANKING_LIABILITIES');
+  const kodeEfekCol = getFieldColumn(updatedSheet, 'KODE_EFEK');
+  const grupNilaiCol = getFieldColumn(updatedSheet, 'GRUP_NILAI_PASAR_WAJAR');
+  const nilaiPasarCol = getFieldColumn(updatedSheet, 'NILAI_PASAR_WAJAR');
 
   if (!nilaiRLCol || !kodeEfekCol) return { sheet: updatedSheet, updated: false };
 
@@ -362,8 +473,8 @@ function applyVD510Overwrite(
     const kodeEfek = String(row[kodeEfekCol] ?? '').trim();
     if (!kodeEfek || kodeEfek.toLowerCase().includes('other')) continue;
 
-    const grupNilai = parseNumericValue(row['GRUP_NILAI_PASAR_WAJAR'] ?? (grupNilaiCol ? row[grupNilaiCol] : undefined));
-    const nilaiPasar = parseNumericValue(nilaiPasarCol ? row[nilaiPasarCol] : undefined);
+    const grupNilai = parseNumericValue(fieldValue(row, grupNilaiCol));
+    const nilaiPasar = parseNumericValue(fieldValue(row, nilaiPasarCol));
     const detail = detailMap.get(keyOf(kodeEfek, nilaiPasar)) ?? detailMap.get(keyOf(kodeEfek, grupNilai));
 
     if (!detail) continue;
@@ -386,21 +497,21 @@ function applyVD59Overwrite(
   totalLiabilitas: number
 ): { sheet: ProcessedSheet; updates: VD59Update[] } {
   const updatedSheet = cloneSheet(sheet);
-  const jumlahCol = findColumnOptional(updatedSheet.headers, /jumlah/i);
-  const totalCol = findColumnOptional(updatedSheet.headers, /^total$/i);
+  const jumlahCol = getFieldColumn(updatedSheet, 'JUMLAH');
+  const totalCol = getFieldColumn(updatedSheet, 'TOTAL');
 
   const updates: VD59Update[] = [];
 
   const modalKerja = totalAsetLancar - totalLiabilitas - totalRankingLiabilities;
 
-  const row12Idx = findRowIndexByText(updatedSheet, /total\s*ranking\s*liabilit/i, 12);
-  const row13Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*\(baris\s*9\s*dikurangi\s*baris\s*11\s*dan\s*baris\s*12\)/i, 13);
-  const row15Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*\(baris\s*13\)/i, 15);
-  const row18Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*bersih\s*\(baris\s*15\s*ditambah\s*baris\s*17\)/i, 18);
-  const row20Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*bersih\s*\(baris\s*18\)/i, 20);
-  const row102Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*bersih\s*disesuaikan/i, 102);
-  const row104Idx = findRowIndexByText(updatedSheet, /lebih\s*\(kurang\)\s*mkbd/i, 104);
-  const row103Idx = findRowIndexByText(updatedSheet, /nilai\s*mkbd\s*yang\s*diwajibkan/i, 103);
+  const row12Idx = findRowIndexByText(updatedSheet, /total\s*ranking\s*liabilit/i, VD59_LINES.totalRankingLiabilities);
+  const row13Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*\(baris\s*9\s*dikurangi\s*baris\s*11\s*dan\s*baris\s*12\)/i, VD59_LINES.totalModalKerja);
+  const row15Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*\(baris\s*13\)/i, VD59_LINES.modalKerjaCarriedOver);
+  const row18Idx = findRowIndexByText(updatedSheet, /total\s*modal\s*kerja\s*bersih\s*\(baris\s*15\s*ditambah\s*baris\s*17\)/i, VD59_LINES.modalKerjaBersih);
+  const row20Idx = findRowIndexByText(updatedSheet, MODAL_KERJA_BERSIH_TOTAL_TEXT, VD59_LINES.modalKerjaBersihTotal);
+  const row102Idx = findRowIndexByText(updatedSheet, MKBD_DISESUAIKAN_TEXT, VD59_LINES.mkbdDisesuaikan);
+  const row104Idx = findRowIndexByText(updatedSheet, /lebih\s*\(kurang\)\s*mkbd/i, VD59_LINES.lebihKurangMKBD);
+  const row103Idx = findRowIndexByText(updatedSheet, /nilai\s*mkbd\s*yang\s*diwajibkan/i, VD59_LINES.mkbdDiwajibkan);
 
   // helper to write cell + record update
   const write = (rowIdx: number | null, col: string, newValue: number, formula: string) => {
@@ -409,12 +520,14 @@ function applyVD59Overwrite(
     const oldValue = parseNumericValue(row[col]);
     row[col] = newValue;
     updates.push({
-      rowIndex: rowIdx + 1,
+      rowIndex: getSourceRow(row) ?? rowIdx + 1,
+      line: getLineNumber(updatedSheet, row) ?? undefined,
       rowDescription: Object.values(row).filter(v => typeof v === 'string').join(' ').slice(0, 80),
       column: col,
       oldValue,
       newValue,
       formula,
+      cellAddress: getCellAddress(updatedSheet, row, col) ?? undefined,
     });
   };
 
@@ -440,8 +553,7 @@ function applyVD59Overwrite(
   // D) Row 102 Total = Row 20 Total - SUM(Total rows 33..92)
   let haircutSum = 0;
   if (totalCol) {
-    for (let i = 32; i < Math.min(92, updatedSheet.data.length); i++) {
-      const r = updatedSheet.data[i];
+    for (const r of getVD59HaircutRows(updatedSheet)) {
       haircutSum += parseNumericValue(r[totalCol]);
     }
     const mkbdDisesuaikan = modalKerja - haircutSum;
@@ -463,10 +575,11 @@ function applyVD59Overwrite(
 export function applyMKBDCorrections(sheets: ProcessedSheet[]): { sheets: ProcessedSheet[]; vd59Updates: VD59Update[] } {
   const out = sheets.map(cloneSheet);
 
-  const vd51 = out.find(s => /vd5[\-_]?1\b|formulir[\-\_\s]*1\b/i.test(s.sheetName));
-  const vd52 = out.find(s => /vd5[\-_]?2\b|formulir[\-\_\s]*2\b/i.test(s.sheetName));
-  const vd59 = out.find(s => /vd5[\-_]?9\b|formulir[\-\_\s]*9\b/i.test(s.sheetName));
-  const vd510 = out.find(s => /vd5[\-_]?10\b|formulir[\-\_\s]*10\b/i.test(s.sheetName));
+  const vd51 = findSheetByForm(out, 'VD51');
+  const vd52 = findSheetByForm(out, 'VD52');
+  const vd59 = findSheetByForm(out, 'VD59');
+  const vd510Sheets = findSheetsByForm(out, 'VD510');
+  const vd510 = vd510Sheets.find(s => (s.subTableId ?? PORTFOLIO_TABLE_ID) === PORTFOLIO_TABLE_ID);
 
   const totalAsetLancar = vd51 ? extractVD51TotalAsetLancar(vd51) : 0;
   const totalLiabilitas = vd52 ? extractVD52TotalLiabilitas(vd52) : 0;
@@ -482,8 +595,12 @@ export function applyMKBDCorrections(sheets: ProcessedSheet[]): { sheets: Proces
       const idx = out.findIndex(s => s.sheetName === vd510.sheetName);
       out[idx] = res.sheet;
 
+      // VD59 takes the ranking liabilities of all VD510 tables, not only Tabel 10C
+      const otherTables = vd510Sheets.filter(s => s !== vd510).flatMap(extractReportedRankingLiabilities);
+      const totalRankingLiabilities = totalPortofolio + getTotalRankingLiabilitiesFromVD510(otherTables);
+
       if (vd59) {
-        const vd59Res = applyVD59Overwrite(vd59, totalPortofolio, totalAsetLancar, totalLiabilitas);
+        const vd59Res = applyVD59Overwrite(vd59, totalRankingLiabilities, totalAsetLancar, totalLiabilitas);
         const idx59 = out.findIndex(s => s.sheetName === vd59.sheetName);
         out[idx59] = vd59Res.sheet;
         vd59Updates.push(...vd59Res.updates);
@@ -503,16 +620,15 @@ export function calculateVD59Updates(
   mkbdDiwajibkan: number
 ): { updates: VD59Update[]; haircutSum: number; mkbdDisesuaikan: number; lebihKurangMKBD: number } {
   const updates: VD59Update[] = [];
-  const jumlahCol = findColumnByPattern(sheet.headers, /jumlah/i);
-  const totalCol = findColumnByPattern(sheet.headers, /^total$/i);
+  const jumlahCol = getFieldColumn(sheet, 'JUMLAH');
+  const totalCol = getFieldColumn(sheet, 'TOTAL');
   
   // Calculate TOTAL MODAL KERJA = TOTAL ASET LANCAR - TOTAL LIABILITAS - TOTAL RANKING LIABILITIES
   const totalModalKerja = totalAsetLancar - totalLiabilitas - totalRankingLiabilities;
   
-  // Calculate haircut sum (rows 33-92 Total column)
+  // Calculate haircut sum (lines 33-92 Total column)
   let haircutSum = 0;
-  for (let i = 32; i < Math.min(92, sheet.data.length); i++) { // 0-indexed: 32 = row 33
-    const row = sheet.data[i];
+  for (const row of getVD59HaircutRows(sheet)) {
     if (totalCol && row[totalCol] !== null) {
       haircutSum += parseNumericValue(row[totalCol]);
     }
@@ -527,49 +643,49 @@ export function calculateVD59Updates(
   // Define rows to update based on user requirements
   const updateRules = [
     { 
-      rowIndex: 12, 
+      line: VD59_LINES.totalRankingLiabilities,
       pattern: /total\s*ranking\s*liabilit/i,
       column: jumlahCol,
       newValue: totalRankingLiabilities,
       formula: 'VD510 Total Portofolio (Nilai_Rangking_Liabilities)',
     },
     {
-      rowIndex: 13,
+      line: VD59_LINES.totalModalKerja,
       pattern: /total\s*modal\s*kerja.*baris\s*9.*dikurangi.*baris\s*11.*baris\s*12/i,
       column: jumlahCol,
       newValue: totalModalKerja,
       formula: 'TOTAL ASET LANCAR - TOTAL LIABILITAS - TOTAL RANKING LIABILITIES',
     },
     {
-      rowIndex: 15,
-      pattern: /total\s*modal\s*kerja.*baris\s*9.*dikurangi.*baris\s*11.*baris\s*12/i,
+      line: VD59_LINES.modalKerjaCarriedOver,
+      pattern: /total\s*modal\s*kerja\s*\(baris\s*13\)/i,
       column: jumlahCol,
       newValue: totalModalKerja,
       formula: 'Same as Row 13 (TOTAL MODAL KERJA)',
     },
     {
-      rowIndex: 18,
+      line: VD59_LINES.modalKerjaBersih,
       pattern: /total\s*modal\s*kerja\s*bersih.*baris\s*15.*ditambah.*baris\s*17/i,
       column: jumlahCol,
       newValue: totalModalKerja,
       formula: 'Same as Row 13 (TOTAL MODAL KERJA)',
     },
     {
-      rowIndex: 20,
+      line: VD59_LINES.modalKerjaBersihTotal,
       pattern: /total\s*modal\s*kerja\s*bersih.*baris\s*18/i,
       column: totalCol,
       newValue: totalModalKerja,
       formula: 'Same as Row 13 (TOTAL MODAL KERJA)',
     },
     {
-      rowIndex: 102,
+      line: VD59_LINES.mkbdDisesuaikan,
       pattern: /total\s*modal\s*kerja\s*bersih\s*disesuaikan/i,
       column: totalCol,
       newValue: mkbdDisesuaikan,
       formula: 'Row 20 - SUM(Rows 33-92 Total)',
     },
     {
-      rowIndex: 104,
+      line: VD59_LINES.lebihKurangMKBD,
       pattern: /lebih.*kurang.*mkbd/i,
       column: totalCol,
       newValue: lebihKurangMKBD,
@@ -577,10 +693,10 @@ export function calculateVD59Updates(
     },
   ];
   
-  // Apply updates
+  // Apply updates to the rows found by official line number
   for (const rule of updateRules) {
-    const rowIdx = rule.rowIndex - 1; // Convert to 0-indexed
-    if (rowIdx >= 0 && rowIdx < sheet.data.length && rule.column) {
+    const rowIdx = findRowIndexByText(sheet, rule.pattern, rule.line);
+    if (rowIdx !== null && rule.column) {
       const row = sheet.data[rowIdx];
       const rowText = Object.values(row)
         .filter(v => typeof v === 'string')
@@ -588,16 +704,15 @@ export function calculateVD59Updates(
       
       const oldValue = parseNumericValue(row[rule.column]);
       
-      // Check if row matches pattern or use row index directly
-      const matchesPattern = rule.pattern.test(rowText);
-      
       updates.push({
-        rowIndex: rule.rowIndex,
-        rowDescription: matchesPattern ? rowText.substring(0, 60) : `Row ${rule.rowIndex}`,
+        rowIndex: getSourceRow(row) ?? rowIdx + 1,
+        line: getLineNumber(sheet, row) ?? rule.line,
+        rowDescription: rowText.substring(0, 60) || `Baris ${rule.line}`,
         column: rule.column,
         oldValue,
         newValue: rule.newValue,
         formula: rule.formula,
+        cellAddress: getCellAddress(sheet, row, rule.column) ?? undefined,
       });
     }
   }
@@ -611,10 +726,10 @@ export function calculateMKBD(sheets: ProcessedSheet[]): MKBDCalculationResult {
   const vd59Updates: VD59Update[] = [];
   
   // Find relevant sheets
-  const vd51Sheet = sheets.find(s => /vd5[\-_]?1\b|formulir[\-_\s]*1\b/i.test(s.sheetName));
-  const vd59Sheet = sheets.find(s => /vd5[\-_]?9\b|formulir[\-_\s]*9\b/i.test(s.sheetName));
-  const vd510Sheet = sheets.find(s => /vd5[\-_]?10\b|formulir[\-_\s]*10\b/i.test(s.sheetName));
-  const vd52Sheet = sheets.find(s => /vd5[\-_]?2\b|formulir[\-_\s]*2\b/i.test(s.sheetName));
+  const vd51Sheet = findSheetByForm(sheets, 'VD51');
+  const vd59Sheet = findSheetByForm(sheets, 'VD59');
+  const vd510Sheets = findSheetsByForm(sheets, 'VD510');
+  const vd52Sheet = findSheetByForm(sheets, 'VD52');
 
   // === PASS 1: Extract key bases (VD51 + VD52 + VD59[mkbd diwajibkan]) ===
   let totalAsetLancar = 0;
@@ -679,20 +794,23 @@ export function calculateMKBD(sheets: ProcessedSheet[]): MKBDCalculationResult {
   let vd510Details: VD510CalculationDetail[] = [];
   let totalRankingLiabilities = 0;
 
-  if (vd510Sheet && totalEkuitas !== 0) {
-    vd510Details = calculateVD510RankingLiabilities(vd510Sheet, totalEkuitas);
+  if (vd510Sheets.length > 0 && totalEkuitas !== 0) {
+    vd510Details = calculateVD510AllTables(vd510Sheets, totalEkuitas);
     
-    // Get Total Ranking Liabilities (sum from VD510, represents row 33 Total Portofolio)
+    // Get Total Ranking Liabilities (sum over all VD510 tables)
     totalRankingLiabilities = getTotalRankingLiabilitiesFromVD510(vd510Details);
 
+    const tableIds = [...new Set(vd510Details.map(d => d.tableId))];
+
     calculationSteps.push({
       id: 'pass2_ranking_liabilities',
-      name: 'Total Ranking Liabilities (VD510 Row 33)',
-      formula: 'SUM(GRUP_NILAI_PASAR_WAJAR - 20% × TOTAL_EKUITAS)',
+      name: `Total Ranking Liabilities (VD510 ${tableIds.map(id => `Tabel ${id}`).join(', ') || 'Row 33'})`,
+      formula: 'SUM(GRUP_NILAI_PASAR_WAJAR - 20% × TOTAL_EKUITAS) + SUM(Ranking Liabilities tabel lain)',
       inputValues: { 
         totalEkuitas,
         batas20Persen: totalEkuitas * 0.20,
         itemCount: vd510Details.length,
+        tableCount: tableIds.length,
       },
       result: totalRankingLiabilities,
       source: 'VD510',
@@ -784,7 +902,9 @@ export function calculateMKBD(sheets: ProcessedSheet[]): MKBDCalculationResult {
 
 // Helper functions
 function findNumericValueInRow(row: Record<string, unknown>): number | null {
-  const values = Object.values(row);
+  const values = Object.entries(row)
+    .filter(([key]) => !isMetadataField(key))
+    .map(([, v]) => v);
   
   for (let i = values.length - 1; i >= 0; i--) {
     const val = values[i];
@@ -799,12 +919,9 @@ function findNumericValueInRow(row: Record<string, unknown>): number | null {
   return null;
 }
 
-function findColumnOptional(headers: string[], pattern: RegExp): string | undefined {
-  return headers.find(h => pattern.test(h));
-}
-
-function findColumnByPattern(headers: string[], pattern: RegExp): string {
-  return headers.find(h => pattern.test(h)) || headers[0];
+// Value of a mapped column; undefined when the sheet has no such column
+function fieldValue(row: Record<string, unknown>, column: string | undefined): unknown {
+  return column ? row[column] : undefined;
 }
 
 function formatNumber(num: number): string {
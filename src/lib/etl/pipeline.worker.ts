@@ -0,0 +1,75 @@
+// Extraction Worker - Runs the full ETL pipeline off the main thread
+import { extractFromExcel } from './extractor';
+import { setMasterData, clearMasterData, EmitenMaster, MasterDataVersion } from './masterData';
+import {
+  ETLProgress,
+  ETLResult,
+  ExtractionProfile,
+  CleaningRuleSet,
+  HeaderRowOverride,
+  CodeMatchReview,
+  GroupLevel,
+  DebtIssuerMapping,
+} from './types';
+
+export interface WorkerStartMessage {
+  type: 'start';
+  file: File;
+  masterData: EmitenMaster[] | null;
+  masterVersion: MasterDataVersion | null;
+  profiles?: ExtractionProfile[];
+  cleaningRules?: CleaningRuleSet[];
+  headerOverrides?: HeaderRowOverride[];
+  codeMatchReviews?: CodeMatchReview[];
+  nonGroupCodes?: string[];
+  groupLevel?: GroupLevel;
+  debtIssuerMappings?: DebtIssuerMapping[];
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: ETLProgress }
+  | { type: 'result'; result: ETLResult }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerStartMessage>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+ctx.onmessage = async (event) => {
+  const {
+    file,
+    masterData,
+    masterVersion,
+    profiles,
+    cleaningRules,
+    headerOverrides,
+    codeMatchReviews,
+    nonGroupCodes,
+    groupLevel,
+    debtIssuerMappings,
+  } = event.data;
+
+  // The worker has its own module state, so master data is handed over per job
+  if (masterData) {
+    setMasterData(masterData, masterVersion);
+  } else {
+    clearMasterData();
+  }
+
+  try {
+    const result = await extractFromExcel(file, {
+      profiles,
+      cleaningRules,
+      headerOverrides,
+      codeMatchReviews,
+      nonGroupCodes,
+      groupLevel,
+      debtIssuerMappings,
+      onProgress: (progress) => ctx.postMessage({ type: 'progress', progress }),
+    });
+    ctx.postMessage({ type: 'result', result });
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: String(error) });
+  }
+};
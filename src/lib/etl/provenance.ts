@@ -0,0 +1,90 @@
+// Provenance - Links processed rows and columns back to their worksheet cells
+import * as XLSX from 'xlsx';
+import { ProcessedSheet } from './types';
+
+// Metadata fields carried on every extracted row
+export const SOURCE_SHEET_FIELD = '_sourceSheet';
+export const SOURCE_ROW_FIELD = '_sourceRow';
+// Header -> formula text (without "=") for the row's cells that hold a formula
+export const FORMULAS_FIELD = '_formulas';
+
+/**
+ * Check if a row key is a metadata field (e.g. _fileName, _sourceRow) rather than form data
+ */
+export function isMetadataField(key: string): boolean {
+  return key.startsWith('_');
+}
+
+/**
+ * Excel column letter for each header, given the zero-based column of the first header.
+ * columnIndexes gives each header's offset when only some columns were kept.
+ */
+export function buildColumnSources(
+  headers: string[],
+  firstColumn = 0,
+  columnIndexes?: number[]
+): Record<string, string> {
+  const sources: Record<string, string> = {};
+  headers.forEach((header, idx) => {
+    sources[header] = XLSX.utils.encode_col(firstColumn + (columnIndexes?.[idx] ?? idx));
+  });
+  return sources;
+}
+
+/**
+ * 1-based Excel row number the row was extracted from
+ */
+export function getSourceRow(row: Record<string, unknown>): number | null {
+  const value = row[SOURCE_ROW_FIELD];
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * Formula behind a value, e.g. "F9-F11-F12", or null when the cell holds a constant
+ */
+export function getCellFormula(row: Record<string, unknown>, header: string): string | null {
+  const formulas = row[FORMULAS_FIELD] as Record<string, string> | undefined;
+  return formulas?.[header] ?? null;
+}
+
+/**
+ * Format a cell reference, quoting sheet names that Excel would quote (e.g. 'Form 9'!F104)
+ */
+export function formatCellRef(sheetName: string, column: string, row: number): string {
+  const needsQuotes = /[^A-Za-z0-9_.]/.test(sheetName);
+  const sheetRef = needsQuotes ? `'${sheetName.replace(/'/g, "''")}'` : sheetName;
+  return `${sheetRef}!${column}${row}`;
+}
+
+/**
+ * Cell address of a value in a processed sheet, e.g. "VD59!F104".
+ * Returns null for rows or columns that do not come from the worksheet (e.g. enrichment columns).
+ */
+export function getCellAddress(
+  sheet: ProcessedSheet,
+  row: Record<string, unknown>,
+  header: string,
+  withSheetName = true
+): string | null {
+  const column = sheet.columnSources[header];
+  const sourceRow = getSourceRow(row);
+  if (!column || sourceRow === null) return null;
+
+  if (!withSheetName) return `${column}${sourceRow}`;
+  const sheetName = String(row[SOURCE_SHEET_FIELD] ?? sheet.sourceSheetName);
+  return formatCellRef(sheetName, column, sourceRow);
+}
+
+/**
+ * Split a cell reference such as "VD59!F104" or "'Form 9'!F104" into sheet name and cell
+ */
+export function parseCellRef(ref: string): { sheetName: string | null; cell: string } {
+  const separator = ref.lastIndexOf('!');
+  if (separator === -1) return { sheetName: null, cell: ref };
+
+  const sheetPart = ref.slice(0, separator);
+  const sheetName = /^'.*'$/.test(sheetPart)
+    ? sheetPart.slice(1, -1).replace(/''/g, "'")
+    : sheetPart;
+  return { sheetName, cell: ref.slice(separator + 1) };
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseReportDate } from './reportHeader';
+
+describe('parseReportDate', () => {
+  it('reads the supported notations', () => {
+    expect(parseReportDate('31 Desember 2024')).toBe('2024-12-31');
+    expect(parseReportDate('31 Des. 2024')).toBe('2024-12-31');
+    expect(parseReportDate('31/12/2024')).toBe('2024-12-31');
+    expect(parseReportDate('31-12-2024')).toBe('2024-12-31');
+    expect(parseReportDate('2024-12-31')).toBe('2024-12-31');
+  });
+
+  it('reads Excel serials within the plausible range', () => {
+    expect(parseReportDate(45657)).toBe('2024-12-31');
+    expect(parseReportDate(1500)).toBeNull();
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseReportDate('31/02/2024')).toBeNull();
+    expect(parseReportDate('31 Foo 2024')).toBeNull();
+  });
+
+  it('finds a date inside longer text unless the whole value must be a date', () => {
+    const text = 'Per tanggal 31 Desember 2024';
+    expect(parseReportDate(text)).toBe('2024-12-31');
+    expect(parseReportDate(text, true)).toBeNull();
+    expect(parseReportDate(' 31 Desember 2024 ', true)).toBe('2024-12-31');
+  });
+});
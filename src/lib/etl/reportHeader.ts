@@ -0,0 +1,195 @@
+// Report Header - Reads broker name, report date, form code and signing director from the letterhead
+import * as XLSX from 'xlsx';
+import { ReportHeader, MKBDFormType } from './types';
+
+// Letterhead fields sit above the table; the signature block may be anywhere below it
+const LETTERHEAD_ROWS = 15;
+// Longer cells are sentences that merely mention a label word
+const MAX_LABEL_CELL_LENGTH = 80;
+
+const BROKER_LABEL = /(nama\s*)?perusahaan\s*efek/i;
+const DATE_LABEL = /tanggal(\s*laporan)?/i;
+const FORM_LABEL = /(kode|nomor)?\s*formulir(\s*(nomor|no\.?))?/i;
+const DIRECTOR_LABEL = /(nama\s*)?direktur(\s*(utama|yang\s*bertanggung\s*jawab))?/i;
+
+// Official code of each detected form, used when the sheet has no "Formulir" label
+const FORM_CODES: Record<Exclude<MKBDFormType, 'UNKNOWN'>, string> = {
+  VD51: 'VD5.1',
+  VD52: 'VD5.2',
+  VD59: 'VD5.9',
+  VD510: 'VD5.10',
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, januari: 1, january: 1,
+  feb: 2, februari: 2, pebruari: 2, february: 2,
+  mar: 3, maret: 3, march: 3,
+  apr: 4, april: 4,
+  mei: 5, may: 5,
+  jun: 6, juni: 6, june: 6,
+  jul: 7, juli: 7, july: 7,
+  agu: 8, agt: 8, agustus: 8, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  okt: 10, oktober: 10, oct: 10, october: 10,
+  nov: 11, nopember: 11, november: 11,
+  des: 12, desember: 12, dec: 12, december: 12,
+};
+
+/**
+ * Official code of a detected form, e.g. VD59 -> "VD5.9"
+ */
+export function getFormCode(formType: MKBDFormType): string | null {
+  return formType !== 'UNKNOWN' ? FORM_CODES[formType] : null;
+}
+
+export function emptyReportHeader(): ReportHeader {
+  return { brokerName: null, reportDate: null, formCode: null, directorName: null };
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Date notations; the boundaries are \b inside longer text and ^ / $ for a whole value
+function datePatterns(start: string, end: string) {
+  return {
+    iso: new RegExp(`${start}(\\d{4})-(\\d{1,2})-(\\d{1,2})${end}`),
+    numeric: new RegExp(`${start}(\\d{1,2})[/.-](\\d{1,2})[/.-](\\d{4})${end}`),
+    named: new RegExp(`${start}(\\d{1,2})\\s+([A-Za-z]+)\\.?\\s+(\\d{4})${end}`),
+  };
+}
+
+const DATE_IN_TEXT = datePatterns('\\b', '\\b');
+const DATE_ONLY = datePatterns('^', '$');
+
+/**
+ * Parse a report date to ISO (yyyy-mm-dd): Excel serials, "31 Desember 2024",
+ * "31/12/2024", "31-12-2024" and "2024-12-31", also inside longer text unless
+ * wholeValue asks for a value that is nothing but the date
+ */
+export function parseReportDate(value: unknown, wholeValue = false): string | null {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return toIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+
+  // Excel date serial (1955 .. 2119)
+  if (typeof value === 'number') {
+    if (value < 20000 || value > 80000) return null;
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? toIsoDate(parsed.y, parsed.m, parsed.d) : null;
+  }
+
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  const patterns = wholeValue ? DATE_ONLY : DATE_IN_TEXT;
+
+  const iso = text.match(patterns.iso);
+  if (iso) return toIsoDate(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = text.match(patterns.numeric);
+  if (numeric) return toIsoDate(+numeric[3], +numeric[2], +numeric[1]);
+
+  const named = text.match(patterns.named);
+  if (named) {
+    const month = MONTHS[named[2].toLowerCase()];
+    if (month) return toIsoDate(+named[3], month, +named[1]);
+  }
+
+  return null;
+}
+
+function cleanText(value: unknown): string {
+  return String(value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the value of a "Label : value" pair: the text after the label in the same cell,
+ * otherwise the next non-empty cell to the right. Returns the first value accepted by parse.
+ */
+function findLabeledValue<T>(
+  rawData: unknown[][],
+  label: RegExp,
+  parse: (value: unknown) => T | null,
+  rows: number = rawData.length
+): T | null {
+  for (let r = 0; r < Math.min(rows, rawData.length); r++) {
+    const row = rawData[r] || [];
+
+    for (let c = 0; c < row.length; c++) {
+      if (typeof row[c] !== 'string') continue;
+      const text = cleanText(row[c]);
+      const match = text.match(label);
+      if (!match || text.length > MAX_LABEL_CELL_LENGTH) continue;
+
+      const rest = text.slice((match.index ?? 0) + match[0].length).replace(/^[\s:=-]+/, '');
+      if (rest) {
+        const parsed = parse(rest);
+        if (parsed !== null) return parsed;
+        continue;
+      }
+
+      const next = row.slice(c + 1).find(v => v !== null && v !== undefined && !/^[\s:]*$/.test(String(v)));
+      if (next !== undefined) {
+        const parsed = parse(next);
+        if (parsed !== null) return parsed;
+      }
+    }
+  }
+
+  return null;
+}
+
+function parseName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const text = cleanText(value).replace(/^[(\s]+|[)\s]+$/g, '');
+  // Placeholders such as "...." or "(                )" are not names
+  return /[A-Za-z]{2,}/.test(text) ? text : null;
+}
+
+function parseFormCode(value: unknown): string | null {
+  const text = cleanText(value);
+  const looksLikeCode = /^[A-Z0-9][A-Z0-9.\-/ ]{1,20}$/i.test(text) && /\d/.test(text) && /[A-Z]/i.test(text);
+  return looksLikeCode ? text.toUpperCase() : null;
+}
+
+/**
+ * Read the report header of one worksheet (raw rows from sheet_to_json with header: 1)
+ */
+export function extractReportHeader(rawData: unknown[][], formType: MKBDFormType = 'UNKNOWN'): ReportHeader {
+  return {
+    brokerName: findLabeledValue(rawData, BROKER_LABEL, parseName, LETTERHEAD_ROWS),
+    reportDate: findLabeledValue(rawData, DATE_LABEL, value => parseReportDate(value), LETTERHEAD_ROWS),
+    formCode: findLabeledValue(rawData, FORM_LABEL, parseFormCode, LETTERHEAD_ROWS)
+      ?? getFormCode(formType),
+    directorName: findLabeledValue(rawData, DIRECTOR_LABEL, parseName),
+  };
+}
+
+/**
+ * Combine per-sheet headers: every field takes the first value found
+ */
+export function mergeReportHeaders(headers: ReportHeader[]): ReportHeader {
+  const merged = emptyReportHeader();
+  for (const header of headers) {
+    merged.brokerName ??= header.brokerName;
+    merged.reportDate ??= header.reportDate;
+    merged.formCode ??= header.formCode;
+    merged.directorName ??= header.directorName;
+  }
+  return merged;
+}
+
+/**
+ * File-name friendly label "<broker>_<form>_<date>", or null when nothing is known
+ */
+export function formatReportLabel(header: ReportHeader | null | undefined): string | null {
+  if (!header) return null;
+  const parts = [header.brokerName, header.formCode, header.reportDate]
+    .filter((p): p is string => !!p)
+    .map(p => p.replace(/[^A-Za-z0-9.-]+/g, '_').replace(/^_+|_+$/g, ''));
+  return parts.length > 0 ? parts.join('_') : null;
+}
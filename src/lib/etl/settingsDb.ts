@@ -0,0 +1,49 @@
+// Settings Database - IndexedDB stores for user configuration, kept apart from the data tables
+import { openDB, IDBPDatabase } from 'idb';
+
+const SETTINGS_DB_NAME = 'etl_settings';
+const SETTINGS_DB_VERSION = 5;
+
+// Cleaning rule sets, keyed by scope (form type or DEFAULT)
+export const CLEANING_RULES_STORE = 'cleaning_rules';
+// Header rows picked by the user, keyed by form layout
+export const HEADER_OVERRIDES_STORE = 'header_overrides';
+// Master emiten snapshots, keyed by version id
+export const MASTER_VERSIONS_STORE = 'master_versions';
+// Reviewer decisions on non-exact stock code matches, keyed by the input code
+export const CODE_MATCH_REVIEWS_STORE = 'code_match_reviews';
+// Stock codes marked as deliberately non-group, keyed by code
+export const NON_GROUP_CODES_STORE = 'non_group_codes';
+// Single values such as the active master version, stored under their own key
+export const APP_STATE_STORE = 'app_state';
+
+let settingsDb: IDBPDatabase | null = null;
+
+export async function getSettingsDatabase(): Promise<IDBPDatabase> {
+  if (settingsDb) return settingsDb;
+
+  settingsDb = await openDB(SETTINGS_DB_NAME, SETTINGS_DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(CLEANING_RULES_STORE)) {
+        db.createObjectStore(CLEANING_RULES_STORE, { keyPath: 'scope' });
+      }
+      if (!db.objectStoreNames.contains(HEADER_OVERRIDES_STORE)) {
+        db.createObjectStore(HEADER_OVERRIDES_STORE, { keyPath: 'layoutKey' });
+      }
+      if (!db.objectStoreNames.contains(MASTER_VERSIONS_STORE)) {
+        db.createObjectStore(MASTER_VERSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CODE_MATCH_REVIEWS_STORE)) {
+        db.createObjectStore(CODE_MATCH_REVIEWS_STORE, { keyPath: 'inputCode' });
+      }
+      if (!db.objectStoreNames.contains(NON_GROUP_CODES_STORE)) {
+        db.createObjectStore(NON_GROUP_CODES_STORE, { keyPath: 'kode' });
+      }
+      if (!db.objectStoreNames.contains(APP_STATE_STORE)) {
+        db.createObjectStore(APP_STATE_STORE);
+      }
+    },
+  });
+
+  return settingsDb;
+}
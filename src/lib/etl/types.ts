@@ -2,32 +2,269 @@
 
 export interface SheetData {
   sheetName: string;
+  sourceSheetName: string;
   headers: string[];
   rows: Record<string, unknown>[];
   originalHeaders: string[];
+  headerPaths: string[][];
+  // Header -> Excel column letter in the source worksheet
+  columnSources: Record<string, string>;
   rowCount: number;
+  subTableId?: string;
+  rowRange?: SourceRowRange;
+  // Header holding the row labels, when the extraction profile names one
+  labelColumn?: string;
+  // Header holding the official line numbers ("Baris"), when the profile names one
+  lineColumn?: string;
+  headerDetection?: HeaderDetection;
+}
+
+// How the header row of a table was found
+export type HeaderDetectionMethod = 'indicator' | 'scored' | 'profile' | 'override';
+
+export interface HeaderRowCandidate {
+  // 1-based Excel row
+  row: number;
+  score: number;
+  // Non-empty cells of the row, shown when the user picks the header
+  cells: string[];
+}
+
+export interface HeaderDetection {
+  method: HeaderDetectionMethod;
+  // 0-1; low values ask the user to confirm the row, see needsHeaderConfirmation
+  confidence: number;
+  // 1-based Excel row of the (first) header row
+  headerRow: number;
+  // Form layout a manual choice is remembered for, see getHeaderLayoutKey
+  layoutKey: string;
+  candidates: HeaderRowCandidate[];
+}
+
+// Header row picked by the user; applies wherever the layout has a row with this text
+export interface HeaderRowOverride {
+  layoutKey: string;
+  headerSignature: string;
+  updatedAt?: string;
+}
+
+// 1-based Excel row numbers of a table's header and last data row
+export interface SourceRowRange {
+  startRow: number;
+  endRow: number;
+}
+
+// How a stock code that is not in the master list was traced to an issuer
+export type CodeMatchMethod = 'derivative' | 'series' | 'suffix' | 'prefix' | 'name';
+
+export type CodeMatchDecision = 'accepted' | 'rejected';
+
+// A code resolved by anything but an exact lookup, listed once per sheet for review
+export interface CodeMatch {
+  inputCode: string;
+  matchedKode: string;
+  namaEmiten: string;
+  method: CodeMatchMethod;
+  // 0..1; rule-based methods score high, name matches by similarity
+  score: number;
+  occurrences: number;
+  // Unset while nobody has reviewed the match; it is applied meanwhile
+  decision?: CodeMatchDecision;
+}
+
+// Reviewer's verdict on a non-exact match; rejected codes stay Non-Grup
+export interface CodeMatchReview {
+  inputCode: string;
+  matchedKode: string;
+  decision: CodeMatchDecision;
+  updatedAt?: string;
+}
+
+// Stock code kept in Non-Grup on purpose, so it no longer counts as unmatched
+export interface NonGroupCode {
+  kode: string;
+  markedAt?: string;
+}
+
+// Master field group totals are aggregated on; ranking liabilities use the chosen one
+export type GroupLevel = 'afiliasiUtama' | 'subAfiliasi' | 'uboTokohKunci';
+
+// Bond, sukuk or MTN code, or a series prefix of such codes, traced to its issuer
+export interface DebtIssuerMapping {
+  // Full instrument code ("BBRI01ACN2") or series prefix ("BBRI01"); the longest match wins
+  kodeEfek: string;
+  // Issuer stock code in the master emiten list
+  kodeEmiten: string;
+  namaInstrumen: string;
+  // Obligasi, Sukuk, MTN, ...
+  jenis: string;
 }
 
 export interface EnrichmentStats {
   kodeEfekColumn: string | null;
   nilaiPasarColumn: string | null;
   matchedCount: number;
+  // Rows whose code is missing from the master; marked non-group codes are not counted
   unmatchedCount: number;
+  // Distinct non-blank codes behind unmatchedCount
+  unmatchedCodes: string[];
+  // Rows whose code is marked as deliberately non-group
+  nonGroupCount: number;
+  // Matched rows resolved through the debt instrument issuer mapping
+  debtMatchedCount: number;
+  // Level groupCount and GRUP_NILAI_PASAR_WAJAR refer to
+  groupLevel: GroupLevel;
   groupCount: number;
   totalGroupValue: number;
+  // Report date the master data was looked up at; null means today
+  asOfDate: string | null;
+  nonExactMatches: CodeMatch[];
+}
+
+export interface EnrichmentOptions {
+  // Report date groups are looked up at; today when null
+  reportDate?: string | null;
+  codeMatchReviews?: CodeMatchReview[];
+  // Codes marked as deliberately non-group
+  nonGroupCodes?: string[];
+  // Aggregation level for ranking liabilities; Afiliasi Utama when omitted
+  groupLevel?: GroupLevel;
+  debtIssuerMappings?: DebtIssuerMapping[];
+}
+
+// MKBD form identified from sheet content (VD5.1 ... VD5.10)
+export type MKBDFormType = 'VD51' | 'VD52' | 'VD59' | 'VD510' | 'UNKNOWN';
+
+export interface FormClassification {
+  formType: MKBDFormType;
+  confidence: number;
+  matchedSignatures: string[];
+}
+
+export type KeywordMatchMode = 'substring' | 'word' | 'regex';
+
+export interface KeywordRule {
+  pattern: string;
+  mode: KeywordMatchMode;
+  enabled: boolean;
+}
+
+// Cleaning rules of one form; the DEFAULT set applies to forms without their own
+export interface CleaningRuleSet {
+  scope: MKBDFormType | 'DEFAULT';
+  // Rows whose text matches an enabled keyword are dropped (footers, notes)
+  junkKeywords: KeywordRule[];
+  // Letterhead rows, see isHeaderRow
+  headerKeywords: KeywordRule[];
+  // Rows filled below this ratio are dropped, when the sheet has more than minRowFillColumns columns
+  minRowFillRatio: number;
+  minRowFillColumns: number;
+  // Columns filled below these ratios are dropped
+  minColumnFillRatio: number;
+  minUnnamedColumnFillRatio: number;
+  // Never drop a row that holds a non-zero number
+  protectNumericRows: boolean;
+  updatedAt?: string;
+}
+
+export type CleaningRule = 'empty-row' | 'low-fill-row' | 'junk-keyword' | 'empty-column';
+
+export interface RemovedRow {
+  // Position of the row among the extracted rows of the sheet
+  id: number;
+  rule: CleaningRule;
+  reason: string;
+  // 1-based Excel row, when known
+  sourceRow: number | null;
+  // The row as extracted, before cleaning
+  row: Record<string, unknown>;
+}
+
+export interface RemovedColumn {
+  header: string;
+  rule: CleaningRule;
+  reason: string;
+  // Non-empty cells the column held
+  values: { sourceRow: number | null; value: unknown }[];
+}
+
+// Everything cleanData removed from a sheet, so nothing is discarded without a trace
+export interface CleaningLog {
+  removedRows: RemovedRow[];
+  removedColumns: RemovedColumn[];
+}
+
+export type ColumnType = 'number' | 'percentage' | 'date' | 'code' | 'text';
+
+export interface ColumnSchema {
+  header: string;
+  type: ColumnType;
+  // Share of non-empty values that fit the type (0-1)
+  confidence: number;
+  // Non-empty values that don't fit the type; they are kept as found
+  mismatchCount: number;
+}
+
+// Canonical fields the calculations read, matched to sheet headers by fieldDictionary.ts
+export type CanonicalField =
+  | 'KODE_EFEK'
+  | 'NAMA_EFEK'
+  | 'NILAI_PASAR_WAJAR'
+  | 'GRUP_NILAI_PASAR_WAJAR'
+  | 'GRUP_EMITEN'
+  | 'NILAI_RANKING_LIABILITIES'
+  | 'SALDO'
+  | 'JUMLAH'
+  | 'TOTAL';
+
+export interface FieldMappingIssue {
+  field: CanonicalField;
+  // missing: a field the form needs has no column; ambiguous: several columns match equally well
+  kind: 'missing' | 'ambiguous';
+  candidates: string[];
+}
+
+export interface FieldMapping {
+  // Canonical field -> sheet header; ambiguous and missing fields have no entry
+  columns: Partial<Record<CanonicalField, string>>;
+  issues: FieldMappingIssue[];
 }
 
 export interface ProcessedSheet {
   sheetName: string;
   tableName: string;
+  formType: MKBDFormType;
+  formConfidence: number;
+  subTableId?: string;
+  // Worksheet the data was extracted from (sheetName may carry a sub-table suffix)
+  sourceSheetName: string;
+  // Header -> Excel column letter; columns added by enrichment have no entry
+  columnSources: Record<string, string>;
+  // Header -> header text in the form, one entry per header level (group header first);
+  // columns added by the pipeline have no entry
+  originalHeaders: Record<string, string[]>;
+  labelColumn?: string;
+  // Official line-number column ("Baris"); rules address rows through it, see lineNumbers.ts
+  lineColumn?: string;
+  headerDetection?: HeaderDetection;
   headers: string[];
+  // Inferred type of every data column; values are already coerced to it
+  columnSchema: Record<string, ColumnSchema>;
+  // Columns holding the canonical fields, resolved once at extraction
+  fieldMapping: FieldMapping;
+  cleaningLog: CleaningLog;
+  // Each row carries _sourceSheet and _sourceRow (1-based Excel row)
   data: Record<string, unknown>[];
   metadata: {
     fileName: string;
     uploadDate: string;
     originalRowCount: number;
     cleanedRowCount: number;
+    sourceRowRange?: SourceRowRange;
+    extractionProfileId?: string;
     enrichmentStats?: EnrichmentStats | null;
+    // Master data version used for enrichment; absent when no master data was loaded
+    masterVersionId?: string;
   };
 }
 
@@ -36,12 +273,95 @@ export interface ETLResult {
   sheets: ProcessedSheet[];
   errors: string[];
   warnings: string[];
+  formulaIssues: FormulaIssue[];
+  reportHeader: ReportHeader;
+  // VD59 lines overwritten from the VD510 ranking liabilities (see applyMKBDCorrections)
+  vd59Updates: VD59Update[];
+}
+
+// Letterhead metadata of a report; fields are null when not found
+export interface ReportHeader {
+  brokerName: string | null;
+  // ISO date (yyyy-mm-dd)
+  reportDate: string | null;
+  formCode: string | null;
+  directorName: string | null;
+}
+
+// Formula verification: cached value vs. re-evaluated formula, or a total typed in by hand
+export type FormulaIssueType = 'mismatch' | 'hardcoded-total';
+
+export interface FormulaIssue {
+  type: FormulaIssueType;
+  sheetName: string;
+  // Cell reference including the sheet, e.g. "VD59!F13"
+  cellAddress: string;
+  formula?: string;
+  cachedValue: number;
+  computedValue?: number;
+  message: string;
+}
+
+// Pipeline progress, streamed per sheet and per stage
+export type ETLStage = 'read' | 'sanitize' | 'clean' | 'enrich' | 'correct' | 'done';
+
+export interface ETLProgress {
+  stage: ETLStage;
+  sheetName?: string;
+  sheetIndex: number;
+  sheetCount: number;
+  percent: number;
+}
+
+export interface ExtractOptions {
+  onProgress?: (progress: ETLProgress) => void;
+  signal?: AbortSignal;
+  // Active extraction profiles; the built-in profiles are used when omitted
+  profiles?: ExtractionProfile[];
+  // Saved cleaning rule sets; the built-in defaults are used when omitted
+  cleaningRules?: CleaningRuleSet[];
+  // Header rows picked by the user, applied when their layout matches
+  headerOverrides?: HeaderRowOverride[];
+  // Reviewed non-exact stock code matches
+  codeMatchReviews?: CodeMatchReview[];
+  // Stock codes marked as deliberately non-group
+  nonGroupCodes?: string[];
+  // Group aggregation level for ranking liabilities
+  groupLevel?: GroupLevel;
+  // Bond and sukuk codes traced to their issuer
+  debtIssuerMappings?: DebtIssuerMapping[];
+}
+
+// Declarative layout of a form, validated by extractionProfileSchema.
+// Markers are case-insensitive regexes tested against the joined text of a row.
+export interface ExtractionProfile {
+  id: string;
+  name: string;
+  formType: MKBDFormType;
+  // Regexes on the sheet name; a match selects this profile regardless of content
+  sheetMatchers: string[];
+  // 1-based rows within the region (the sheet, or the rows after the start marker)
+  headerRows?: { start: number; end: number };
+  startMarker?: string;
+  // Start a new sub-table at every start marker; capture groups form the table id
+  splitOnStartMarker: boolean;
+  stopMarkers: string[];
+  // Column letters or header names to keep; all columns when omitted
+  columns?: string[];
+  labelColumn?: string;
+  // Column letter or header name of the line numbers; detected when omitted
+  lineColumn?: string;
+  // 1-based header row used when no column indicator row is found
+  fallbackHeaderRow: number;
 }
 
 export interface DatabaseRecord extends Record<string, unknown> {
   _id?: number;
   _fileName: string;
   _uploadDate: string;
+  _brokerName?: string | null;
+  _reportDate?: string | null;
+  _formCode?: string | null;
 }
 
 export interface StoredTable {
@@ -53,16 +373,20 @@ export interface StoredTable {
 // MKBD Calculation Types
 export interface VD59Update {
   rowIndex: number;
+  // Official VD59 line number ("Baris") of the updated row
+  line?: number;
   rowDescription: string;
   rowLabel?: string;
   column: string;
   oldValue: number;
   newValue: number;
   formula: string;
+  cellAddress?: string;
 }
 
 export interface VD510CalculationDetail {
   rowIndex: number;
+  tableId: string;
   kodeEfek: string;
   namaEfek: string;
   nilaiPasarWajar: number;
@@ -71,6 +395,7 @@ export interface VD510CalculationDetail {
   batas20Persen: number;
   nilaiRankingLiabilities: number;
   formula: string;
+  cellAddress?: string;
 }
 
 export interface CalculationStep {
@@ -98,3 +423,24 @@ export interface MKBDCalculationResult {
   vd59Updates: VD59Update[];
   haircutSum: number;
 }
+
+// Batch ingestion - one queue entry per uploaded workbook
+export type BatchItemStatus = 'queued' | 'processing' | 'processed' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  etlResult: ETLResult | null;
+  mkbdResult: MKBDCalculationResult | null;
+  error: string | null;
+}
+
+export interface BatchSummary {
+  total: number;
+  queued: number;
+  processed: number;
+  failed: number;
+  cancelled: number;
+  withWarnings: number;
+}
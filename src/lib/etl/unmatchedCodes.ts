@@ -0,0 +1,148 @@
+// Unmatched Codes - Stock codes missing from the master across the loaded sheets, and resolving them
+import * as XLSX from 'xlsx';
+import { EmitenMaster, getAllMasterData, saveMasterDataVersion, MasterLoadResult } from './masterData';
+import { parseNumericValue } from './enrichment';
+import { NonGroupCode, ProcessedSheet } from './types';
+import { getSettingsDatabase, NON_GROUP_CODES_STORE } from './settingsDb';
+
+// Source name of master versions created by assigning groups to unmatched codes
+export const UNMATCHED_ASSIGNMENT_SOURCE_NAME = 'Penetapan kode tidak cocok';
+
+export interface UnmatchedCodeLocation {
+  fileName: string;
+  sheetName: string;
+  occurrences: number;
+}
+
+export interface UnmatchedCode {
+  kode: string;
+  // First issuer name found next to the code, if the sheet has a name column
+  namaEfek: string;
+  occurrences: number;
+  marketValue: number;
+  locations: UnmatchedCodeLocation[];
+}
+
+export interface GroupAssignment {
+  kode: string;
+  namaEmiten: string;
+  afiliasiUtama: string;
+}
+
+/**
+ * Every unmatched code of the given sheets with its row count, market value and the
+ * sheets it appears in, largest market value first
+ */
+export function collectUnmatchedCodes(sheets: ProcessedSheet[]): UnmatchedCode[] {
+  const codes = new Map<string, UnmatchedCode>();
+
+  for (const sheet of sheets) {
+    const stats = sheet.metadata.enrichmentStats;
+    if (!stats?.kodeEfekColumn || !stats.unmatchedCodes?.length) continue;
+
+    const unmatched = new Set(stats.unmatchedCodes);
+    const namaColumn = sheet.fieldMapping.columns.NAMA_EFEK;
+
+    for (const row of sheet.data) {
+      const kode = String(row[stats.kodeEfekColumn] || '').trim().toUpperCase().replace(/\s+/g, ' ');
+      if (!unmatched.has(kode)) continue;
+
+      const entry = codes.get(kode) ?? { kode, namaEfek: '', occurrences: 0, marketValue: 0, locations: [] };
+      codes.set(kode, entry);
+
+      entry.occurrences++;
+      entry.marketValue += stats.nilaiPasarColumn
+        ? parseNumericValue(row['NILAI_PASAR_WAJAR_CLEAN'] ?? row[stats.nilaiPasarColumn])
+        : 0;
+      if (!entry.namaEfek && namaColumn) {
+        entry.namaEfek = String(row[namaColumn] ?? '').trim();
+      }
+
+      let location = entry.locations.find(
+        l => l.fileName === sheet.metadata.fileName && l.sheetName === sheet.sheetName
+      );
+      if (!location) {
+        location = { fileName: sheet.metadata.fileName, sheetName: sheet.sheetName, occurrences: 0 };
+        entry.locations.push(location);
+      }
+      location.occurrences++;
+    }
+  }
+
+  return [...codes.values()].sort((a, b) => b.marketValue - a.marketValue || a.kode.localeCompare(b.kode));
+}
+
+/**
+ * Add the assigned codes to the master data and store the result as a new active version
+ */
+export async function assignUnmatchedCodes(assignments: GroupAssignment[]): Promise<MasterLoadResult> {
+  const added: EmitenMaster[] = assignments.map(a => ({
+    kode: a.kode,
+    namaEmiten: a.namaEmiten.trim(),
+    afiliasiUtama: a.afiliasiUtama.trim(),
+    subAfiliasi: '',
+    uboTokohKunci: '',
+    kategori: '',
+    validFrom: null,
+    validTo: null,
+  }));
+  return saveMasterDataVersion([...getAllMasterData(), ...added], UNMATCHED_ASSIGNMENT_SOURCE_NAME);
+}
+
+/**
+ * Unmatched codes as a file for the risk team
+ */
+export function exportUnmatchedCodes(codes: UnmatchedCode[], format: 'xlsx' | 'csv'): Blob {
+  const rows = codes.map(code => ({
+    'Kode Efek': code.kode,
+    'Nama Efek': code.namaEfek,
+    'Jumlah Baris': code.occurrences,
+    'Nilai Pasar Wajar': code.marketValue,
+    Sheet: code.locations.map(l => `${l.fileName} / ${l.sheetName}`).join('; '),
+  }));
+  const worksheet = XLSX.utils.json_to_sheet(rows, {
+    header: ['Kode Efek', 'Nama Efek', 'Jumlah Baris', 'Nilai Pasar Wajar', 'Sheet'],
+  });
+
+  if (format === 'csv') {
+    return new Blob([XLSX.utils.sheet_to_csv(worksheet)], { type: 'text/csv;charset=utf-8' });
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Kode Tidak Cocok');
+  const wbout = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([wbout], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+/**
+ * Download unmatched codes to the browser
+ */
+export function downloadUnmatchedCodes(codes: UnmatchedCode[], format: 'xlsx' | 'csv'): void {
+  const url = URL.createObjectURL(exportUnmatchedCodes(codes, format));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `kode-tidak-cocok_${new Date().toISOString().split('T')[0]}.${format}`;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ============ Deliberately non-group codes (IndexedDB) ============
+
+export async function loadNonGroupCodes(): Promise<NonGroupCode[]> {
+  const db = await getSettingsDatabase();
+  return db.getAll(NON_GROUP_CODES_STORE);
+}
+
+export async function markNonGroupCode(kode: string): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.put(NON_GROUP_CODES_STORE, { kode, markedAt: new Date().toISOString() });
+}
+
+export async function unmarkNonGroupCode(kode: string): Promise<void> {
+  const db = await getSettingsDatabase();
+  await db.delete(NON_GROUP_CODES_STORE, kode);
+}
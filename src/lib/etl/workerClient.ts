@@ -0,0 +1,81 @@
+// Worker Client - Starts the extraction worker and relays its progress
+import { ETLResult, ExtractOptions } from './types';
+import { extractFromExcel } from './extractor';
+import { getActiveMasterVersion, getAllMasterData, isMasterLoaded } from './masterData';
+import type { WorkerStartMessage, WorkerResponse } from './pipeline.worker';
+
+/**
+ * Run extractFromExcel in a dedicated Web Worker so the UI stays responsive.
+ * Aborting the signal terminates the worker and rejects with an AbortError.
+ * Falls back to the main thread where Web Workers are unavailable (e.g. tests).
+ */
+export function extractInWorker(file: File, options: ExtractOptions = {}): Promise<ETLResult> {
+  const {
+    onProgress,
+    signal,
+    profiles,
+    cleaningRules,
+    headerOverrides,
+    codeMatchReviews,
+    nonGroupCodes,
+    groupLevel,
+    debtIssuerMappings,
+  } = options;
+
+  if (typeof Worker === 'undefined') {
+    return extractFromExcel(file, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Proses ekstraksi dibatalkan', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Proses ekstraksi dibatalkan', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Worker ekstraksi gagal'));
+    };
+
+    const startMessage: WorkerStartMessage = {
+      type: 'start',
+      file,
+      masterData: isMasterLoaded() ? getAllMasterData() : null,
+      masterVersion: getActiveMasterVersion(),
+      profiles,
+      cleaningRules,
+      headerOverrides,
+      codeMatchReviews,
+      nonGroupCodes,
+      groupLevel,
+      debtIssuerMappings,
+    };
+    worker.postMessage(startMessage);
+  });
+}